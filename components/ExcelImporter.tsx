@@ -3,6 +3,7 @@ import { Upload, Button, Table, Card, Select, Space, Alert, Modal, notification
 import { UploadOutlined, FileExcelOutlined, DownloadOutlined } from '@ant-design/icons';
 import type { UploadFile, UploadProps } from 'antd/es/upload/interface';
 import { BatchTaskType } from './BatchProcessor';
+import { parseCsv } from '../src/utils/csv';
 
 const { Option } = Select;
 const { Dragger } = Upload;
@@ -102,20 +103,20 @@ const ExcelImporter: React.FC<ExcelImporterProps> = ({
       
       reader.onload = (e) => {
         try {
-          // 这里使用简化的CSV解析，实际项目中应该使用xlsx库
+          // 这里按CSV解析，实际项目中应该使用xlsx库
           const text = e.target?.result as string;
-          const lines = text.split('\n').filter(line => line.trim());
+          const lines = parseCsv(text);
           
           if (lines.length < 2) {
             reject(new Error('文件内容不足，至少需要标题行和一行数据'));
             return;
           }
           
-          const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
+          const headers = lines[0].map(h => h.trim());
           const data: ExcelDataRow[] = [];
           
           for (let i = 1; i < lines.length; i++) {
-            const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
+            const values = lines[i].map(v => v.trim());
             const row: ExcelDataRow = {};
             
             headers.forEach((header, index) => {
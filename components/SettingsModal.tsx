@@ -1,4 +1,4 @@
-import { DeleteOutlined, PlusOutlined, SaveOutlined } from "@ant-design/icons"
+import { DeleteOutlined, PlusOutlined, ReloadOutlined, SaveOutlined } from "@ant-design/icons"
 import {
   Button,
   Card,
@@ -15,8 +15,9 @@ import { useEffect, useState } from "react"
 
 import { Storage } from "@plasmohq/storage"
 
-import { AI_ENGINE_CONFIGS, AIEngineType } from "../src/config/engines"
+import { AI_ENGINE_CONFIGS, AIEngineType, EngineConfigManager } from "../src/config/engines"
 import type { AISource } from "../src/config/engines"
+import { apiService } from "../services/apiService"
 
 const { Title, Text } = Typography
 const { Option } = Select
@@ -36,6 +37,7 @@ function SettingsModal({ visible, onClose }: SettingsModalProps) {
   const [form] = Form.useForm()
   const [aiSources, setAiSources] = useState<AISource[]>([])
   const [loading, setLoading] = useState(false)
+  const [discoveringId, setDiscoveringId] = useState<string | null>(null)
 
   /**
    * 从存储中加载 AI 请求源配置
@@ -108,6 +110,43 @@ function SettingsModal({ visible, onClose }: SettingsModalProps) {
     )
   }
 
+  /**
+   * 更新模型对应的接入点ID，清空时删除映射
+   */
+  const updateModelOverride = (source: AISource, modelId: string, endpointId: string) => {
+    const modelOverrides = { ...source.modelOverrides }
+    if (endpointId.trim()) {
+      modelOverrides[modelId] = endpointId.trim()
+    } else {
+      delete modelOverrides[modelId]
+    }
+    updateAISource(source.id, "modelOverrides", modelOverrides)
+  }
+
+  /**
+   * 查询本地服务上的模型，选用的模型不在列表中时改选第一个
+   */
+  const discoverModels = async (source: AISource) => {
+    setDiscoveringId(source.id)
+    try {
+      const models = await apiService.listModels(source)
+      if (models.length === 0) {
+        message.warning("本地服务上没有可用的模型，请先下载或加载模型")
+        return
+      }
+      updateAISource(source.id, "models", models)
+      if (!source.defaultModel || !models.includes(source.defaultModel)) {
+        updateAISource(source.id, "defaultModel", models[0])
+      }
+      message.success(`已获取 ${models.length} 个模型`)
+    } catch (error) {
+      console.error("获取本地模型失败:", error)
+      message.error(`获取模型失败：${error instanceof Error ? error.message : "无法连接本地服务"}`)
+    } finally {
+      setDiscoveringId(null)
+    }
+  }
+
   /**
    * 获取不同类型API的基础URL占位符
    */
@@ -124,10 +163,10 @@ function SettingsModal({ visible, onClose }: SettingsModalProps) {
     try {
       // 验证必填字段
       const invalidSources = aiSources.filter(
-        (source) => !source.name || !source.apiKey
+        (source) => !source.name || !hasCredentials(source)
       )
       if (invalidSources.length > 0) {
-        message.error("请填写所有必填字段（名称和 API Key）")
+        message.error("请填写所有必填字段（名称和 API Key，即梦为 AccessKey ID 和 Secret Access Key，本地模型需选择模型）")
         return
       }
 
@@ -240,19 +279,122 @@ function SettingsModal({ visible, onClose }: SettingsModalProps) {
                       <Option value={AIEngineType.DOUBAO}>
                         火山引擎 (豆包)
                       </Option>
+                      <Option value={AIEngineType.JIMENG}>
+                        火山引擎 (即梦)
+                      </Option>
+                      <Option value={AIEngineType.LOCAL}>
+                        本地模型 (Ollama / LM Studio / vLLM)
+                      </Option>
+                      <Option value={AIEngineType.STABLE_DIFFUSION}>
+                        Stable Diffusion WebUI
+                      </Option>
+                      <Option value={AIEngineType.COMFYUI}>ComfyUI</Option>
                       <Option value={AIEngineType.CUSTOM}>自定义</Option>
                     </Select>
                   </Form.Item>
 
-                  <Form.Item label="API Key" required>
-                    <Input.Password
-                      placeholder="输入 API Key"
-                      value={source.apiKey}
-                      onChange={(e) =>
-                        updateAISource(source.id, "apiKey", e.target.value)
-                      }
-                    />
-                  </Form.Item>
+                  {source.type === AIEngineType.JIMENG ? (
+                    <>
+                      <Form.Item
+                        label="AccessKey ID"
+                        required
+                        extra="在火山引擎控制台的「访问控制 - 密钥管理」中创建，用于视觉服务请求签名">
+                        <Input
+                          placeholder="输入 AccessKey ID"
+                          value={source.accessKeyId}
+                          onChange={(e) =>
+                            updateAISource(source.id, "accessKeyId", e.target.value)
+                          }
+                        />
+                      </Form.Item>
+                      <Form.Item label="Secret Access Key" required>
+                        <Input.Password
+                          placeholder="输入 Secret Access Key"
+                          value={source.secretAccessKey}
+                          onChange={(e) =>
+                            updateAISource(source.id, "secretAccessKey", e.target.value)
+                          }
+                        />
+                      </Form.Item>
+                    </>
+                  ) : (
+                    <Form.Item label="API Key" required={!isLocalService(source.type)}>
+                      <Input.Password
+                        placeholder={getApiKeyPlaceholder(source.type)}
+                        value={source.apiKey}
+                        onChange={(e) =>
+                          updateAISource(source.id, "apiKey", e.target.value)
+                        }
+                      />
+                    </Form.Item>
+                  )}
+
+                  {source.type === AIEngineType.DOUBAO && (
+                    <>
+                      <Form.Item
+                        label="模型接入点"
+                        extra="方舟平台在线推理使用接入点ID（ep-xxxx）作为模型，在方舟控制台「在线推理」中创建；未填写的模型直接使用模型名称">
+                        <Space direction="vertical" style={{ width: "100%" }}>
+                          {EngineConfigManager.getEngineDetailedModels(AIEngineType.DOUBAO).map((model) => (
+                            <Input
+                              key={model.id}
+                              addonBefore={model.name}
+                              placeholder="ep-xxxx"
+                              value={source.modelOverrides?.[model.id]}
+                              onChange={(e) =>
+                                updateModelOverride(source, model.id, e.target.value)
+                              }
+                            />
+                          ))}
+                        </Space>
+                      </Form.Item>
+                    </>
+                  )}
+
+                  {isLocalService(source.type) && (
+                    <Form.Item
+                      label={source.type === AIEngineType.LOCAL ? "模型" : "Checkpoint"}
+                      required={source.type === AIEngineType.LOCAL}
+                      extra={
+                        source.type === AIEngineType.LOCAL
+                          ? "从本地服务的 /v1/models（Ollama 为 /api/tags）获取模型列表，请求使用选中的模型"
+                          : "从服务获取 checkpoint 列表，未选择时 WebUI 使用当前加载的模型，ComfyUI 使用第一个模型"
+                      }>
+                      <Space.Compact style={{ width: "100%" }}>
+                        <Select
+                          allowClear={source.type !== AIEngineType.LOCAL}
+                          placeholder="请先获取模型列表"
+                          value={source.defaultModel}
+                          onChange={(value) =>
+                            updateAISource(source.id, "defaultModel", value)
+                          }
+                          options={(source.models || []).map((model) => ({ value: model, label: model }))}
+                          style={{ width: "100%" }}
+                        />
+                        <Button
+                          icon={<ReloadOutlined />}
+                          loading={discoveringId === source.id}
+                          onClick={() => discoverModels(source)}>
+                          获取模型
+                        </Button>
+                      </Space.Compact>
+                    </Form.Item>
+                  )}
+
+                  {source.type === AIEngineType.COMFYUI && (
+                    <Form.Item
+                      label="自定义工作流"
+                      extra="可选，ComfyUI 中「Save (API Format)」导出的 JSON；可使用 {{prompt}}、{{negative_prompt}}、{{seed}}、{{steps}}、{{cfg}}、{{sampler_name}}、{{scheduler}}、{{width}}、{{height}}、{{batch_size}}、{{ckpt_name}}、{{image}}、{{denoise}} 占位符。留空时使用内置的文生图 / 图生图工作流">
+                      <Input.TextArea
+                        rows={4}
+                        placeholder='{"3": {"class_type": "KSampler", "inputs": {"seed": "{{seed}}", ...}}}'
+                        value={source.comfyWorkflow}
+                        onChange={(e) =>
+                          updateAISource(source.id, "comfyWorkflow", e.target.value)
+                        }
+                      />
+                    </Form.Item>
+                  )}
 
                   <Form.Item label="API 基础 URL">
                     <Input
@@ -288,4 +430,36 @@ function SettingsModal({ visible, onClose }: SettingsModalProps) {
   )
 }
 
+// 本地服务：API Key 可选，模型从服务查询
+function isLocalService(type: AIEngineType): boolean {
+  return [AIEngineType.LOCAL, AIEngineType.STABLE_DIFFUSION, AIEngineType.COMFYUI].includes(type)
+}
+
+function getApiKeyPlaceholder(type: AIEngineType): string {
+  switch (type) {
+    case AIEngineType.LOCAL:
+    case AIEngineType.COMFYUI:
+      return "可选，本地服务未开启鉴权时留空"
+    case AIEngineType.STABLE_DIFFUSION:
+      return "可选，WebUI 开启 --api-auth 时填写 用户名:密码"
+    default:
+      return "输入 API Key"
+  }
+}
+
+// 即梦使用 AccessKey/SecretKey 签名，本地模型不需要 API Key 但需选择模型，Stable Diffusion 和 ComfyUI 无必填项，其余引擎使用 API Key
+function hasCredentials(source: AISource): boolean {
+  switch (source.type) {
+    case AIEngineType.JIMENG:
+      return !!source.accessKeyId && !!source.secretAccessKey
+    case AIEngineType.LOCAL:
+      return !!source.defaultModel
+    case AIEngineType.STABLE_DIFFUSION:
+    case AIEngineType.COMFYUI:
+      return true
+    default:
+      return !!source.apiKey
+  }
+}
+
 export default SettingsModal
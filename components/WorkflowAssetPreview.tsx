@@ -0,0 +1,31 @@
+import React from 'react';
+import { Button, Image, Space, Tag, Typography } from 'antd';
+import { DownloadOutlined } from '@ant-design/icons';
+import type { WorkflowAsset } from '../src/config/workflows';
+
+const { Paragraph } = Typography;
+
+// 是否为图片/视频步骤输出的资源
+export function isWorkflowAsset(value: unknown): value is WorkflowAsset {
+  return !!value && typeof value === 'object' && 'url' in value && 'type' in value;
+}
+
+// 图片/视频资源预览
+export const AssetPreview: React.FC<{ asset: WorkflowAsset }> = ({ asset }) => (
+  <Space direction="vertical" style={{ width: '100%' }}>
+    {asset.type === 'image' ? (
+      <Image src={asset.url} style={{ maxWidth: '100%' }} />
+    ) : (
+      <video src={asset.url} poster={asset.thumbnailUrl} controls style={{ maxWidth: '100%' }} />
+    )}
+    <Space>
+      <Button size="small" icon={<DownloadOutlined />} href={asset.url} target="_blank">
+        下载
+      </Button>
+      {asset.model && <Tag>{asset.model}</Tag>}
+    </Space>
+    <Paragraph type="secondary" ellipsis={{ rows: 2, expandable: true }}>
+      {asset.prompt}
+    </Paragraph>
+  </Space>
+);
@@ -0,0 +1,229 @@
+import React, { useState, useRef } from 'react';
+import {
+  Select,
+  Button,
+  Space,
+  Table,
+  Tag,
+  Alert,
+  InputNumber,
+  Progress,
+  Typography,
+  Modal,
+  message
+} from 'antd';
+import {
+  UploadOutlined,
+  DownloadOutlined,
+  PlayCircleOutlined,
+  StopOutlined,
+  ExportOutlined
+} from '@ant-design/icons';
+import type { WorkflowBatchItem, WorkflowConfig, WorkflowExecution } from '../src/config/workflows';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  buildWorkflowBatchSheet,
+  createWorkflowBatchTemplate,
+  parseWorkflowBatchSheet,
+  workflowBatchRunner
+} from '../src/services/workflowBatch';
+import { workflowExecutor } from '../src/services/workflowExecutor';
+import { toCsv } from '../src/utils/csv';
+import { useUI } from '../src/hooks';
+
+const { Text } = Typography;
+
+interface WorkflowBatchProps {
+  workflows: WorkflowConfig[];
+  onOpen: (execution: WorkflowExecution) => void; // 查看某一行的执行
+  onChange: () => void; // 有新的执行记录时刷新历史
+}
+
+/**
+ * 批量运行 - 导入表格，每行参数运行一次工作流，完成后导出汇总结果
+ */
+export const WorkflowBatch: React.FC<WorkflowBatchProps> = ({ workflows, onOpen, onChange }) => {
+  const { platform } = useUI();
+  const [workflowId, setWorkflowId] = useState<string>();
+  const [items, setItems] = useState<WorkflowBatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const workflow = workflows.find(w => w.id === workflowId);
+
+  const downloadTemplate = async () => {
+    await platform.native.filesystem.saveFile(toCsv(createWorkflowBatchTemplate()), '批量运行模板.csv');
+  };
+
+  const importSheet = async () => {
+    const file = await platform.native.filesystem.openFile('.csv');
+    if (!file) return;
+
+    try {
+      const { items: imported, errors, ignoredColumns } = parseWorkflowBatchSheet(await file.text());
+      setItems(imported);
+      if (errors.length > 0 || ignoredColumns.length > 0) {
+        Modal.warning({
+          title: `已导入 ${imported.length} 行`,
+          content: (
+            <div>
+              {ignoredColumns.length > 0 && <p>未识别的列已忽略：{ignoredColumns.join('、')}</p>}
+              {errors.map(error => <div key={error}>{error}</div>)}
+            </div>
+          )
+        });
+      } else {
+        message.success(`已导入 ${imported.length} 行`);
+      }
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '导入失败');
+    }
+  };
+
+  const startBatch = async () => {
+    if (!workflowId) {
+      message.error('请选择工作流');
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    try {
+      await workflowBatchRunner.run(workflowId, items, {
+        concurrency,
+        signal: controller.signal,
+        onProgress: updated => {
+          setItems([...updated]);
+          onChange();
+        }
+      });
+      message.success('批量运行结束');
+    } finally {
+      controllerRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const stopBatch = () => {
+    controllerRef.current?.abort();
+  };
+
+  // 重新运行失败的行
+  const resetFailed = () => {
+    setItems(items.map(item =>
+      item.status === 'failed' ? { row: item.row, params: item.params, status: 'pending' } : item
+    ));
+  };
+
+  const exportResults = async () => {
+    if (!workflow) return;
+    const name = `${workflow.name}_批量结果_${new Date().toISOString().slice(0, 10)}.csv`;
+    await platform.native.filesystem.saveFile(toCsv(buildWorkflowBatchSheet(workflow, items)), name);
+  };
+
+  const done = items.filter(item => item.status === 'completed' || item.status === 'failed').length;
+  const failed = items.filter(item => item.status === 'failed').length;
+
+  return (
+    <div>
+      <Space wrap style={{ marginBottom: 16 }}>
+        <Select
+          placeholder="选择工作流"
+          style={{ width: 220 }}
+          value={workflowId}
+          onChange={setWorkflowId}
+          disabled={running}
+          options={workflows.map(w => ({ value: w.id, label: w.name }))}
+        />
+        <Button icon={<DownloadOutlined />} onClick={downloadTemplate}>
+          下载模板
+        </Button>
+        <Button icon={<UploadOutlined />} onClick={importSheet} disabled={running}>
+          导入表格
+        </Button>
+        <Space>
+          <Text>并发数</Text>
+          <InputNumber min={1} max={10} value={concurrency} onChange={value => setConcurrency(value || 1)} disabled={running} />
+        </Space>
+        {running ? (
+          <Button danger icon={<StopOutlined />} onClick={stopBatch}>
+            停止
+          </Button>
+        ) : (
+          <Button
+            type="primary"
+            icon={<PlayCircleOutlined />}
+            onClick={startBatch}
+            disabled={!workflowId || !items.some(item => item.status === 'pending')}
+          >
+            开始运行
+          </Button>
+        )}
+        {!running && failed > 0 && <Button onClick={resetFailed}>重试失败的行</Button>}
+        <Button icon={<ExportOutlined />} onClick={exportResults} disabled={!workflow || done === 0}>
+          导出结果
+        </Button>
+      </Space>
+
+      {items.length === 0 ? (
+        <Alert
+          type="info"
+          showIcon
+          message="导入 CSV 表格（Excel 可另存为 CSV），每行运行一次工作流"
+          description="表头支持：主题（必填）、风格、受众、时长。导出的结果表每个步骤的输出键一列。"
+        />
+      ) : (
+        <>
+          <Progress percent={Math.round((done / items.length) * 100)} format={() => `${done}/${items.length}`} />
+          <Table
+            size="small"
+            rowKey="row"
+            dataSource={items}
+            pagination={{ pageSize: 20, hideOnSinglePage: true }}
+            columns={[
+              { title: '行号', dataIndex: 'row', width: 60 },
+              { title: '主题', render: (_, item: WorkflowBatchItem) => item.params.topic, ellipsis: true },
+              { title: '风格', render: (_, item: WorkflowBatchItem) => item.params.style || '-' },
+              { title: '受众', render: (_, item: WorkflowBatchItem) => item.params.audience || '-' },
+              {
+                title: '状态',
+                render: (_, item: WorkflowBatchItem) => (
+                  <Space direction="vertical" size={0}>
+                    <Tag color={getStatusTagColor(item.status)}>{item.status}</Tag>
+                    {item.error && <Text type="danger">{item.error}</Text>}
+                  </Space>
+                )
+              },
+              {
+                title: '操作',
+                render: (_, item: WorkflowBatchItem) => {
+                  const execution = item.executionId
+                    ? workflowExecutor.getExecution(item.executionId) || item.execution
+                    : undefined;
+                  return execution ? (
+                    <Button size="small" onClick={() => onOpen(execution)}>
+                      查看
+                    </Button>
+                  ) : null;
+                }
+              }
+            ]}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+// 获取状态标签颜色
+function getStatusTagColor(status: WorkflowBatchItem['status']): string {
+  switch (status) {
+    case 'completed': return 'success';
+    case 'running': return 'processing';
+    case 'failed': return 'error';
+    case 'awaiting_input': return 'warning';
+    default: return 'default';
+  }
+}
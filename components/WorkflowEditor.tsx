@@ -0,0 +1,902 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  Form,
+  Input,
+  Select,
+  Button,
+  Alert,
+  Space,
+  Modal,
+  Typography,
+  Switch,
+  InputNumber,
+  message
+} from 'antd';
+import {
+  PlusOutlined,
+  DeleteOutlined,
+  ArrowUpOutlined,
+  ArrowDownOutlined,
+  FileTextOutlined,
+  EyeOutlined
+} from '@ant-design/icons';
+import {
+  CONDITION_OPERATOR_OPTIONS,
+  MEDIA_PROMPT_TYPES,
+  PROMPT_OUTPUT_SCHEMAS,
+  PROMPT_TEMPLATES,
+  PROMPT_TYPE_OPTIONS,
+  WORKFLOW_PARAM_KEYS
+} from '../src/config/workflows';
+import type {
+  StepCondition,
+  WorkflowConfig,
+  WorkflowMapConfig,
+  WorkflowStep,
+  WorkflowStepParams
+} from '../src/config/workflows';
+import { AI_ENGINE_CONFIGS, ENGINE_TYPE_OPTIONS } from '../src/config/engines';
+import type { AIEngineType, AISource } from '../src/config/engines';
+import { validateWorkflowConfig, workflowStore } from '../src/services/workflowStore';
+import { renderTemplate, TEMPLATE_FILTER_NAMES } from '../src/services/promptTemplate';
+import { createStepSample } from '../src/services/workflowEstimate';
+import { apiService } from '../services/apiService';
+
+const { TextArea } = Input;
+const { Text, Paragraph } = Typography;
+
+// 模板预览使用的示例运行参数
+const SAMPLE_PARAMS: WorkflowStepParams = {
+  topic: '春季户外露营装备推荐',
+  style: '轻松',
+  audience: '年轻人',
+  duration: 30
+};
+
+interface WorkflowEditorProps {
+  open: boolean;
+  workflow: WorkflowConfig | null;
+  onClose: () => void;
+  onSaved: (workflow: WorkflowConfig) => void;
+}
+
+/**
+ * 工作流编辑器 - 可视化编辑步骤、模板、依赖和每步的引擎/模型
+ */
+export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({
+  open,
+  workflow,
+  onClose,
+  onSaved
+}) => {
+  const [form] = Form.useForm();
+  const [errors, setErrors] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [sources, setSources] = useState<AISource[]>([]);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const [sampleParams, setSampleParams] = useState<WorkflowStepParams>(SAMPLE_PARAMS);
+  const steps: WorkflowStep[] = Form.useWatch('steps', form) || [];
+  const defaultEngine: string = Form.useWatch('engine', form);
+  const strictTemplate: boolean = Form.useWatch('strictTemplate', form);
+
+  useEffect(() => {
+    if (open && workflow) {
+      form.setFieldsValue(workflow);
+      setErrors([]);
+      apiService.getAllAISources().then(setSources);
+    }
+  }, [open, workflow, form]);
+
+  // 整理步骤表单值，去掉未填写或不适用的字段
+  const buildStep = (step: WorkflowStep): WorkflowStep => ({
+    ...step,
+    template: step.promptType === 'map' || step.promptType === 'review' ? undefined : step.template,
+    dependencies: step.dependencies?.length ? step.dependencies : undefined,
+    engine: step.engine || undefined,
+    sourceId: step.sourceId || undefined,
+    model: step.model || undefined,
+    inputKey: step.promptType === 'image-to-video' ? step.inputKey : undefined,
+    outputSchema: step.outputSchema || undefined,
+    condition: step.condition?.path?.trim() ? step.condition : undefined,
+    map: step.promptType === 'map' && step.map
+      ? { ...step.map, steps: (step.map.steps || []).map(buildStep) }
+      : undefined,
+    review: step.promptType === 'review' ? step.review : undefined,
+    ...buildFailurePolicy(step)
+  });
+
+  // 根据表单值组装工作流配置
+  const buildWorkflow = (values: any): WorkflowConfig => ({
+    ...workflow!,
+    ...values,
+    steps: (values.steps || []).map(buildStep)
+  });
+
+  // 校验并保存
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    const config = buildWorkflow(values);
+
+    const invalidSchema = config.steps
+      .flatMap(step => [step, ...(step.map?.steps || [])])
+      .find(step => typeof step.outputSchema === 'string');
+    if (invalidSchema) {
+      setErrors([`${invalidSchema.name || invalidSchema.id}: 输出结构不是有效的 JSON`]);
+      return;
+    }
+
+    const result = validateWorkflowConfig(config);
+    setErrors(result.errors);
+    if (!result.valid) return;
+
+    setSaving(true);
+    try {
+      const saved = await workflowStore.save(config);
+      message.success('工作流已保存');
+      onSaved(saved);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 获取引擎中适用于该步骤类型的模型选项
+  const getModelOptions = (engine?: string, promptType?: WorkflowStep['promptType']) => {
+    const config = engine ? AI_ENGINE_CONFIGS[engine as AIEngineType] : undefined;
+    const modelTypes =
+      promptType === 'image' ? ['image'] :
+      promptType === 'image-to-video' ? ['video'] :
+      ['text', 'multimodal'];
+    return (config?.models || [])
+      .filter(model => modelTypes.includes(model.type))
+      .map(model => ({ value: model.id, label: model.name }));
+  };
+
+  // 获取引擎下已配置的AI源选项
+  const getSourceOptions = (engine?: string) =>
+    sources
+      .filter(source => source.type === engine)
+      .map(source => ({ value: source.id, label: source.isDefault ? `${source.name}（默认）` : source.name }));
+
+  // 预览数据：示例参数加上游步骤的占位输出
+  const getPreviewData = (index: number) => {
+    const data: Record<string, any> = { ...sampleParams };
+    steps.forEach((s, i) => {
+      if (i === index || !s?.outputKey) return;
+      data[s.outputKey] = createStepSample(s);
+    });
+    return data;
+  };
+
+  // 当前步骤可引用的模板变量
+  const getAvailableVariables = (index: number) => {
+    const step = steps[index];
+    const upstream = steps.filter(s => s?.id && step?.dependencies?.includes(s.id));
+    return [...WORKFLOW_PARAM_KEYS, ...upstream.map(s => s.outputKey).filter(Boolean)];
+  };
+
+  return (
+    <Modal
+      title={workflow?.name ? `编辑工作流 - ${workflow.name}` : '新建工作流'}
+      open={open}
+      onCancel={onClose}
+      onOk={handleSave}
+      confirmLoading={saving}
+      okText="保存"
+      width={900}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item
+          label="工作流名称"
+          name="name"
+          rules={[{ required: true, message: '请输入工作流名称' }]}
+        >
+          <Input placeholder="例如：小红书图文工作流" />
+        </Form.Item>
+
+        <Form.Item label="描述" name="description">
+          <Input placeholder="工作流用途说明" />
+        </Form.Item>
+
+        <Space style={{ width: '100%' }} size="large">
+          <Form.Item
+            label="默认AI引擎"
+            name="engine"
+            rules={[{ required: true, message: '请选择AI引擎' }]}
+          >
+            <Select
+              style={{ width: 200 }}
+              options={ENGINE_TYPE_OPTIONS}
+              onChange={() => form.setFieldValue('sourceId', undefined)}
+            />
+          </Form.Item>
+          <Form.Item label="AI源" name="sourceId">
+            <Select
+              allowClear
+              style={{ width: 200 }}
+              placeholder="使用引擎默认AI源"
+              options={getSourceOptions(defaultEngine)}
+            />
+          </Form.Item>
+          <Form.Item label="默认模型" name="model">
+            <Select
+              allowClear
+              style={{ width: 240 }}
+              placeholder="使用引擎默认模型"
+              options={getModelOptions(defaultEngine)}
+            />
+          </Form.Item>
+          <Form.Item
+            label="模板严格模式"
+            name="strictTemplate"
+            valuePropName="checked"
+            tooltip="开启后，模板引用未定义的变量时步骤直接失败"
+          >
+            <Switch />
+          </Form.Item>
+        </Space>
+
+        <Form.List name="steps">
+          {(fields, { add, remove, move }) => (
+            <Space direction="vertical" style={{ width: '100%' }}>
+              {fields.map((field, index) => {
+                const step = steps[index] || ({} as WorkflowStep);
+                const otherSteps = steps.filter((s, i) => i !== index && s?.id);
+                return (
+                  <Card
+                    key={field.key}
+                    size="small"
+                    title={`步骤 ${index + 1}${step.name ? ` - ${step.name}` : ''}`}
+                    extra={
+                      <Space>
+                        <Button
+                          size="small"
+                          icon={<ArrowUpOutlined />}
+                          disabled={index === 0}
+                          onClick={() => move(index, index - 1)}
+                        />
+                        <Button
+                          size="small"
+                          icon={<ArrowDownOutlined />}
+                          disabled={index === fields.length - 1}
+                          onClick={() => move(index, index + 1)}
+                        />
+                        <Button
+                          size="small"
+                          danger
+                          icon={<DeleteOutlined />}
+                          onClick={() => remove(index)}
+                        />
+                      </Space>
+                    }
+                  >
+                    <Space style={{ width: '100%' }} wrap>
+                      <Form.Item
+                        label="步骤ID"
+                        name={[field.name, 'id']}
+                        rules={[{ required: true, message: '请输入步骤ID' }]}
+                      >
+                        <Input placeholder="generate-content" />
+                      </Form.Item>
+                      <Form.Item
+                        label="步骤名称"
+                        name={[field.name, 'name']}
+                        rules={[{ required: true, message: '请输入步骤名称' }]}
+                      >
+                        <Input placeholder="生成内容" />
+                      </Form.Item>
+                      <Form.Item
+                        label="输出键"
+                        name={[field.name, 'outputKey']}
+                        rules={[{ required: true, message: '请输入输出键' }]}
+                      >
+                        <Input placeholder="content" />
+                      </Form.Item>
+                      <Form.Item label="提示词类型" name={[field.name, 'promptType']}>
+                        <Select
+                          style={{ width: 120 }}
+                          options={PROMPT_TYPE_OPTIONS}
+                          onChange={value => {
+                            if (value === 'map' && !step.map) {
+                              form.setFieldValue(['steps', field.name, 'map'], { itemsPath: '', itemName: 'item', steps: [] });
+                            }
+                          }}
+                        />
+                      </Form.Item>
+                    </Space>
+
+                    <Form.Item label="描述" name={[field.name, 'description']}>
+                      <Input />
+                    </Form.Item>
+
+                    <Form.Item label="依赖步骤" name={[field.name, 'dependencies']}>
+                      <Select
+                        mode="multiple"
+                        allowClear
+                        placeholder="无依赖"
+                        options={otherSteps.map(s => ({ value: s.id, label: s.name || s.id }))}
+                      />
+                    </Form.Item>
+
+                    <ConditionFields name={[field.name, 'condition']} condition={step.condition} />
+
+                    <Form.Item
+                      label="关键步骤"
+                      name={[field.name, 'critical']}
+                      valuePropName="checked"
+                      tooltip="关键步骤首次失败即令整个工作流失败，不重试也不使用备用引擎"
+                    >
+                      <Switch />
+                    </Form.Item>
+
+                    <Form.Item
+                      label="失败后继续"
+                      name={[field.name, 'continueOnError']}
+                      valuePropName="checked"
+                      tooltip="重试和备用引擎都失败后跳过依赖它的步骤，其余步骤继续执行；未开启时工作流失败"
+                    >
+                      <Switch disabled={step.critical} />
+                    </Form.Item>
+
+                    {step.promptType === 'map' ? (
+                      <MapStepFields
+                        name={field.name}
+                        map={step.map}
+                        variables={getAvailableVariables(index)}
+                        upstreamImages={otherSteps.filter(s => s.promptType === 'image' && s.outputKey)}
+                        defaultEngine={defaultEngine}
+                        getModelOptions={getModelOptions}
+                        getSourceOptions={getSourceOptions}
+                      />
+                    ) : step.promptType === 'review' ? (
+                      <>
+                        <Form.Item
+                          label="审核内容"
+                          name={[field.name, 'review', 'keys']}
+                          rules={[{ required: true, message: '请选择需要审核的输出' }]}
+                          extra={<Text type="secondary">执行到该步骤时暂停，审核人可修改、通过或驳回所选输出，驳回时附带修改意见重新生成</Text>}
+                        >
+                          <Select
+                            mode="multiple"
+                            placeholder="选择上游步骤的输出"
+                            options={otherSteps
+                              .filter(s => s.outputKey && s.promptType !== 'map' && s.promptType !== 'review')
+                              .map(s => ({ value: s.outputKey, label: s.name || s.outputKey }))}
+                          />
+                        </Form.Item>
+                        <Form.Item label="审核说明" name={[field.name, 'review', 'instructions']}>
+                          <TextArea rows={2} placeholder="展示给审核人的说明" />
+                        </Form.Item>
+                      </>
+                    ) : (
+                      <>
+                        <Space style={{ width: '100%' }} wrap>
+                          <Form.Item label="AI引擎" name={[field.name, 'engine']}>
+                            <Select
+                              allowClear
+                              style={{ width: 200 }}
+                              placeholder="使用工作流默认引擎"
+                              options={ENGINE_TYPE_OPTIONS}
+                              onChange={() => form.setFieldValue(['steps', field.name, 'sourceId'], undefined)}
+                            />
+                          </Form.Item>
+                          <Form.Item label="AI源" name={[field.name, 'sourceId']}>
+                            <Select
+                              allowClear
+                              style={{ width: 200 }}
+                              placeholder="使用引擎默认AI源"
+                              options={getSourceOptions(step.engine || defaultEngine)}
+                            />
+                          </Form.Item>
+                          <Form.Item label="模型" name={[field.name, 'model']}>
+                            <Select
+                              allowClear
+                              style={{ width: 240 }}
+                              placeholder="使用默认模型"
+                              options={getModelOptions(step.engine || defaultEngine, step.promptType)}
+                            />
+                          </Form.Item>
+                          {step.promptType === 'image-to-video' && (
+                            <Form.Item label="首帧图片来源" name={[field.name, 'inputKey']}>
+                              <Select
+                                style={{ width: 200 }}
+                                placeholder="选择图片步骤"
+                                options={otherSteps
+                                  .filter(s => s.promptType === 'image' && s.outputKey)
+                                  .map(s => ({ value: s.outputKey, label: s.name || s.outputKey }))}
+                              />
+                            </Form.Item>
+                          )}
+                        </Space>
+                        <FailurePolicyFields
+                          name={[field.name]}
+                          path={['steps', field.name]}
+                          step={step}
+                          getModelOptions={getModelOptions}
+                          getSourceOptions={getSourceOptions}
+                        />
+                        {MEDIA_PROMPT_TYPES.includes(step.promptType) && (
+                          <Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+                            该步骤会调用图片/视频生成接口，模板渲染结果作为生成提示词
+                          </Text>
+                        )}
+
+                        <Form.Item
+                          label={
+                            <Space>
+                              提示词模板
+                              <Button
+                                size="small"
+                                type="link"
+                                icon={<FileTextOutlined />}
+                                disabled={!step.promptType}
+                                onClick={() => {
+                                  form.setFieldValue(['steps', field.name, 'template'], PROMPT_TEMPLATES[step.promptType]);
+                                  form.setFieldValue(['steps', field.name, 'outputSchema'], PROMPT_OUTPUT_SCHEMAS[step.promptType]);
+                                }}
+                              >
+                                使用预设模板
+                              </Button>
+                              <Button
+                                size="small"
+                                type="link"
+                                icon={<EyeOutlined />}
+                                onClick={() => setPreviewIndex(previewIndex === index ? null : index)}
+                              >
+                                {previewIndex === index ? '关闭预览' : '预览'}
+                              </Button>
+                            </Space>
+                          }
+                          name={[field.name, 'template']}
+                          extra={
+                            <Text type="secondary">
+                              可用变量：{getAvailableVariables(index).map(v => `{${v}}`).join(' ')}
+                              <br />
+                              支持 {'{a.b[0]}'}、{'{a | default: "x"}'}、过滤器 {TEMPLATE_FILTER_NAMES.join('/')}、
+                              {'{#if a}...{:else}...{/if}'}、{'{#each list as item}...{/each}'}
+                            </Text>
+                          }
+                        >
+                          <TextArea rows={5} />
+                        </Form.Item>
+                        {!MEDIA_PROMPT_TYPES.includes(step.promptType) && (
+                          <Form.Item
+                            label="输出结构（JSON Schema，可选）"
+                            name={[field.name, 'outputSchema']}
+                            getValueProps={value => ({
+                              value: value === undefined || typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+                            })}
+                            normalize={text => {
+                              if (!text?.trim()) return undefined;
+                              try {
+                                return JSON.parse(text);
+                              } catch {
+                                return text;
+                              }
+                            }}
+                            extra={
+                              <Text type="secondary">
+                                声明后会要求模型输出 JSON 并校验，后续步骤可引用字段，如 {`{${step.outputKey || 'title'}.options[0]}`}
+                              </Text>
+                            }
+                          >
+                            <TextArea rows={4} placeholder='{"type": "object", "properties": {"options": {"type": "array", "items": {"type": "string"}}}}' />
+                          </Form.Item>
+                        )}
+                        {previewIndex === index && (
+                          <TemplatePreview
+                            template={step.template || ''}
+                            data={getPreviewData(index)}
+                            strict={!!strictTemplate}
+                            params={sampleParams}
+                            onParamsChange={setSampleParams}
+                          />
+                        )}
+                      </>
+                    )}
+                  </Card>
+                );
+              })}
+
+              <Button
+                type="dashed"
+                block
+                icon={<PlusOutlined />}
+                onClick={() =>
+                  add({
+                    id: `step-${fields.length + 1}`,
+                    name: '',
+                    description: '',
+                    promptType: 'content',
+                    template: '',
+                    outputKey: ''
+                  })
+                }
+              >
+                添加步骤
+              </Button>
+            </Space>
+          )}
+        </Form.List>
+      </Form>
+
+      {errors.length > 0 && (
+        <Alert
+          type="error"
+          showIcon
+          message="工作流配置无效"
+          description={
+            <ul style={{ margin: 0, paddingLeft: 20 }}>
+              {errors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          }
+          style={{ marginTop: 16 }}
+        />
+      )}
+    </Modal>
+  );
+};
+
+interface ConditionFieldsProps {
+  name: Array<string | number>;
+  condition?: StepCondition;
+}
+
+/**
+ * 执行条件 - 变量路径留空表示总是执行
+ */
+const ConditionFields: React.FC<ConditionFieldsProps> = ({ name, condition }) => {
+  const operator = CONDITION_OPERATOR_OPTIONS.find(option => option.value === condition?.operator);
+  return (
+    <Space style={{ width: '100%' }} wrap>
+      <Form.Item label="执行条件" name={[...name, 'path']} tooltip="条件不满足时跳过该步骤，留空表示总是执行">
+        <Input style={{ width: 200 }} placeholder="变量路径，如 title.options" />
+      </Form.Item>
+      {condition?.path?.trim() && (
+        <Form.Item label="判断" name={[...name, 'operator']} initialValue="exists">
+          <Select style={{ width: 140 }} options={CONDITION_OPERATOR_OPTIONS} />
+        </Form.Item>
+      )}
+      {condition?.path?.trim() && operator?.needsValue && (
+        <Form.Item label="比较值" name={[...name, 'value']}>
+          <Input style={{ width: 160 }} />
+        </Form.Item>
+      )}
+    </Space>
+  );
+};
+
+interface FailurePolicyFieldsProps {
+  name: Array<string | number>; // 相对所在列表的字段路径
+  path: Array<string | number>; // 表单中的完整路径，用于切换备用引擎时清空AI源
+  step: WorkflowStep;
+  getModelOptions: (engine?: string, promptType?: WorkflowStep['promptType']) => Array<{ value: string; label: string }>;
+  getSourceOptions: (engine?: string) => Array<{ value: string; label: string }>;
+}
+
+/**
+ * 失败处理 - 重试次数、重试间隔、单次超时和备用引擎
+ */
+const FailurePolicyFields: React.FC<FailurePolicyFieldsProps> = ({
+  name,
+  path,
+  step,
+  getModelOptions,
+  getSourceOptions
+}) => {
+  const form = Form.useFormInstance();
+  const fallbackEngine = step.fallback?.engine || step.engine;
+
+  return (
+    <Space style={{ width: '100%' }} wrap>
+      <Form.Item label="重试次数" name={[...name, 'retry', 'maxRetries']} tooltip="失败后重试的次数，主引擎和备用引擎分别计算">
+        <InputNumber min={0} max={10} placeholder="0" />
+      </Form.Item>
+      {!!step.retry?.maxRetries && (
+        <>
+          <Form.Item label="重试间隔" name={[...name, 'retry', 'backoff']} initialValue="exponential">
+            <Select
+              style={{ width: 120 }}
+              options={[
+                { value: 'exponential', label: '逐次翻倍' },
+                { value: 'fixed', label: '固定' }
+              ]}
+            />
+          </Form.Item>
+          <Form.Item label="首次间隔（毫秒）" name={[...name, 'retry', 'delayMs']}>
+            <InputNumber min={0} step={500} placeholder="1000" />
+          </Form.Item>
+        </>
+      )}
+      <Form.Item
+        label="超时（秒）"
+        name={[...name, 'timeoutMs']}
+        tooltip="单次调用超过该时间视为失败，留空表示不限制"
+        getValueProps={value => ({ value: value ? value / 1000 : undefined })}
+        normalize={value => (value ? value * 1000 : undefined)}
+      >
+        <InputNumber min={1} placeholder="不限制" />
+      </Form.Item>
+      <Form.Item label="备用引擎" name={[...name, 'fallback', 'engine']} tooltip="主引擎重试仍失败时改用备用引擎">
+        <Select
+          allowClear
+          style={{ width: 200 }}
+          placeholder="与主引擎相同"
+          options={ENGINE_TYPE_OPTIONS}
+          onChange={() => form.setFieldValue([...path, 'fallback', 'sourceId'], undefined)}
+        />
+      </Form.Item>
+      <Form.Item label="备用AI源" name={[...name, 'fallback', 'sourceId']}>
+        <Select
+          allowClear
+          style={{ width: 200 }}
+          placeholder="使用引擎默认AI源"
+          options={getSourceOptions(fallbackEngine)}
+        />
+      </Form.Item>
+      <Form.Item label="备用模型" name={[...name, 'fallback', 'model']}>
+        <Select
+          allowClear
+          style={{ width: 240 }}
+          placeholder="使用默认模型"
+          options={getModelOptions(fallbackEngine, step.promptType)}
+        />
+      </Form.Item>
+    </Space>
+  );
+};
+
+interface MapStepFieldsProps {
+  name: number;
+  map?: WorkflowMapConfig;
+  variables: string[];
+  upstreamImages: WorkflowStep[];
+  defaultEngine: string;
+  getModelOptions: (engine?: string, promptType?: WorkflowStep['promptType']) => Array<{ value: string; label: string }>;
+  getSourceOptions: (engine?: string) => Array<{ value: string; label: string }>;
+}
+
+/**
+ * 循环步骤 - 列表来源、并发数和每一项依次执行的子步骤
+ */
+const MapStepFields: React.FC<MapStepFieldsProps> = ({
+  name,
+  map,
+  variables,
+  upstreamImages,
+  defaultEngine,
+  getModelOptions,
+  getSourceOptions
+}) => {
+  const form = Form.useFormInstance();
+  const subSteps = map?.steps || [];
+  const itemName = map?.itemName || 'item';
+
+  return (
+    <>
+      <Space style={{ width: '100%' }} wrap>
+        <Form.Item
+          label="列表来源"
+          name={[name, 'map', 'itemsPath']}
+          rules={[{ required: true, message: '请输入列表来源' }]}
+        >
+          <Input style={{ width: 240 }} placeholder="videoScenes.scenes" />
+        </Form.Item>
+        <Form.Item
+          label="循环变量名"
+          name={[name, 'map', 'itemName']}
+          rules={[{ required: true, message: '请输入循环变量名' }]}
+        >
+          <Input style={{ width: 140 }} placeholder="item" />
+        </Form.Item>
+        <Form.Item label="并发数" name={[name, 'map', 'concurrency']}>
+          <InputNumber min={1} max={10} placeholder="1" />
+        </Form.Item>
+      </Space>
+      <Text type="secondary" style={{ display: 'block', marginBottom: 8 }}>
+        列表中的每一项依次执行下面的子步骤，输出为每一项子步骤结果组成的列表。
+        子步骤模板可引用 {`{${itemName}}`}、{'{@index}'} 和前面子步骤的输出
+      </Text>
+
+      <Form.List name={[name, 'map', 'steps']}>
+        {(fields, { add, remove }) => (
+          <Space direction="vertical" style={{ width: '100%', marginBottom: 8 }}>
+            {fields.map((field, index) => {
+              const subStep = subSteps[index] || ({} as WorkflowStep);
+              const previous = subSteps.slice(0, index).filter(s => s?.outputKey);
+              const engine = subStep.engine || defaultEngine;
+              return (
+                <Card
+                  key={field.key}
+                  size="small"
+                  type="inner"
+                  title={`子步骤 ${index + 1}${subStep.name ? ` - ${subStep.name}` : ''}`}
+                  extra={<Button size="small" danger icon={<DeleteOutlined />} onClick={() => remove(index)} />}
+                >
+                  <Space style={{ width: '100%' }} wrap>
+                    <Form.Item label="步骤ID" name={[field.name, 'id']} rules={[{ required: true, message: '请输入步骤ID' }]}>
+                      <Input placeholder="render-scene" />
+                    </Form.Item>
+                    <Form.Item label="步骤名称" name={[field.name, 'name']}>
+                      <Input />
+                    </Form.Item>
+                    <Form.Item label="输出键" name={[field.name, 'outputKey']} rules={[{ required: true, message: '请输入输出键' }]}>
+                      <Input placeholder="sceneImage" />
+                    </Form.Item>
+                    <Form.Item label="提示词类型" name={[field.name, 'promptType']}>
+                      <Select
+                        style={{ width: 120 }}
+                        options={PROMPT_TYPE_OPTIONS.filter(option => option.value !== 'map' && option.value !== 'review')}
+                      />
+                    </Form.Item>
+                  </Space>
+                  <Space style={{ width: '100%' }} wrap>
+                    <Form.Item label="AI引擎" name={[field.name, 'engine']}>
+                      <Select
+                        allowClear
+                        style={{ width: 200 }}
+                        placeholder="使用工作流默认引擎"
+                        options={ENGINE_TYPE_OPTIONS}
+                        onChange={() => form.setFieldValue(['steps', name, 'map', 'steps', field.name, 'sourceId'], undefined)}
+                      />
+                    </Form.Item>
+                    <Form.Item label="AI源" name={[field.name, 'sourceId']}>
+                      <Select
+                        allowClear
+                        style={{ width: 200 }}
+                        placeholder="使用引擎默认AI源"
+                        options={getSourceOptions(engine)}
+                      />
+                    </Form.Item>
+                    <Form.Item label="模型" name={[field.name, 'model']}>
+                      <Select
+                        allowClear
+                        style={{ width: 240 }}
+                        placeholder="使用默认模型"
+                        options={getModelOptions(engine, subStep.promptType)}
+                      />
+                    </Form.Item>
+                    {subStep.promptType === 'image-to-video' && (
+                      <Form.Item label="首帧图片来源" name={[field.name, 'inputKey']}>
+                        <Select
+                          style={{ width: 200 }}
+                          placeholder="选择图片步骤"
+                          options={[...previous, ...upstreamImages]
+                            .filter(s => s.promptType === 'image')
+                            .map(s => ({ value: s.outputKey, label: s.name || s.outputKey }))}
+                        />
+                      </Form.Item>
+                    )}
+                  </Space>
+                  <FailurePolicyFields
+                    name={[field.name]}
+                    path={['steps', name, 'map', 'steps', field.name]}
+                    step={subStep}
+                    getModelOptions={getModelOptions}
+                    getSourceOptions={getSourceOptions}
+                  />
+                  <Form.Item
+                    label="提示词模板"
+                    name={[field.name, 'template']}
+                    extra={
+                      <Text type="secondary">
+                        可用变量：{[...variables, itemName, ...previous.map(s => s.outputKey)].map(v => `{${v}}`).join(' ')}
+                      </Text>
+                    }
+                  >
+                    <TextArea rows={3} />
+                  </Form.Item>
+                </Card>
+              );
+            })}
+            <Button
+              type="dashed"
+              block
+              icon={<PlusOutlined />}
+              onClick={() =>
+                add({
+                  id: `sub-step-${fields.length + 1}`,
+                  name: '',
+                  description: '',
+                  promptType: 'content',
+                  template: '',
+                  outputKey: ''
+                })
+              }
+            >
+              添加子步骤
+            </Button>
+          </Space>
+        )}
+      </Form.List>
+    </>
+  );
+};
+
+// 整理失败处理字段：未设置重试次数、超时或备用引擎时去掉对应字段，循环和审核步骤不适用
+function buildFailurePolicy(
+  step: WorkflowStep
+): Pick<WorkflowStep, 'retry' | 'timeoutMs' | 'fallback' | 'critical' | 'continueOnError'> {
+  const callsEngine = step.promptType !== 'map' && step.promptType !== 'review';
+  const fallback = step.fallback && {
+    engine: step.fallback.engine || undefined,
+    sourceId: step.fallback.sourceId || undefined,
+    model: step.fallback.model || undefined
+  };
+  return {
+    retry: callsEngine && step.retry?.maxRetries ? step.retry : undefined,
+    timeoutMs: callsEngine && step.timeoutMs ? step.timeoutMs : undefined,
+    fallback: callsEngine && fallback && (fallback.engine || fallback.sourceId || fallback.model) ? fallback : undefined,
+    critical: step.critical || undefined,
+    continueOnError: (!step.critical && step.continueOnError) || undefined
+  };
+}
+
+interface TemplatePreviewProps {
+  template: string;
+  data: Record<string, any>;
+  strict: boolean;
+  params: WorkflowStepParams;
+  onParamsChange: (params: WorkflowStepParams) => void;
+}
+
+/**
+ * 模板预览 - 使用示例参数和上游占位输出渲染模板
+ */
+const TemplatePreview: React.FC<TemplatePreviewProps> = ({
+  template,
+  data,
+  strict,
+  params,
+  onParamsChange
+}) => {
+  let rendered = '';
+  let error = '';
+  try {
+    rendered = renderTemplate(template, data, { strict });
+  } catch (e) {
+    error = e instanceof Error ? e.message : '模板渲染失败';
+  }
+
+  return (
+    <Card size="small" type="inner" title="模板预览" style={{ marginBottom: 16 }}>
+      <Space wrap style={{ marginBottom: 8 }}>
+        <Input
+          addonBefore="主题"
+          value={params.topic}
+          onChange={e => onParamsChange({ ...params, topic: e.target.value })}
+        />
+        <Input
+          addonBefore="风格"
+          style={{ width: 160 }}
+          value={params.style}
+          onChange={e => onParamsChange({ ...params, style: e.target.value })}
+        />
+        <Input
+          addonBefore="受众"
+          style={{ width: 180 }}
+          value={params.audience}
+          onChange={e => onParamsChange({ ...params, audience: e.target.value })}
+        />
+        <InputNumber
+          addonBefore="时长"
+          style={{ width: 140 }}
+          value={params.duration}
+          onChange={value => onParamsChange({ ...params, duration: value ?? undefined })}
+        />
+      </Space>
+      {error ? (
+        <Alert type="error" showIcon message={error} />
+      ) : (
+        <Paragraph style={{ whiteSpace: 'pre-wrap', marginBottom: 0 }}>
+          {rendered || <Text type="secondary">（空）</Text>}
+        </Paragraph>
+      )}
+    </Card>
+  );
+};
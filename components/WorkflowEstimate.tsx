@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  Button,
+  Table,
+  Descriptions,
+  Alert,
+  Space,
+  Typography,
+  message
+} from 'antd';
+import type { WorkflowConfig, WorkflowDryRunEstimate, WorkflowStepEstimate, WorkflowStepParams } from '../src/config/workflows';
+import { workflowExecutor } from '../src/services/workflowExecutor';
+import { DEFAULT_MAP_ITEM_COUNT, addCost, formatCost, formatDuration } from '../src/services/workflowEstimate';
+
+const { TextArea } = Input;
+const { Text, Paragraph } = Typography;
+
+interface WorkflowEstimateModalProps {
+  workflow: WorkflowConfig | null;
+  params: WorkflowStepParams; // 当前表单中的运行参数
+  onClose: () => void;
+}
+
+/**
+ * 费用预估 - 试运行工作流，估算批量运行的 token、图片、视频用量和费用
+ */
+export const WorkflowEstimateModal: React.FC<WorkflowEstimateModalProps> = ({ workflow, params, onClose }) => {
+  const [form] = Form.useForm();
+  const [estimate, setEstimate] = useState<WorkflowDryRunEstimate | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const runEstimate = async () => {
+    if (!workflow) return;
+    const values = form.getFieldsValue();
+    const topics = (values.topics || '').split('\n').map((topic: string) => topic.trim()).filter(Boolean);
+
+    setLoading(true);
+    try {
+      const runs = topics.length > 0 ? topics.map((topic: string) => ({ ...params, topic })) : [params];
+      setEstimate(await workflowExecutor.dryRun(workflow.id, runs, { mapItemCount: values.mapItemCount }));
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '预估失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (workflow) {
+      form.setFieldsValue({ topics: params.topic || '', mapItemCount: DEFAULT_MAP_ITEM_COUNT });
+      setEstimate(null);
+      runEstimate();
+    }
+  }, [workflow]);
+
+  const hasMap = workflow?.steps.some(step => step.promptType === 'map');
+
+  return (
+    <Modal
+      title={workflow ? `费用预估 - ${workflow.name}` : '费用预估'}
+      open={!!workflow}
+      onCancel={onClose}
+      footer={<Button onClick={onClose}>关闭</Button>}
+      width={900}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical">
+        <Form.Item label="主题列表（每行一个，按依次运行估算）" name="topics">
+          <TextArea rows={3} />
+        </Form.Item>
+        <Space align="end">
+          {hasMap && (
+            <Form.Item label="循环步骤的项数" name="mapItemCount" tooltip="列表来自上游输出时无法预知项数，按此估算">
+              <InputNumber min={1} max={100} />
+            </Form.Item>
+          )}
+          <Form.Item>
+            <Button type="primary" loading={loading} onClick={runEstimate}>
+              重新估算
+            </Button>
+          </Form.Item>
+        </Space>
+      </Form>
+
+      {estimate && (
+        <>
+          <Descriptions bordered size="small" column={3} style={{ marginBottom: 16 }}>
+            <Descriptions.Item label="运行次数">{estimate.runs.length}</Descriptions.Item>
+            <Descriptions.Item label="预估费用">{formatCost(estimate.cost)}</Descriptions.Item>
+            <Descriptions.Item label="预估耗时">{formatDuration(estimate.durationSeconds)}</Descriptions.Item>
+            <Descriptions.Item label="输入 tokens">{estimate.inputTokens.toLocaleString()}</Descriptions.Item>
+            <Descriptions.Item label="输出 tokens">{estimate.outputTokens.toLocaleString()}</Descriptions.Item>
+            <Descriptions.Item label="图片 / 视频">{estimate.images} / {estimate.videos}</Descriptions.Item>
+          </Descriptions>
+
+          {estimate.warnings.length > 0 && (
+            <Alert
+              type="warning"
+              showIcon
+              style={{ marginBottom: 16 }}
+              message="预估说明"
+              description={estimate.warnings.map(warning => <div key={warning}>{warning}</div>)}
+            />
+          )}
+
+          <Table
+            size="small"
+            rowKey="stepId"
+            pagination={false}
+            dataSource={sumSteps(estimate)}
+            columns={[
+              { title: '步骤', dataIndex: 'name' },
+              { title: '模型', dataIndex: 'model', render: (model?: string) => model || '-' },
+              { title: '调用次数', dataIndex: 'calls' },
+              {
+                title: 'tokens（输入/输出）',
+                render: (_, step: WorkflowStepEstimate) =>
+                  step.inputTokens || step.outputTokens ? `${step.inputTokens} / ${step.outputTokens}` : '-'
+              },
+              { title: '费用', dataIndex: 'cost', render: (cost: Record<string, number>) => formatCost(cost) },
+              { title: '耗时', dataIndex: 'durationSeconds', render: (seconds: number) => formatDuration(seconds) }
+            ]}
+            expandable={{
+              rowExpandable: step => !!step.prompt,
+              expandedRowRender: step => (
+                <Paragraph style={{ whiteSpace: 'pre-wrap', marginBottom: 0 }}>
+                  <Text type="secondary">示例提示词：</Text>
+                  {'\n'}
+                  {step.prompt}
+                </Paragraph>
+              )
+            }}
+          />
+          <Text type="secondary">
+            价格和速度为参考值，以平台实际计费为准；上游输出按典型长度估算。
+          </Text>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+// 按步骤汇总所有运行的用量，提示词取第一次运行
+function sumSteps(estimate: WorkflowDryRunEstimate): WorkflowStepEstimate[] {
+  const steps = new Map<string, WorkflowStepEstimate>();
+  estimate.runs.forEach(run => {
+    run.steps.forEach(step => {
+      const total = steps.get(step.stepId);
+      if (!total) {
+        steps.set(step.stepId, { ...step, cost: { ...step.cost } });
+        return;
+      }
+      total.calls += step.calls;
+      total.inputTokens += step.inputTokens;
+      total.outputTokens += step.outputTokens;
+      total.images += step.images;
+      total.videos += step.videos;
+      total.durationSeconds += step.durationSeconds;
+      addCost(total.cost, step.cost);
+    });
+  });
+  return Array.from(steps.values());
+}
@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Card,
+  Button,
+  Progress,
+  Alert,
+  Space,
+  Tag,
+  Checkbox,
+  Modal,
+  Popconfirm,
+  Typography,
+  message
+} from 'antd';
+import {
+  EyeOutlined,
+  ReloadOutlined,
+  PlayCircleOutlined,
+  DeleteOutlined,
+  DiffOutlined,
+  EditOutlined
+} from '@ant-design/icons';
+import type { WorkflowExecution } from '../src/config/workflows';
+import { workflowExecutor } from '../src/services/workflowExecutor';
+
+const { Text, Paragraph } = Typography;
+
+interface WorkflowHistoryProps {
+  workflows: Array<{ id: string; name: string }>;
+  refreshKey?: number;
+  onOpen: (execution: WorkflowExecution) => void;
+  onRerun: (execution: WorkflowExecution) => void;
+  onResume?: (execution: WorkflowExecution) => void;
+}
+
+/**
+ * 工作流执行历史 - 查看、重新运行、恢复和对比历史执行
+ */
+export const WorkflowHistory: React.FC<WorkflowHistoryProps> = ({
+  workflows,
+  refreshKey,
+  onOpen,
+  onRerun,
+  onResume
+}) => {
+  const [executions, setExecutions] = useState<WorkflowExecution[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showDiff, setShowDiff] = useState(false);
+
+  // 加载执行历史
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    try {
+      setExecutions(await workflowExecutor.loadHistory());
+    } catch (error) {
+      console.error('加载执行历史失败:', error);
+      message.error('加载执行历史失败');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, refreshKey]);
+
+  // 恢复中断或暂停的执行
+  const resumeExecution = async (execution: WorkflowExecution) => {
+    const resumed = await workflowExecutor.resume(execution.id);
+    if (!resumed) {
+      message.error('无法恢复该执行');
+      return;
+    }
+    message.success('已恢复执行');
+    onResume?.(execution);
+    loadHistory();
+  };
+
+  // 删除执行记录
+  const removeExecution = async (execution: WorkflowExecution) => {
+    const removed = await workflowExecutor.removeExecution(execution.id);
+    if (!removed) {
+      message.warning('运行中的执行无法删除');
+      return;
+    }
+    setSelectedIds(prev => prev.filter(id => id !== execution.id));
+    loadHistory();
+  };
+
+  // 选择用于对比的执行（最多两个）
+  const toggleSelected = (executionId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      if (!checked) return prev.filter(id => id !== executionId);
+      return [...prev, executionId].slice(-2);
+    });
+  };
+
+  const getWorkflowName = (workflowId: string) =>
+    workflows.find(w => w.id === workflowId)?.name || workflowId;
+
+  const selected = selectedIds
+    .map(id => executions.find(e => e.id === id))
+    .filter((e): e is WorkflowExecution => !!e);
+
+  if (executions.length === 0) {
+    return (
+      <Alert
+        message={loading ? '正在加载执行记录...' : '暂无执行记录'}
+        type="info"
+        showIcon
+      />
+    );
+  }
+
+  return (
+    <>
+      <Space style={{ marginBottom: 12 }}>
+        <Button icon={<ReloadOutlined />} onClick={loadHistory} loading={loading}>
+          刷新
+        </Button>
+        <Button
+          icon={<DiffOutlined />}
+          disabled={selected.length !== 2}
+          onClick={() => setShowDiff(true)}
+        >
+          对比所选
+        </Button>
+        <Text type="secondary">勾选两条记录进行对比</Text>
+      </Space>
+
+      <Space direction="vertical" style={{ width: '100%' }}>
+        {executions.map(execution => (
+          <Card key={execution.id} size="small">
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Space align="start">
+                <Checkbox
+                  checked={selectedIds.includes(execution.id)}
+                  onChange={e => toggleSelected(execution.id, e.target.checked)}
+                />
+                <div>
+                  <Text strong>{getWorkflowName(execution.workflowId)}</Text>
+                  {execution.params?.topic && (
+                    <Text type="secondary"> · {execution.params.topic}</Text>
+                  )}
+                  <br />
+                  <Text type="secondary">
+                    {execution.startTime?.toLocaleString()}
+                  </Text>
+                </div>
+              </Space>
+              <div>
+                <Tag color={getStatusTagColor(execution.status)}>
+                  {execution.status}
+                </Tag>
+                {execution.interrupted && <Tag color="orange">已中断</Tag>}
+                <Progress
+                  percent={execution.progress}
+                  size="small"
+                  style={{ width: 100, marginLeft: 8 }}
+                />
+              </div>
+            </div>
+
+            {execution.error && (
+              <Text type="danger" style={{ display: 'block', marginTop: 8 }}>
+                {execution.error}
+              </Text>
+            )}
+
+            <Space style={{ marginTop: 8 }}>
+              <Button size="small" icon={<EyeOutlined />} onClick={() => onOpen(execution)}>
+                查看
+              </Button>
+              <Button size="small" icon={<ReloadOutlined />} onClick={() => onRerun(execution)}>
+                重新运行
+              </Button>
+              {execution.status === 'paused' && (
+                <Button
+                  size="small"
+                  type="primary"
+                  icon={<PlayCircleOutlined />}
+                  onClick={() => resumeExecution(execution)}
+                >
+                  恢复
+                </Button>
+              )}
+              {execution.status === 'awaiting_input' && (
+                <Button size="small" type="primary" icon={<EditOutlined />} onClick={() => onOpen(execution)}>
+                  去审核
+                </Button>
+              )}
+              <Popconfirm title="确定删除该执行记录？" onConfirm={() => removeExecution(execution)}>
+                <Button size="small" danger icon={<DeleteOutlined />} disabled={execution.status === 'running'} />
+              </Popconfirm>
+            </Space>
+          </Card>
+        ))}
+      </Space>
+
+      {/* 执行结果对比 */}
+      <Modal
+        title="执行结果对比"
+        open={showDiff}
+        onCancel={() => setShowDiff(false)}
+        footer={null}
+        width={900}
+      >
+        {selected.length === 2 && (
+          <ExecutionDiff left={selected[0]} right={selected[1]} getWorkflowName={getWorkflowName} />
+        )}
+      </Modal>
+    </>
+  );
+};
+
+interface ExecutionDiffProps {
+  left: WorkflowExecution;
+  right: WorkflowExecution;
+  getWorkflowName: (workflowId: string) => string;
+}
+
+/**
+ * 并排对比两次执行的参数和结果
+ */
+const ExecutionDiff: React.FC<ExecutionDiffProps> = ({ left, right, getWorkflowName }) => {
+  const rows = [
+    { key: '运行参数', left: left.params, right: right.params },
+    ...Array.from(new Set([...Object.keys(left.results), ...Object.keys(right.results)])).map(key => ({
+      key,
+      left: left.results[key],
+      right: right.results[key]
+    }))
+  ];
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      <div style={{ display: 'flex', gap: 16 }}>
+        {[left, right].map(execution => (
+          <Text key={execution.id} strong style={{ flex: 1 }}>
+            {getWorkflowName(execution.workflowId)} · {execution.startTime?.toLocaleString()}
+          </Text>
+        ))}
+      </div>
+      {rows.map(row => {
+        const leftText = formatValue(row.left);
+        const rightText = formatValue(row.right);
+        return (
+          <Card
+            key={row.key}
+            size="small"
+            title={row.key}
+            extra={leftText === rightText ? <Tag>相同</Tag> : <Tag color="orange">不同</Tag>}
+          >
+            <div style={{ display: 'flex', gap: 16 }}>
+              <Paragraph style={{ flex: 1, whiteSpace: 'pre-wrap', marginBottom: 0 }}>{leftText || '-'}</Paragraph>
+              <Paragraph style={{ flex: 1, whiteSpace: 'pre-wrap', marginBottom: 0 }}>{rightText || '-'}</Paragraph>
+            </div>
+          </Card>
+        );
+      })}
+    </Space>
+  );
+};
+
+// 格式化结果值用于展示
+function formatValue(value: any): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+// 获取状态标签颜色
+function getStatusTagColor(status: WorkflowExecution['status']): string {
+  switch (status) {
+    case 'completed': return 'success';
+    case 'running': return 'processing';
+    case 'failed': return 'error';
+    case 'paused':
+    case 'awaiting_input': return 'warning';
+    default: return 'default';
+  }
+}
@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  Alert,
+  Select,
+  Space,
+  Typography,
+  Descriptions,
+  message
+} from 'antd';
+import type { WorkflowConfig } from '../src/config/workflows';
+import { AI_ENGINE_CONFIGS, ENGINE_TYPE_OPTIONS } from '../src/config/engines';
+import type { AIEngineType, AISource } from '../src/config/engines';
+import {
+  applyResourceMapping,
+  findUnmappedResources
+} from '../src/services/workflowSerializer';
+import type {
+  WorkflowResourceIssues,
+  WorkflowResourceMapping
+} from '../src/services/workflowSerializer';
+import { workflowStore } from '../src/services/workflowStore';
+import { apiService } from '../services/apiService';
+
+const { Text } = Typography;
+
+interface WorkflowImportModalProps {
+  workflow: WorkflowConfig | null;
+  onClose: () => void;
+  onImported: (workflow: WorkflowConfig) => void;
+}
+
+/**
+ * 工作流导入确认 - 将本地未配置的引擎和模型映射到已配置的AI源
+ */
+export const WorkflowImportModal: React.FC<WorkflowImportModalProps> = ({
+  workflow,
+  onClose,
+  onImported
+}) => {
+  const [sources, setSources] = useState<AISource[]>([]);
+  const [issues, setIssues] = useState<WorkflowResourceIssues>({ engines: [], models: [] });
+  const [mapping, setMapping] = useState<WorkflowResourceMapping>({ engines: {}, models: {} });
+  const [exists, setExists] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!workflow) return;
+
+    const analyze = async () => {
+      const configured = await apiService.getAllAISources();
+      setSources(configured);
+      setIssues(findUnmappedResources(workflow, configured));
+      setMapping({ engines: {}, models: {} });
+      setExists(!!(await workflowStore.list()).find(w => w.id === workflow.id));
+    };
+    analyze();
+  }, [workflow]);
+
+  const configuredEngines = Array.from(new Set(sources.map(source => source.type)));
+
+  // 映射后的引擎（用于确定模型选项）
+  const resolveEngine = (engine: string) => mapping.engines[engine] || engine;
+
+  const getModelOptions = (engine: string) =>
+    (AI_ENGINE_CONFIGS[resolveEngine(engine) as AIEngineType]?.models || [])
+      .map(model => ({ value: model.id, label: model.name }));
+
+  const getEngineLabel = (engine: string) =>
+    ENGINE_TYPE_OPTIONS.find(option => option.value === engine)?.label || engine;
+
+  const unresolved =
+    issues.engines.filter(engine => !mapping.engines[engine]).length +
+    issues.models.filter(item => !mapping.models[`${item.engine}:${item.model}`]).length;
+
+  // 应用映射并保存
+  const handleImport = async () => {
+    if (!workflow) return;
+    setSaving(true);
+    try {
+      const saved = await workflowStore.save(applyResourceMapping(workflow, mapping));
+      message.success(`已导入工作流「${saved.name}」`);
+      onImported(saved);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '导入失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="导入工作流"
+      open={!!workflow}
+      onCancel={onClose}
+      onOk={handleImport}
+      confirmLoading={saving}
+      okText={exists ? '覆盖导入' : '导入'}
+      width={700}
+    >
+      {workflow && (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Descriptions size="small" column={1} bordered>
+            <Descriptions.Item label="名称">{workflow.name}</Descriptions.Item>
+            <Descriptions.Item label="描述">{workflow.description || '-'}</Descriptions.Item>
+            <Descriptions.Item label="步骤数">{workflow.steps.length}</Descriptions.Item>
+            <Descriptions.Item label="默认引擎">{getEngineLabel(workflow.engine)}</Descriptions.Item>
+          </Descriptions>
+
+          {exists && (
+            <Alert type="warning" showIcon message="本地已存在相同ID的工作流，导入后将覆盖" />
+          )}
+
+          {issues.engines.length === 0 && issues.models.length === 0 ? (
+            <Alert type="success" showIcon message="工作流使用的引擎和模型均已在本地配置" />
+          ) : (
+            <>
+              <Alert
+                type="warning"
+                showIcon
+                message="以下引擎或模型在本地未配置"
+                description="请映射到已配置的引擎和模型；未映射的项会原样保留，运行前需要在设置中补充对应的AI源。"
+              />
+
+              {issues.engines.map(engine => (
+                <Space key={engine} style={{ width: '100%', justifyContent: 'space-between' }}>
+                  <Text>引擎 <Text code>{getEngineLabel(engine)}</Text> 映射到</Text>
+                  <Select
+                    allowClear
+                    style={{ width: 260 }}
+                    placeholder={configuredEngines.length ? '保持不变' : '尚未配置任何AI源'}
+                    value={mapping.engines[engine]}
+                    options={configuredEngines.map(type => ({ value: type, label: getEngineLabel(type) }))}
+                    onChange={value =>
+                      setMapping(prev => ({ ...prev, engines: { ...prev.engines, [engine]: value } }))
+                    }
+                  />
+                </Space>
+              ))}
+
+              {issues.models.map(({ engine, model }) => {
+                const key = `${engine}:${model}`;
+                return (
+                  <Space key={key} style={{ width: '100%', justifyContent: 'space-between' }}>
+                    <Text>
+                      模型 <Text code>{model}</Text>（{getEngineLabel(engine)}）映射到
+                    </Text>
+                    <Select
+                      allowClear
+                      style={{ width: 260 }}
+                      placeholder="保持不变"
+                      value={mapping.models[key]}
+                      options={getModelOptions(engine)}
+                      onChange={value =>
+                        setMapping(prev => ({ ...prev, models: { ...prev.models, [key]: value } }))
+                      }
+                    />
+                  </Space>
+                );
+              })}
+
+              {unresolved > 0 && (
+                <Text type="secondary">还有 {unresolved} 项未映射</Text>
+              )}
+            </>
+          )}
+        </Space>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  Input,
+  Button,
+  Space,
+  Typography,
+  message
+} from 'antd';
+import { CheckOutlined, RedoOutlined } from '@ant-design/icons';
+import type { WorkflowExecution } from '../src/config/workflows';
+import { workflowExecutor } from '../src/services/workflowExecutor';
+import { AssetPreview, isWorkflowAsset } from './WorkflowAssetPreview';
+
+const { TextArea } = Input;
+const { Text, Paragraph } = Typography;
+
+interface WorkflowReviewPanelProps {
+  execution: WorkflowExecution;
+  getLabel: (key: string) => string;
+}
+
+/**
+ * 人工审核 - 修改待审核的输出后通过，或填写修改意见驳回并重新生成
+ */
+export const WorkflowReviewPanel: React.FC<WorkflowReviewPanelProps> = ({
+  execution,
+  getLabel
+}) => {
+  const review = execution.pendingReview;
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [feedback, setFeedback] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // 每次进入审核时用当前输出初始化编辑内容
+  useEffect(() => {
+    if (!review) return;
+    setDrafts(Object.fromEntries(
+      review.keys
+        .filter(key => !isWorkflowAsset(execution.results[key]))
+        .map(key => [key, formatDraft(execution.results[key])])
+    ));
+    setFeedback('');
+  }, [execution.id, review]);
+
+  if (!review) return null;
+
+  const submit = async (approved: boolean) => {
+    let values: Record<string, any> = {};
+    if (approved) {
+      try {
+        values = Object.fromEntries(
+          Object.entries(drafts).map(([key, draft]) => [key, parseDraft(execution.results[key], draft, getLabel(key))])
+        );
+      } catch (error) {
+        message.error(error instanceof Error ? error.message : '内容格式错误');
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    try {
+      const accepted = await workflowExecutor.submitReview(
+        execution.id,
+        approved ? { approved: true, values } : { approved: false, feedback }
+      );
+      if (!accepted) {
+        message.error('当前执行不在等待审核状态');
+      }
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '提交审核失败');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card size="small" title="等待审核" style={{ marginBottom: 24 }}>
+      {review.instructions && (
+        <Paragraph type="secondary">{review.instructions}</Paragraph>
+      )}
+      <Space direction="vertical" style={{ width: '100%' }}>
+        {review.keys.map(key => {
+          const value = execution.results[key];
+          return (
+            <div key={key}>
+              <Text strong>{getLabel(key)}</Text>
+              {isWorkflowAsset(value) ? (
+                <AssetPreview asset={value} />
+              ) : (
+                <TextArea
+                  autoSize={{ minRows: 3, maxRows: 12 }}
+                  value={drafts[key]}
+                  onChange={e => setDrafts({ ...drafts, [key]: e.target.value })}
+                  style={{ marginTop: 4 }}
+                />
+              )}
+            </div>
+          );
+        })}
+        <TextArea
+          rows={2}
+          placeholder="驳回时填写修改意见，将附加到提示词后重新生成"
+          value={feedback}
+          onChange={e => setFeedback(e.target.value)}
+        />
+        <Space>
+          <Button type="primary" icon={<CheckOutlined />} loading={submitting} onClick={() => submit(true)}>
+            通过
+          </Button>
+          <Button icon={<RedoOutlined />} disabled={!feedback.trim()} loading={submitting} onClick={() => submit(false)}>
+            驳回并重新生成
+          </Button>
+        </Space>
+      </Space>
+    </Card>
+  );
+};
+
+// 文本输出直接编辑，结构化输出以 JSON 编辑
+function formatDraft(value: any): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+function parseDraft(original: any, draft: string, label: string): any {
+  if (typeof original === 'string' || original === undefined || original === null) return draft;
+  try {
+    return JSON.parse(draft);
+  } catch {
+    throw new Error(`${label} 不是有效的 JSON`);
+  }
+}
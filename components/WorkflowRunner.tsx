@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Card,
   Form,
@@ -14,7 +14,8 @@ import {
   message,
   Modal,
   Spin,
-  Typography
+  Typography,
+  Dropdown
 } from 'antd';
 import {
   PlayCircleOutlined,
@@ -25,106 +26,250 @@ import {
   CopyOutlined,
   DownloadOutlined,
   EyeOutlined,
-  RobotOutlined
+  RobotOutlined,
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  ImportOutlined,
+  ExportOutlined,
+  CalculatorOutlined
 } from '@ant-design/icons';
+import type {
+  WorkflowConfig,
+  WorkflowExecution,
+  WorkflowStepAttempt,
+  WorkflowStepParams,
+  WorkflowStepStatus
+} from '../src/config/workflows';
+import { workflowExecutor } from '../src/services/workflowExecutor';
+import { workflowStore } from '../src/services/workflowStore';
+import { workflowScheduler } from '../src/services/workflowScheduler';
+import { extractTemplateVariables, toText } from '../src/services/promptTemplate';
+import { exportWorkflow, parseWorkflowDocument } from '../src/services/workflowSerializer';
+import type { WorkflowDocumentFormat } from '../src/services/workflowSerializer';
+import { useUI } from '../src/hooks';
+import { WorkflowHistory } from './WorkflowHistory';
+import { WorkflowEditor } from './WorkflowEditor';
+import { WorkflowImportModal } from './WorkflowImportModal';
+import { WorkflowReviewPanel } from './WorkflowReviewPanel';
+import { WorkflowSchedules } from './WorkflowSchedules';
+import { WorkflowEstimateModal } from './WorkflowEstimate';
+import { WorkflowBatch } from './WorkflowBatch';
+import { AssetPreview, isWorkflowAsset } from './WorkflowAssetPreview';
 
 const { TextArea } = Input;
 const { Step } = Steps;
 const { Text, Paragraph } = Typography;
 const { TabPane } = Tabs;
 
-// 模拟工作流配置
-const DEFAULT_WORKFLOWS = [
-  {
-    id: 'content-creation',
-    name: '内容创作工作流',
-    description: '从主题到完整内容的自动化创作流程',
-    engine: 'doubao',
-    steps: [
-      { id: 'generate-content', name: '生成内容', description: '根据主题提示词生成文章内容' },
-      { id: 'generate-title', name: '生成标题', description: '根据内容生成吸引人的标题' },
-      { id: 'generate-description', name: '生成描述', description: '生成内容描述和话题标签' }
-    ]
-  },
-  {
-    id: 'video-production',
-    name: '视频制作工作流',
-    description: '内容到视频的完整制作流程',
-    engine: 'jimeng',
-    steps: [
-      { id: 'generate-content', name: '生成内容', description: '根据主题提示词生成视频脚本' },
-      { id: 'generate-video-scenes', name: '生成画面', description: '将内容转换为一键成片的画面描述' },
-      { id: 'generate-title', name: '生成标题', description: '生成视频标题' },
-      { id: 'generate-description', name: '生成描述', description: '生成视频描述和话题标签' },
-      { id: 'generate-cover', name: '生成封面', description: '生成视频封面图提示词' }
-    ]
-  }
-];
-
 interface WorkflowRunnerProps {
   className?: string;
 }
 
 export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) => {
   const [form] = Form.useForm();
+  const { platform } = useUI();
   const [selectedWorkflow, setSelectedWorkflow] = useState<string>('');
-  const [currentExecution, setCurrentExecution] = useState<any>(null);
-  const [executions, setExecutions] = useState<any[]>([]);
+  const [currentExecution, setCurrentExecution] = useState<WorkflowExecution | null>(null);
+  const [streams, setStreams] = useState<Record<string, string>>({});
+  const executionIdRef = useRef<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [activeTab, setActiveTab] = useState('1');
+  const [historyKey, setHistoryKey] = useState(0);
+  const [workflows, setWorkflows] = useState<WorkflowConfig[]>([]);
+  const [editingWorkflow, setEditingWorkflow] = useState<WorkflowConfig | null>(null);
+  const [importingWorkflow, setImportingWorkflow] = useState<WorkflowConfig | null>(null);
+  const [estimatingWorkflow, setEstimatingWorkflow] = useState<WorkflowConfig | null>(null);
+
+  // 加载预设和自定义工作流
+  const loadWorkflows = async () => {
+    try {
+      setWorkflows(await workflowStore.listAll());
+    } catch (error) {
+      console.error('加载工作流失败:', error);
+      message.error('加载自定义工作流失败');
+    }
+  };
+
+  useEffect(() => {
+    loadWorkflows();
+    // 网页环境没有后台 service worker，由页面定时器触发定时任务
+    if (!workflowScheduler.usesAlarms) {
+      workflowScheduler.start().catch(error => console.error('定时任务启动失败:', error));
+    }
+  }, []);
+
+  // 订阅执行器事件，只更新当前跟踪的执行
+  useEffect(() => {
+    const isCurrent = (execution: WorkflowExecution) => execution.id === executionIdRef.current;
+
+    const unsubscribe = workflowExecutor.subscribe({
+      onProgress: execution => {
+        if (isCurrent(execution)) setCurrentExecution({ ...execution });
+      },
+      onStepOutput: (execution, stepId, text) => {
+        if (isCurrent(execution)) setStreams(prev => ({ ...prev, [stepId]: text }));
+      },
+      onComplete: execution => {
+        if (!isCurrent(execution)) return;
+        setCurrentExecution({ ...execution });
+        setHistoryKey(key => key + 1);
+        message.success('工作流执行完成！');
+      },
+      onError: (execution, error) => {
+        if (!isCurrent(execution)) return;
+        setCurrentExecution({ ...execution });
+        setHistoryKey(key => key + 1);
+        if (error.message === '用户取消') {
+          message.info('已取消执行');
+        } else {
+          message.error(`工作流执行失败: ${error.message}`);
+        }
+      }
+    });
+
+    // 切换页面后重新打开时，继续显示仍在运行的执行
+    const running = workflowExecutor.getExecutions().find(e => e.status === 'running');
+    if (running) {
+      executionIdRef.current = running.id;
+      setSelectedWorkflow(running.workflowId);
+      setCurrentExecution({ ...running });
+    }
+
+    return unsubscribe;
+  }, []);
+
+  // 选择工作流
+  const selectWorkflow = (workflowId: string) => {
+    setSelectedWorkflow(workflowId);
+    form.setFieldsValue({ workflow: workflowId });
+  };
+
+  // 保存编辑后的工作流
+  const handleWorkflowSaved = async (saved: WorkflowConfig) => {
+    setEditingWorkflow(null);
+    await loadWorkflows();
+    selectWorkflow(saved.id);
+  };
+
+  // 导出工作流文档
+  const handleExport = async (target: WorkflowConfig, format: WorkflowDocumentFormat) => {
+    try {
+      const content = exportWorkflow(target, format);
+      await platform.native.filesystem.saveFile(content, `${target.id}.workflow.${format === 'yaml' ? 'yaml' : 'json'}`);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '导出失败');
+    }
+  };
+
+  // 选择文件并解析工作流文档
+  const handleImport = async () => {
+    const file = await platform.native.filesystem.openFile('.json,.yaml,.yml');
+    if (!file) return;
+
+    try {
+      setImportingWorkflow(parseWorkflowDocument(await file.text()));
+    } catch (error) {
+      Modal.error({
+        title: '导入失败',
+        content: error instanceof Error ? error.message : '无法解析工作流文档'
+      });
+    }
+  };
+
+  // 导入完成
+  const handleWorkflowImported = async (imported: WorkflowConfig) => {
+    setImportingWorkflow(null);
+    await loadWorkflows();
+    selectWorkflow(imported.id);
+  };
+
+  // 删除自定义工作流
+  const deleteWorkflow = (target: WorkflowConfig) => {
+    Modal.confirm({
+      title: `确定删除工作流「${target.name}」？`,
+      onOk: async () => {
+        await workflowStore.remove(target.id);
+        selectWorkflow('');
+        await loadWorkflows();
+      }
+    });
+  };
+
+  // 跟踪某个执行的实时进度
+  const trackExecution = (execution: WorkflowExecution) => {
+    executionIdRef.current = execution.id;
+    setSelectedWorkflow(execution.workflowId);
+    setCurrentExecution({ ...execution });
+    setStreams({});
+    setActiveTab('2');
+  };
 
   // 启动工作流
   const startWorkflow = async (values: any) => {
-    if (!selectedWorkflow) {
+    const workflowId = values.workflow || selectedWorkflow;
+    if (!workflowId) {
       message.error('请选择工作流');
       return;
     }
 
     setLoading(true);
-    
-    // 模拟执行
-    const execution = {
-      id: `wf_${Date.now()}`,
-      workflowId: selectedWorkflow,
-      status: 'running',
-      currentStep: 0,
-      startTime: new Date(),
-      results: {},
-      progress: 0
-    };
+    try {
+      const execution = await workflowExecutor.execute(workflowId, getRunParams(values));
+      trackExecution(execution);
+      setHistoryKey(key => key + 1);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '启动工作流失败');
+    } finally {
+      setLoading(false);
+    }
+  };
 
-    setCurrentExecution(execution);
-    setExecutions(prev => [...prev, execution]);
-
-    // 模拟执行过程
-    const workflow = DEFAULT_WORKFLOWS.find(w => w.id === selectedWorkflow);
-    if (workflow) {
-      for (let i = 0; i < workflow.steps.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 2000)); // 模拟延迟
-        
-        execution.currentStep = i;
-        execution.progress = Math.round(((i + 1) / workflow.steps.length) * 100);
-        
-        // 模拟生成结果
-        if (i === 0) {
-          execution.results.content = `这是根据"${values.topic}"生成的内容示例...`;
-        } else if (i === 1) {
-          execution.results.title = `关于${values.topic}的精彩标题`;
-        } else if (i === 2) {
-          execution.results.description = `这是一个关于${values.topic}的精彩描述，包含相关话题标签。`;
-        }
-        
-        setCurrentExecution({ ...execution });
+  // 暂停、恢复、取消当前执行
+  const pauseExecution = () => {
+    if (currentExecution && !workflowExecutor.pause(currentExecution.id)) {
+      message.warning('当前执行无法暂停');
+    }
+  };
+
+  const resumeExecution = async () => {
+    if (currentExecution && !(await workflowExecutor.resume(currentExecution.id))) {
+      message.error('无法恢复该执行');
+    }
+  };
+
+  const cancelExecution = () => {
+    if (!currentExecution) return;
+    Modal.confirm({
+      title: '确定取消当前执行？',
+      content: '正在进行的AI请求会被中止，已完成步骤的结果会保留在历史记录中。',
+      onOk: () => {
+        workflowExecutor.cancel(currentExecution.id);
+        const execution = workflowExecutor.getExecution(currentExecution.id);
+        if (execution) setCurrentExecution({ ...execution });
       }
-      
-      execution.status = 'completed';
-      execution.endTime = new Date();
-      setCurrentExecution({ ...execution });
-      setExecutions(prev => prev.map(e => e.id === execution.id ? execution : e));
-      
-      message.success('工作流执行完成！');
-      setLoading(false);
+    });
+  };
+
+  // 从历史记录重新打开执行结果，未结束的执行显示实时进度
+  const openExecution = (execution: WorkflowExecution) => {
+    const active = workflowExecutor.getExecution(execution.id);
+    if (active && ['running', 'paused', 'awaiting_input'].includes(active.status)) {
+      trackExecution(active);
+      return;
     }
+    setSelectedWorkflow(execution.workflowId);
+    setCurrentExecution(execution);
+    setShowResults(true);
+  };
+
+  // 使用历史执行的参数重新运行
+  const rerunExecution = (execution: WorkflowExecution) => {
+    const values = { ...execution.params, workflow: execution.workflowId };
+    setSelectedWorkflow(execution.workflowId);
+    form.setFieldsValue(values);
+    startWorkflow(values);
   };
 
   // 复制结果
@@ -136,38 +281,59 @@ export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) =>
   // 获取工作流步骤
   const getWorkflowSteps = () => {
     if (!selectedWorkflow) return [];
-    const workflow = DEFAULT_WORKFLOWS.find(w => w.id === selectedWorkflow);
+    const workflow = workflows.find(w => w.id === selectedWorkflow);
     return workflow?.steps || [];
   };
 
-  // 获取状态颜色
-  const getStatusColor = (status: string) => {
+  // 步骤状态对应的步骤条状态
+  const getStepStatus = (status?: WorkflowStepStatus) => {
     switch (status) {
-      case 'completed': return 'success';
-      case 'running': return 'processing';
+      case 'completed': return 'finish';
+      case 'running':
+      case 'awaiting_input': return 'process';
       case 'failed': return 'error';
-      case 'paused': return 'warning';
       default: return 'wait';
     }
   };
 
+  // 执行状态对应的进度条状态
+  const getProgressStatus = (status: WorkflowExecution['status']) => {
+    switch (status) {
+      case 'completed': return 'success';
+      case 'running': return 'active';
+      case 'failed': return 'exception';
+      default: return 'normal';
+    }
+  };
+
   // 获取状态图标
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status?: string) => {
     switch (status) {
       case 'completed': return <CheckCircleOutlined />;
       case 'running': return <Spin size="small" />;
       case 'failed': return <ExclamationCircleOutlined />;
       case 'paused': return <PauseCircleOutlined />;
+      case 'awaiting_input': return <EditOutlined />;
       default: return null;
     }
   };
 
-  const workflow = DEFAULT_WORKFLOWS.find(w => w.id === selectedWorkflow);
+  // 步骤的实时输出：运行中显示流式文本，完成后显示文本结果
+  const getStepOutput = (stepId: string, outputKey: string): string | undefined => {
+    if (!currentExecution) return undefined;
+    const result = currentExecution.results[outputKey];
+    if (result === undefined) return streams[stepId];
+    return isWorkflowAsset(result) || isMapResult(result) ? undefined : toText(result);
+  };
+
+  const isActive = ['running', 'paused', 'awaiting_input'].includes(currentExecution?.status || '');
+
+  const workflow = workflows.find(w => w.id === selectedWorkflow);
 
   return (
     <div className={className}>
       <Card title="AI Studio 自动化工作流" bordered={false}>
-        <Tabs defaultActiveKey="1">
+        <Tabs activeKey={activeTab} onChange={setActiveTab}>
           <TabPane tab="工作流配置" key="1">
             <Form
               form={form}
@@ -188,14 +354,63 @@ export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) =>
                   placeholder="请选择工作流"
                   onChange={setSelectedWorkflow}
                 >
-                  {DEFAULT_WORKFLOWS.map(workflow => (
+                  {workflows.map(workflow => (
                     <Select.Option key={workflow.id} value={workflow.id}>
+                      {workflow.isCustom && <Tag color="blue">自定义</Tag>}
                       {workflow.name} - {workflow.description}
                     </Select.Option>
                   ))}
                 </Select>
               </Form.Item>
 
+              <Space style={{ marginBottom: 16 }}>
+                <Button
+                  icon={<PlusOutlined />}
+                  onClick={() => setEditingWorkflow(workflowStore.createEmpty())}
+                >
+                  新建
+                </Button>
+                <Button
+                  icon={<CopyOutlined />}
+                  disabled={!workflow}
+                  onClick={() => workflow && setEditingWorkflow(workflowStore.clone(workflow))}
+                >
+                  克隆
+                </Button>
+                <Button
+                  icon={<EditOutlined />}
+                  disabled={!workflow?.isCustom}
+                  onClick={() => workflow && setEditingWorkflow(workflow)}
+                >
+                  编辑
+                </Button>
+                <Button
+                  danger
+                  icon={<DeleteOutlined />}
+                  disabled={!workflow?.isCustom}
+                  onClick={() => workflow && deleteWorkflow(workflow)}
+                >
+                  删除
+                </Button>
+                <Button icon={<ImportOutlined />} onClick={handleImport}>
+                  导入
+                </Button>
+                <Dropdown
+                  disabled={!workflow}
+                  menu={{
+                    items: [
+                      { key: 'json', label: '导出为 JSON' },
+                      { key: 'yaml', label: '导出为 YAML' }
+                    ],
+                    onClick: ({ key }) => workflow && handleExport(workflow, key as WorkflowDocumentFormat)
+                  }}
+                >
+                  <Button icon={<ExportOutlined />} disabled={!workflow}>
+                    导出
+                  </Button>
+                </Dropdown>
+              </Space>
+
               {workflow && (
                 <>
                   <Alert
@@ -242,7 +457,7 @@ export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) =>
                     </Select>
                   </Form.Item>
 
-                  {workflow.id === 'video-production' && (
+                  {usesParam(workflow, 'duration') && (
                     <Form.Item
                       label="视频时长（秒）"
                       name="duration"
@@ -260,10 +475,17 @@ export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) =>
                     htmlType="submit"
                     icon={<PlayCircleOutlined />}
                     loading={loading}
-                    disabled={!selectedWorkflow}
+                    disabled={!selectedWorkflow || isActive}
                   >
                     开始执行
                   </Button>
+                  <Button
+                    icon={<CalculatorOutlined />}
+                    disabled={!workflow}
+                    onClick={() => setEstimatingWorkflow(workflow || null)}
+                  >
+                    费用预估
+                  </Button>
                 </Space>
               </Form.Item>
             </Form>
@@ -272,30 +494,67 @@ export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) =>
           <TabPane tab="执行进度" key="2">
             {currentExecution ? (
               <div>
-                <Steps
-                  current={currentExecution.currentStep}
-                  status={getStatusColor(currentExecution.status)}
-                  style={{ marginBottom: 24 }}
-                >
-                  {getWorkflowSteps().map((step, index) => (
-                    <Step
-                      key={step.id}
-                      title={step.name}
-                      description={step.description}
-                      icon={getStatusIcon(
-                        index < currentExecution.currentStep ? 'completed' :
-                        index === currentExecution.currentStep ? currentExecution.status : 'wait'
-                      )}
-                    />
-                  ))}
-                </Steps>
-
                 <Progress
                   percent={currentExecution.progress}
-                  status={getStatusColor(currentExecution.status)}
+                  status={getProgressStatus(currentExecution.status)}
                   style={{ marginBottom: 24 }}
                 />
 
+                <Steps direction="vertical" size="small" style={{ marginBottom: 24 }}>
+                  {getWorkflowSteps().map(step => {
+                    const status = currentExecution.stepStatus?.[step.id];
+                    const output = getStepOutput(step.id, step.outputKey);
+                    const mapProgress = currentExecution.mapProgress?.[step.id];
+                    const mapDone = mapProgress?.itemStatus.filter(s => s === 'completed').length || 0;
+                    return (
+                      <Step
+                        key={step.id}
+                        title={
+                          <Space>
+                            {step.name}
+                            {status === 'skipped' && <Tag>已跳过</Tag>}
+                          </Space>
+                        }
+                        status={getStepStatus(status)}
+                        icon={getStatusIcon(status === 'running' && currentExecution.status === 'paused' ? 'paused' : status)}
+                        description={
+                          <>
+                            <Text type="secondary">{step.description}</Text>
+                            {mapProgress && (
+                              <Space style={{ display: 'flex' }}>
+                                <Progress
+                                  size="small"
+                                  style={{ width: 200, marginBottom: 0 }}
+                                  percent={Math.round((mapDone / Math.max(mapProgress.total, 1)) * 100)}
+                                  status={mapProgress.itemStatus.includes('failed') ? 'exception' : 'normal'}
+                                />
+                                <Text type="secondary">{mapDone}/{mapProgress.total}</Text>
+                              </Space>
+                            )}
+                            {currentExecution.stepLogs?.[step.id]?.error && (
+                              <Text type="danger" style={{ display: 'block' }}>
+                                {currentExecution.stepLogs[step.id].error}
+                              </Text>
+                            )}
+                            {output && (
+                              <Paragraph
+                                ellipsis={{ rows: 4, expandable: true }}
+                                style={{ whiteSpace: 'pre-wrap', marginTop: 8, marginBottom: 0 }}
+                              >
+                                {output}
+                              </Paragraph>
+                            )}
+                          </>
+                        }
+                      />
+                    );
+                  })}
+                </Steps>
+
+                {currentExecution.status === 'awaiting_input' && (
+                  <WorkflowReviewPanel execution={currentExecution} getLabel={getResultTabName} />
+                )}
+
                 {currentExecution.error && (
                   <Alert
                     message="执行错误"
@@ -306,14 +565,31 @@ export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) =>
                   />
                 )}
 
-                <Button
-                  type="primary"
-                  icon={<EyeOutlined />}
-                  onClick={() => setShowResults(true)}
-                  disabled={currentExecution.status !== 'completed'}
-                >
-                  查看结果
-                </Button>
+                <Space>
+                  {currentExecution.status === 'running' && (
+                    <Button icon={<PauseCircleOutlined />} onClick={pauseExecution}>
+                      暂停
+                    </Button>
+                  )}
+                  {currentExecution.status === 'paused' && (
+                    <Button type="primary" icon={<PlayCircleOutlined />} onClick={resumeExecution}>
+                      继续
+                    </Button>
+                  )}
+                  {isActive && (
+                    <Button danger icon={<StopOutlined />} onClick={cancelExecution}>
+                      取消
+                    </Button>
+                  )}
+                  <Button
+                    type={isActive ? 'default' : 'primary'}
+                    icon={<EyeOutlined />}
+                    onClick={() => setShowResults(true)}
+                    disabled={Object.keys(currentExecution.results).length === 0}
+                  >
+                    查看结果
+                  </Button>
+                </Space>
               </div>
             ) : (
               <Alert
@@ -325,46 +601,48 @@ export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) =>
           </TabPane>
 
           <TabPane tab="历史记录" key="3">
-            {executions.length > 0 ? (
-              <Space direction="vertical" style={{ width: '100%' }}>
-                {executions.map(execution => {
-                  const workflow = DEFAULT_WORKFLOWS.find(w => w.id === execution.workflowId);
-                  return (
-                    <Card key={execution.id} size="small">
-                      <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-                        <div>
-                          <Text strong>{workflow?.name}</Text>
-                          <br />
-                          <Text type="secondary">
-                            {execution.startTime?.toLocaleString()}
-                          </Text>
-                        </div>
-                        <div>
-                          <Tag color={getStatusColor(execution.status)}>
-                            {execution.status}
-                          </Tag>
-                          <Progress
-                            percent={execution.progress}
-                            size="small"
-                            style={{ width: 100, marginLeft: 8 }}
-                          />
-                        </div>
-                      </div>
-                    </Card>
-                  );
-                })}
-              </Space>
-            ) : (
-              <Alert
-                message="暂无执行记录"
-                type="info"
-                showIcon
-              />
-            )}
+            <WorkflowHistory
+              workflows={workflows}
+              refreshKey={historyKey}
+              onOpen={openExecution}
+              onRerun={rerunExecution}
+              onResume={trackExecution}
+            />
+          </TabPane>
+
+          <TabPane tab="定时任务" key="4">
+            <WorkflowSchedules workflows={workflows} />
+          </TabPane>
+
+          <TabPane tab="批量运行" key="5">
+            <WorkflowBatch
+              workflows={workflows}
+              onOpen={openExecution}
+              onChange={() => setHistoryKey(key => key + 1)}
+            />
           </TabPane>
         </Tabs>
       </Card>
 
+      <WorkflowEditor
+        open={!!editingWorkflow}
+        workflow={editingWorkflow}
+        onClose={() => setEditingWorkflow(null)}
+        onSaved={handleWorkflowSaved}
+      />
+
+      <WorkflowImportModal
+        workflow={importingWorkflow}
+        onClose={() => setImportingWorkflow(null)}
+        onImported={handleWorkflowImported}
+      />
+
+      <WorkflowEstimateModal
+        workflow={estimatingWorkflow}
+        params={estimatingWorkflow ? getRunParams(form.getFieldsValue()) : {}}
+        onClose={() => setEstimatingWorkflow(null)}
+      />
+
       {/* 结果展示模态框 */}
       <Modal
         title="工作流执行结果"
@@ -396,12 +674,55 @@ export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) =>
                     type="text"
                     icon={<CopyOutlined />}
                     style={{ position: 'absolute', right: 0, top: 0 }}
-                    onClick={() => copyResult(String(value))}
+                    onClick={() => copyResult(toText(value))}
                   />
-                  <Paragraph>{value}</Paragraph>
+                  {isWorkflowAsset(value) ? (
+                    <AssetPreview asset={value} />
+                  ) : isMapResult(value) ? (
+                    <MapResultList items={value} />
+                  ) : typeof value === 'object' && value !== null ? (
+                    <pre style={{ whiteSpace: 'pre-wrap', marginRight: 32 }}>{JSON.stringify(value, null, 2)}</pre>
+                  ) : (
+                    <Paragraph>{String(value)}</Paragraph>
+                  )}
                 </div>
               </TabPane>
             ))}
+            {currentExecution.stepLogs && (
+              <TabPane tab="执行日志" key="__logs">
+                <Space direction="vertical" style={{ width: '100%' }}>
+                  {Object.entries(currentExecution.stepLogs).map(([stepId, log]: [string, any]) => (
+                    <Card key={stepId} size="small" title={stepId}>
+                      <Text type="secondary">
+                        耗时：{log.endTime && log.startTime ? `${((log.endTime - log.startTime) / 1000).toFixed(1)}s` : '-'}
+                      </Text>
+                      {log.error && <Alert type="error" message={log.error} style={{ marginTop: 8 }} />}
+                      {log.attempts?.length > 1 && (
+                        <div style={{ marginTop: 8 }}>
+                          <Text type="secondary">共调用 {log.attempts.length} 次：</Text>
+                          {log.attempts.map((attempt: WorkflowStepAttempt, index: number) => (
+                            <div key={index}>
+                              <Text type={attempt.error ? 'danger' : 'success'}>
+                                {index + 1}. {attempt.fallback ? '备用 ' : ''}{attempt.engine}{attempt.model ? ` / ${attempt.model}` : ''}
+                                {' '}（{((attempt.endTime - attempt.startTime) / 1000).toFixed(1)}s）
+                                {attempt.error ? `：${attempt.error}` : '：成功'}
+                              </Text>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <Paragraph
+                        type="secondary"
+                        ellipsis={{ rows: 3, expandable: true }}
+                        style={{ marginTop: 8, whiteSpace: 'pre-wrap' }}
+                      >
+                        {log.input}
+                      </Paragraph>
+                    </Card>
+                  ))}
+                </Space>
+              </TabPane>
+            )}
           </Tabs>
         )}
       </Modal>
@@ -409,6 +730,58 @@ export const WorkflowRunner: React.FC<WorkflowRunnerProps> = ({ className }) =>
   );
 };
 
+// 表单值转换为运行参数
+function getRunParams(values: any): WorkflowStepParams {
+  return {
+    topic: values.topic,
+    style: values.style,
+    audience: values.audience,
+    duration: values.duration !== undefined ? Number(values.duration) : undefined
+  };
+}
+
+// 工作流模板是否引用了某个运行参数
+function usesParam(workflow: WorkflowConfig, param: string): boolean {
+  return workflow.steps.flatMap(step => [step, ...(step.map?.steps || [])]).some(step => {
+    try {
+      return extractTemplateVariables(step.template || '').includes(param);
+    } catch {
+      return false;
+    }
+  });
+}
+
+// 是否为循环步骤输出的每项结果列表
+function isMapResult(value: unknown): value is Array<Record<string, any> | null> {
+  return Array.isArray(value) && value.some(item => !!item && typeof item === 'object' && !isWorkflowAsset(item));
+}
+
+// 循环步骤结果：每一项一张卡片
+const MapResultList: React.FC<{ items: Array<Record<string, any> | null> }> = ({ items }) => (
+  <Space direction="vertical" style={{ width: '100%', paddingRight: 32 }}>
+    {items.map((item, index) => (
+      <Card key={index} size="small" title={`第 ${index + 1} 项`}>
+        {item ? (
+          Object.entries(item).map(([key, value]) => (
+            <div key={key} style={{ marginBottom: 8 }}>
+              <Text strong>{key}</Text>
+              {isWorkflowAsset(value) ? (
+                <AssetPreview asset={value} />
+              ) : (
+                <Paragraph ellipsis={{ rows: 4, expandable: true }} style={{ whiteSpace: 'pre-wrap' }}>
+                  {toText(value)}
+                </Paragraph>
+              )}
+            </div>
+          ))
+        ) : (
+          <Text type="secondary">未完成</Text>
+        )}
+      </Card>
+    ))}
+  </Space>
+);
+
 // 获取结果标签页名称
 function getResultTabName(key: string): string {
   const names: Record<string, string> = {
@@ -416,7 +789,11 @@ function getResultTabName(key: string): string {
     title: '生成标题',
     description: '生成描述',
     videoScenes: '视频场景',
-    coverPrompt: '封面提示词'
+    coverPrompt: '封面提示词',
+    coverImage: '封面图',
+    videoClip: '视频片段',
+    sceneClips: '镜头视频',
+    scenesReview: '审核结果'
   };
   return names[key] || key;
 }
\ No newline at end of file
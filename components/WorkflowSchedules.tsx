@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  Form,
+  Input,
+  Select,
+  Button,
+  Space,
+  Modal,
+  Switch,
+  Tag,
+  Radio,
+  Empty,
+  Typography,
+  Popconfirm,
+  message
+} from 'antd';
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  PlayCircleOutlined
+} from '@ant-design/icons';
+import type { WorkflowConfig, WorkflowExecution, WorkflowSchedule } from '../src/config/workflows';
+import { getUpcomingCronTimes } from '../src/services/cronExpression';
+import { workflowScheduleStore, workflowScheduler } from '../src/services/workflowScheduler';
+import { createPlatformAdapter } from '../src/adapters';
+
+const { TextArea } = Input;
+const { Text } = Typography;
+
+// 常用的运行时间
+const CRON_PRESETS = [
+  { value: '0 8 * * *', label: '每天 8:00' },
+  { value: '0 8 * * 1-5', label: '工作日 8:00' },
+  { value: '0 9 * * 1', label: '每周一 9:00' },
+  { value: '0 * * * *', label: '每小时' }
+];
+
+interface WorkflowSchedulesProps {
+  workflows: WorkflowConfig[];
+}
+
+/**
+ * 定时任务 - 按 cron 计划定时运行工作流
+ */
+export const WorkflowSchedules: React.FC<WorkflowSchedulesProps> = ({ workflows }) => {
+  const [schedules, setSchedules] = useState<WorkflowSchedule[]>([]);
+  const [editing, setEditing] = useState<WorkflowSchedule | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form] = Form.useForm();
+  const cron: string = Form.useWatch('cron', form) || '';
+
+  const loadSchedules = async () => {
+    setSchedules(await workflowScheduleStore.list());
+  };
+
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  useEffect(() => {
+    if (editing) {
+      form.setFieldsValue({ ...editing, topics: (editing.topics || []).join('\n') });
+    }
+  }, [editing, form]);
+
+  const getWorkflowName = (workflowId: string) =>
+    workflows.find(w => w.id === workflowId)?.name || workflowId;
+
+  // 保存后重新设置 alarms 或定时器
+  const saveSchedule = async (schedule: WorkflowSchedule) => {
+    await workflowScheduleStore.save(schedule);
+    await workflowScheduler.sync();
+    await loadSchedules();
+  };
+
+  const handleSave = async () => {
+    const values = await form.validateFields();
+    setSaving(true);
+    try {
+      await createPlatformAdapter().native.notifications.requestPermission();
+      await saveSchedule({
+        ...editing!,
+        ...values,
+        topics: (values.topics || '').split('\n').map((topic: string) => topic.trim()).filter(Boolean),
+        params: { ...editing!.params, ...values.params }
+      });
+      message.success('定时任务已保存');
+      setEditing(null);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '保存失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSchedule = async (schedule: WorkflowSchedule, enabled: boolean) => {
+    try {
+      await saveSchedule({ ...schedule, enabled });
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '保存失败');
+    }
+  };
+
+  const removeSchedule = async (schedule: WorkflowSchedule) => {
+    await workflowScheduleStore.remove(schedule.id);
+    await workflowScheduler.sync();
+    await loadSchedules();
+  };
+
+  const runSchedule = async (schedule: WorkflowSchedule) => {
+    try {
+      await workflowScheduler.runNow(schedule.id);
+      message.success('已开始运行，完成后会发送通知');
+      setTimeout(loadSchedules, 1000);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : '运行失败');
+    }
+  };
+
+  let upcoming: Date[] = [];
+  let cronError = '';
+  try {
+    upcoming = cron ? getUpcomingCronTimes(cron, 3) : [];
+  } catch (error) {
+    cronError = error instanceof Error ? error.message : 'cron 表达式无效';
+  }
+
+  return (
+    <div>
+      <Space style={{ marginBottom: 16 }}>
+        <Button
+          type="primary"
+          icon={<PlusOutlined />}
+          onClick={() => setEditing(workflowScheduleStore.createEmpty(workflows[0]?.id))}
+        >
+          新建定时任务
+        </Button>
+        {!workflowScheduler.usesAlarms && (
+          <Text type="secondary">网页版需要保持页面打开才能按时运行</Text>
+        )}
+      </Space>
+
+      {schedules.length === 0 ? (
+        <Empty description="暂无定时任务" />
+      ) : (
+        <Space direction="vertical" style={{ width: '100%' }}>
+          {schedules.map(schedule => (
+            <Card
+              key={schedule.id}
+              size="small"
+              title={
+                <Space>
+                  {schedule.name}
+                  <Tag>{getWorkflowName(schedule.workflowId)}</Tag>
+                  {schedule.lastStatus && (
+                    <Tag color={getStatusTagColor(schedule.lastStatus)}>{schedule.lastStatus}</Tag>
+                  )}
+                </Space>
+              }
+              extra={
+                <Switch
+                  size="small"
+                  checked={schedule.enabled}
+                  onChange={enabled => toggleSchedule(schedule, enabled)}
+                />
+              }
+            >
+              <Space direction="vertical" size={4}>
+                <Text type="secondary">
+                  <code>{schedule.cron}</code>
+                  {schedule.topics?.length
+                    ? ` · ${schedule.topicMode === 'each' ? '逐个运行' : '轮流使用'} ${schedule.topics.length} 个主题`
+                    : ` · 主题：${schedule.params.topic}`}
+                </Text>
+                <Text type="secondary">
+                  下次运行：{schedule.enabled && schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString() : '-'}
+                  {schedule.lastRunAt && ` · 上次运行：${new Date(schedule.lastRunAt).toLocaleString()}`}
+                </Text>
+                {schedule.lastError && <Text type="danger">{schedule.lastError}</Text>}
+              </Space>
+              <Space style={{ display: 'flex', marginTop: 8 }}>
+                <Button size="small" icon={<PlayCircleOutlined />} onClick={() => runSchedule(schedule)}>
+                  立即运行
+                </Button>
+                <Button size="small" icon={<EditOutlined />} onClick={() => setEditing(schedule)}>
+                  编辑
+                </Button>
+                <Popconfirm title="确定删除该定时任务？" onConfirm={() => removeSchedule(schedule)}>
+                  <Button size="small" danger icon={<DeleteOutlined />} />
+                </Popconfirm>
+              </Space>
+            </Card>
+          ))}
+        </Space>
+      )}
+
+      <Modal
+        title={editing?.name ? `编辑定时任务 - ${editing.name}` : '新建定时任务'}
+        open={!!editing}
+        onCancel={() => setEditing(null)}
+        onOk={handleSave}
+        confirmLoading={saving}
+        okText="保存"
+        destroyOnClose
+      >
+        <Form form={form} layout="vertical">
+          <Form.Item label="任务名称" name="name" rules={[{ required: true, message: '请输入任务名称' }]}>
+            <Input placeholder="例如：每日内容生成" />
+          </Form.Item>
+          <Form.Item label="工作流" name="workflowId" rules={[{ required: true, message: '请选择工作流' }]}>
+            <Select options={workflows.map(w => ({ value: w.id, label: w.name }))} />
+          </Form.Item>
+          <Form.Item
+            label="运行时间（cron：分 时 日 月 周）"
+            name="cron"
+            rules={[{ required: true, message: '请输入 cron 表达式' }]}
+            validateStatus={cronError ? 'error' : undefined}
+            help={
+              cronError || (upcoming.length > 0 && `接下来：${upcoming.map(time => time.toLocaleString()).join('，')}`)
+            }
+          >
+            <Input placeholder="0 8 * * *" />
+          </Form.Item>
+          <Space wrap style={{ marginBottom: 16 }}>
+            {CRON_PRESETS.map(preset => (
+              <Button key={preset.value} size="small" onClick={() => form.setFieldValue('cron', preset.value)}>
+                {preset.label}
+              </Button>
+            ))}
+          </Space>
+          <Form.Item label="主题列表（每行一个）" name="topics">
+            <TextArea rows={4} placeholder={'春季露营装备推荐\n城市骑行路线'} />
+          </Form.Item>
+          <Form.Item label="主题使用方式" name="topicMode">
+            <Radio.Group>
+              <Radio value="rotate">每次运行取下一个主题</Radio>
+              <Radio value="each">每次为每个主题各运行一次</Radio>
+            </Radio.Group>
+          </Form.Item>
+          <Form.Item label="固定主题（未填写主题列表时使用）" name={['params', 'topic']}>
+            <Input />
+          </Form.Item>
+          <Space>
+            <Form.Item label="内容风格" name={['params', 'style']}>
+              <Input placeholder="专业" />
+            </Form.Item>
+            <Form.Item label="目标受众" name={['params', 'audience']}>
+              <Input placeholder="年轻人" />
+            </Form.Item>
+          </Space>
+          <Form.Item label="启用" name="enabled" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+};
+
+// 获取状态标签颜色
+function getStatusTagColor(status: WorkflowExecution['status']): string {
+  switch (status) {
+    case 'completed': return 'success';
+    case 'running': return 'processing';
+    case 'failed': return 'error';
+    case 'awaiting_input': return 'warning';
+    default: return 'default';
+  }
+}
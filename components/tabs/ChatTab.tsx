@@ -30,34 +30,22 @@ import {
 } from "@ant-design/icons"
 import { useChat, useAISources, useUI } from "../../src/hooks"
 import { modelManager, DEFAULT_MODELS } from "../../src/config/models"
+import { AIEngineType } from "../../src/config/engines"
+import type { AISource as EngineAISource } from "../../src/config/engines"
+import { apiService } from "../../services/apiService"
 import { cacheManager } from "../../src/utils/cache"
+import type { ChatAttachment } from "../../src/stores/appStore"
 
 const { Text } = Typography
 const { TextArea } = Input
 const { Option } = Select
 
-// 消息类型
-interface ChatMessage {
-  id: string
-  type: 'user' | 'assistant'
-  content: string
-  timestamp: number
-  isStreaming?: boolean
-  attachments?: {
-    type: 'image' | 'audio' | 'video'
-    url: string
-    name: string
-  }[]
-  model?: string
-  feedback?: 'good' | 'bad'
-}
-
 /**
  * 聊天标签页组件 - 支持最新AI模型和功能
  */
 function ChatTab() {
   const { messages, isStreaming, sendMessage, clearMessages } = useChat()
-  const { aiSources, currentSource, addAISource } = useAISources()
+  const { aiSources, currentSource, currentSourceId, addAISource } = useAISources()
   const { platform } = useUI()
   const [inputValue, setInputValue] = useState("")
   const [selectedModel, setSelectedModel] = useState(DEFAULT_MODELS.CHAT)
@@ -65,12 +53,22 @@ function ChatTab() {
   const [maxTokens, setMaxTokens] = useState(2000)
   const [enableWebSearch, setEnableWebSearch] = useState(false)
   const [enableCodeInterpreter, setEnableCodeInterpreter] = useState(false)
-  const [attachments, setAttachments] = useState<any[]>([])
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([])
+  const [localSource, setLocalSource] = useState<EngineAISource | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
 
   // 获取可用的聊天模型
   const chatModels = modelManager.getModelsByCapability('supportsStreaming', true)
 
+  // 当前AI源为本地模型时，模型从本地服务查询到的列表中选择
+  useEffect(() => {
+    apiService.getAISource(currentSourceId).then(source => {
+      const local = source?.type === AIEngineType.LOCAL ? source : null
+      setLocalSource(local)
+      setSelectedModel(local?.defaultModel || DEFAULT_MODELS.CHAT)
+    })
+  }, [currentSourceId])
+
   // 滚动到底部
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
@@ -89,21 +87,22 @@ function ChatTab() {
       return
     }
 
-    const messageContent = {
-      text: inputValue.trim(),
-      attachments,
-      settings: {
-        model: selectedModel,
-        temperature,
-        maxTokens,
-        enableWebSearch,
-        enableCodeInterpreter
-      }
+    // 图片随消息发送，需要模型支持图片输入（本地模型的能力未知，交由本地服务判断）；音频和视频附件暂不发送给模型
+    if (!localSource && attachments.some(att => att.type === 'image') && !modelManager.checkModelCapability(selectedModel, 'supportsImageInput')) {
+      message.warning("当前模型不支持图片输入，请选择视觉模型")
+      return
     }
 
+    const content = inputValue.trim()
+    const sentAttachments = attachments
     setInputValue("")
     setAttachments([])
-    await sendMessage(JSON.stringify(messageContent))
+    await sendMessage(content, {
+      attachments: sentAttachments,
+      model: selectedModel,
+      temperature,
+      maxTokens
+    })
   }
 
   // 处理键盘事件
@@ -174,14 +173,23 @@ function ChatTab() {
             style={{ width: 200 }}
             placeholder="选择模型"
           >
-            {chatModels.map(model => (
-              <Option key={model.id} value={model.id}>
-                <Space>
-                  <span>{model.name}</span>
-                  <Tag size="small">{model.platform}</Tag>
-                </Space>
-              </Option>
-            ))}
+            {localSource
+              ? (localSource.models || []).map(model => (
+                  <Option key={model} value={model}>
+                    <Space>
+                      <span>{model}</span>
+                      <Tag color="green">本地</Tag>
+                    </Space>
+                  </Option>
+                ))
+              : chatModels.map(model => (
+                  <Option key={model.id} value={model.id}>
+                    <Space>
+                      <span>{model.name}</span>
+                      <Tag size="small">{model.platform}</Tag>
+                    </Space>
+                  </Option>
+                ))}
           </Select>
           
           <Tooltip title="创造性：值越高越随机">
@@ -244,15 +252,15 @@ function ChatTab() {
             <div
               key={message.id}
               className={`flex gap-3 ${
-                message.type === 'user' ? 'justify-end' : 'justify-start'
+                message.role === 'user' ? 'justify-end' : 'justify-start'
               }`}
             >
-              {message.type === 'assistant' && (
+              {message.role === 'assistant' && (
                 <Avatar icon={<RobotOutlined />} className="flex-shrink-0" />
               )}
               <Card
                 className={`max-w-[80%] ${
-                  message.type === 'user'
+                  message.role === 'user'
                     ? 'bg-blue-500 text-white'
                     : 'bg-white'
                 }`}
@@ -261,7 +269,7 @@ function ChatTab() {
                 <div className="flex items-start justify-between mb-2">
                   <Text
                     className={`whitespace-pre-wrap ${
-                      message.type === 'user' ? 'text-white' : ''
+                      message.role === 'user' ? 'text-white' : ''
                     }`}
                   >
                     {message.content}
@@ -292,8 +300,15 @@ function ChatTab() {
                   </Tag>
                 )}
                 
+                {/* token 用量 */}
+                {message.usage && (
+                  <Text type="secondary" className="text-xs mt-2 block">
+                    输入 {message.usage.inputTokens ?? '-'} · 输出 {message.usage.outputTokens ?? '-'} tokens
+                  </Text>
+                )}
+                
                 {/* 操作按钮 */}
-                {message.type === 'assistant' && !message.isStreaming && (
+                {message.role === 'assistant' && !message.isStreaming && (
                   <Space className="mt-2">
                     <Button
                       type="text"
@@ -320,7 +335,7 @@ function ChatTab() {
                   </Space>
                 )}
               </Card>
-              {message.type === 'user' && (
+              {message.role === 'user' && (
                 <Avatar icon={<UserOutlined />} className="flex-shrink-0" />
               )}
             </div>
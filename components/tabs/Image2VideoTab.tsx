@@ -49,6 +49,8 @@ import { modelManager, DEFAULT_MODELS } from "../../src/config/models"
 import { EngineConfigManager } from "../../src/config/engines"
 import { cacheManager } from "../../src/utils/cache"
 import { apiService } from "../../services/apiService"
+import { generationJobTracker } from "../../src/services/generationJobs"
+import type { GenerationJob } from "../../src/services/generationJobs"
 import BatchProcessor from "../BatchProcessor"
 import ExcelImporter from "../ExcelImporter"
 import TemplateManager from "../TemplateManager"
@@ -157,6 +159,67 @@ function Image2VideoTab() {
     }
   }, [])
   
+  // 恢复页面关闭前提交的异步生成任务（如即梦），完成后加入结果和历史记录
+  useEffect(() => {
+    const controller = new AbortController()
+    generationJobTracker.list('video').then(jobs => {
+      jobs.forEach(job => restoreJob(job, controller.signal))
+    })
+    return () => controller.abort()
+  }, [])
+  
+  // 恢复单个任务：未完成时先显示占位，结束后更新视频
+  const restoreJob = async (job: GenerationJob, signal: AbortSignal) => {
+    const placeholder: GeneratedVideo = {
+      id: job.id,
+      url: "",
+      thumbnailUrl: job.params.sourceImageUrl || "",
+      prompt: job.params.prompt,
+      sourceImageUrl: job.params.sourceImageUrl,
+      timestamp: job.createdAt,
+      status: "generating",
+      progress: 10,
+      duration: job.params.duration,
+      model: job.params.model,
+      style: job.params.style
+    }
+    setVideos(prev => [placeholder, ...prev])
+    
+    try {
+      const result = job.status === 'pending' ? await generationJobTracker.waitFor(job.id, signal) : job
+      const url = result.urls?.[0]
+      setVideos(prev => prev.map(video =>
+        video.id === placeholder.id
+          ? result.status === 'completed' && url
+            ? { ...video, status: "completed", progress: 100, url }
+            : { ...video, status: "failed", progress: 0 }
+          : video
+      ))
+      
+      if (result.status === 'completed') {
+        setGenerationHistory(prev => [{
+          id: job.id,
+          prompt: job.params.prompt,
+          model: job.params.model,
+          hasSourceImage: job.kind === 'image-to-video',
+          params: { videoDuration: job.params.duration, videoStyle: job.params.style, videoCount: 1 },
+          timestamp: job.createdAt,
+          videoCount: 1
+        }, ...prev.slice(0, 49)])
+        message.success("后台任务已完成，已取回视频")
+      } else {
+        message.error(`后台任务生成失败: ${result.error}`)
+      }
+      await generationJobTracker.remove(job.id)
+    } catch (error) {
+      if (signal.aborted) return
+      console.error("恢复生成任务失败:", error)
+      setVideos(prev => prev.map(video =>
+        video.id === placeholder.id ? { ...video, status: "failed", progress: 0 } : video
+      ))
+    }
+  }
+  
   // 当AI源改变时，自动选择可用的视频模型
   useEffect(() => {
     if (currentSource && videoModels.length > 0) {
@@ -357,9 +420,9 @@ function Image2VideoTab() {
     setSelectedModel(item.model)
     setVideoDuration(item.params.videoDuration)
     setVideoStyle(item.params.videoStyle)
-    setVideoResolution(item.params.videoResolution)
+    setVideoResolution(item.params.videoResolution || videoResolution)
     setVideoCount(item.params.videoCount)
-    setAdvancedParams(item.params)
+    setAdvancedParams(prev => ({ ...prev, ...item.params }))
     setShowHistory(false)
   }
   
@@ -41,6 +41,11 @@ import { useAISources, useUI, useModelManager } from "../../src/hooks"
 import { modelManager, DEFAULT_MODELS } from "../../src/config/models"
 import { cacheManager } from "../../src/utils/cache"
 import { apiService } from "../../services/apiService"
+import type { ImageGenerationParams } from "../../services/apiService"
+import type { ImageParamName } from "../../src/adapters/types"
+import type { AISource as EngineAISource } from "../../src/config/engines"
+import { generationJobTracker } from "../../src/services/generationJobs"
+import type { GenerationJob } from "../../src/services/generationJobs"
 import BatchProcessor from "../BatchProcessor"
 import ExcelImporter from "../ExcelImporter"
 import TemplateManager from "../TemplateManager"
@@ -66,6 +71,18 @@ interface GeneratedImage {
   negativePrompt?: string
 }
 
+// 采样参数名称，用于提示被引擎忽略的参数
+const IMAGE_PARAM_LABELS: Record<ImageParamName, string> = {
+  negativePrompt: "负面提示词",
+  seed: "随机种子",
+  steps: "迭代步数",
+  cfgScale: "引导强度",
+  sampler: "采样器",
+  hiresFix: "高清修复",
+  image: "参考图片",
+  strength: "重绘强度"
+}
+
 // 高级生成参数
 interface GenerationParams {
   steps: number
@@ -82,7 +99,7 @@ interface GenerationParams {
  * 文生图标签页组件 - 支持最新AI模型和高级功能
  */
 function Text2ImageTab() {
-  const { currentSource } = useAISources()
+  const { currentSourceId } = useAISources()
   const { platform } = useUI()
   const { getImageGenerationModels } = useModelManager()
   
@@ -126,9 +143,43 @@ function Text2ImageTab() {
   const [showHistory, setShowHistory] = useState(false)
   const [generationHistory, setGenerationHistory] = useState<any[]>([])
   
+  // 实际执行生成的AI源；Stable Diffusion、ComfyUI 等服务的模型从服务上查询
+  const [imageSource, setImageSource] = useState<EngineAISource | null>(null)
+  const [serviceModels, setServiceModels] = useState<string[] | null>(null)
+  
   // 获取可用的图片生成模型
   const imageModels = getImageGenerationModels()
   
+  // 当前AI源支持的采样参数，不支持的控件置灰且不随请求发送
+  const supportedParams = imageSource ? apiService.getSupportedImageParams(imageSource) : []
+  const supports = (name: ImageParamName) => supportedParams.includes(name)
+  
+  // 切换AI源时重新读取，服务自身提供模型时查询模型列表，查询失败时使用设置中获取过的列表
+  useEffect(() => {
+    const controller = new AbortController()
+    apiService.getAISource(currentSourceId).then(async source => {
+      setImageSource(source)
+      if (!source || !apiService.servesImageModels(source)) {
+        setServiceModels(null)
+        setSelectedModel(DEFAULT_MODELS.IMAGE_GENERATION)
+        return
+      }
+      
+      setServiceModels(source.models || [])
+      setSelectedModel(source.defaultModel || source.models?.[0] || "")
+      try {
+        const models = await apiService.listModels(source, controller.signal)
+        if (controller.signal.aborted) return
+        setServiceModels(models)
+        setSelectedModel(current => models.includes(current) ? current : source.defaultModel || models[0] || "")
+      } catch (error) {
+        if (controller.signal.aborted) return
+        console.warn("查询服务上的模型失败:", error)
+      }
+    })
+    return () => controller.abort()
+  }, [currentSourceId])
+  
   // 缓存常用设置
   useEffect(() => {
     const cachedSettings = cacheManager.get('image-gen-settings')
@@ -139,6 +190,67 @@ function Text2ImageTab() {
     }
   }, [])
   
+  // 恢复页面关闭前提交的异步生成任务（如即梦），完成后加入结果和历史记录
+  useEffect(() => {
+    const controller = new AbortController()
+    generationJobTracker.list('image').then(jobs => {
+      jobs.forEach(job => restoreJob(job, controller.signal))
+    })
+    return () => controller.abort()
+  }, [])
+  
+  // 恢复单个任务：未完成时先显示占位，结束后更新图片
+  const restoreJob = async (job: GenerationJob, signal: AbortSignal) => {
+    const count = job.params.count || 1
+    const placeholders: GeneratedImage[] = Array.from({ length: count }, (_, i) => ({
+      id: `${job.id}_${i}`,
+      url: "",
+      prompt: job.params.prompt,
+      timestamp: job.createdAt,
+      status: "generating",
+      progress: 0,
+      model: job.params.model,
+      size: job.params.size,
+      style: job.params.style
+    }))
+    setImages(prev => [...placeholders, ...prev])
+    
+    try {
+      const result = job.status === 'pending' ? await generationJobTracker.waitFor(job.id, signal) : job
+      const urls = result.urls || []
+      setImages(prev => prev.map(img => {
+        const index = placeholders.findIndex(placeholder => placeholder.id === img.id)
+        if (index === -1) return img
+        return result.status === 'completed' && index < urls.length
+          ? { ...img, status: "completed" as const, progress: 100, url: urls[index] }
+          : { ...img, status: "failed" as const }
+      }))
+      
+      if (result.status === 'completed') {
+        setGenerationHistory(prev => [{
+          id: job.id,
+          prompt: job.params.prompt,
+          model: job.params.model,
+          params: { imageSize: job.params.size, imageStyle: job.params.style, imageCount: count },
+          timestamp: job.createdAt,
+          imageCount: count
+        }, ...prev.slice(0, 49)])
+        message.success(`后台任务已完成，取回 ${urls.length} 张图片`)
+      } else {
+        message.error(`后台任务生成失败: ${result.error}`)
+      }
+      await generationJobTracker.remove(job.id)
+    } catch (error) {
+      if (signal.aborted) return
+      console.error("恢复生成任务失败:", error)
+      setImages(prev => prev.map(img =>
+        placeholders.some(placeholder => placeholder.id === img.id)
+          ? { ...img, status: "failed" as const }
+          : img
+      ))
+    }
+  }
+  
   // 保存设置到缓存
   const saveSettings = () => {
     cacheManager.set('image-gen-settings', {
@@ -155,29 +267,43 @@ function Text2ImageTab() {
       return
     }
     
-    if (!currentSource) {
+    if (!imageSource) {
       message.warning("请先在设置中配置AI源")
       return
     }
     
+    if (imageToImage && !supports('image')) {
+      message.warning("当前AI源不支持图生图，请切换AI源或关闭图生图")
+      return
+    }
+    
+    if (imageToImage && !referenceImage) {
+      message.warning("请上传参考图片")
+      return
+    }
+    
     setIsGenerating(true)
     saveSettings()
     
     try {
-      // 准备生成参数
-      const generationParams = {
+      // 准备生成参数，只发送当前AI源支持的采样参数
+      const generationParams: ImageGenerationParams = {
         prompt: prompt.trim(),
         count: imageCount,
         size: imageSize,
         style: imageStyle,
-        steps: advancedParams.steps,
-        cfgScale: advancedParams.cfgScale,
-        seed: advancedParams.seed,
-        negativePrompt: advancedParams.negativePrompt,
+        steps: supports('steps') ? advancedParams.steps : undefined,
+        cfgScale: supports('cfgScale') ? advancedParams.cfgScale : undefined,
+        seed: supports('seed') ? advancedParams.seed : undefined,
+        negativePrompt: supports('negativePrompt') ? advancedParams.negativePrompt : undefined,
+        sampler: supports('sampler') ? advancedParams.sampler : undefined,
+        hiresFix: supports('hiresFix') && advancedParams.enableHiresFix,
+        hiresUpscaler: advancedParams.hiresUpscaler,
+        denoisingStrength: advancedParams.denoisingStrength,
         // 图生图参数
         imageToImage,
         referenceImage: referenceImage?.url,
-        strength
+        strength: supports('strength') ? strength : undefined
       }
       
       // 创建生成中的图片占位符
@@ -193,10 +319,10 @@ function Text2ImageTab() {
           model: selectedModel,
           size: imageSize,
           style: imageStyle,
-          steps: advancedParams.steps,
-          cfgScale: advancedParams.cfgScale,
-          seed: advancedParams.seed || Math.random().toString(36).substr(2, 9),
-          negativePrompt: advancedParams.negativePrompt
+          steps: generationParams.steps,
+          cfgScale: generationParams.cfgScale,
+          seed: generationParams.seed ? String(generationParams.seed) : undefined,
+          negativePrompt: generationParams.negativePrompt
         }
         newImages.push(newImage)
       }
@@ -205,14 +331,20 @@ function Text2ImageTab() {
       
       // 调用真实的API
       const result = await apiService.generateImages(
+        generationParams,
+        // 引擎按AI源的模型列表选用 checkpoint，带上刚查询到的列表
+        serviceModels ? { ...imageSource, models: serviceModels } : imageSource,
+        selectedModel || undefined,
         {
-          prompt: prompt.trim(),
-          count: imageCount,
-          size: imageSize,
-          style: imageStyle
-        },
-        currentSource,
-        selectedModel
+          // 引擎报告采样进度时更新占位图的进度条
+          onProgress: ({ percent }) => {
+            setImages(prev => prev.map(img =>
+              img.status === "generating" && newImages.some(newImg => newImg.id === img.id)
+                ? { ...img, progress: percent }
+                : img
+            ))
+          }
+        }
       )
       
       if (result.success && result.data) {
@@ -224,13 +356,17 @@ function Text2ImageTab() {
               ...img,
               status: "completed" as const,
               progress: 100,
-              url: result.data![index]
+              url: result.data![index],
+              seed: result.seeds?.[index] !== undefined ? String(result.seeds[index]) : img.seed
             }
           }
           return img
         }))
         
         message.success(`成功生成 ${result.data.length} 张图片`)
+        if (result.ignoredParams?.length) {
+          message.info(`当前AI源不支持以下参数，已忽略：${result.ignoredParams.map(name => IMAGE_PARAM_LABELS[name]).join("、")}`)
+        }
       } else {
         // 标记为失败
         setImages(prev => prev.map(img => 
@@ -294,7 +430,7 @@ function Text2ImageTab() {
     setImageSize(item.params.imageSize)
     setImageStyle(item.params.imageStyle)
     setImageCount(item.params.imageCount)
-    setAdvancedParams(item.params)
+    setAdvancedParams(prev => ({ ...prev, ...item.params }))
     setShowHistory(false)
   }
   
@@ -335,14 +471,23 @@ function Text2ImageTab() {
               className="w-full mt-1"
               placeholder="选择生成模型"
             >
-              {imageModels.map(model => (
-                <Option key={model.id} value={model.id}>
-                  <Space>
-                    <span>{model.name}</span>
-                    <Tag size="small">{model.platform}</Tag>
-                  </Space>
-                </Option>
-              ))}
+              {serviceModels
+                ? serviceModels.map(model => (
+                    <Option key={model} value={model}>
+                      <Space>
+                        <span>{model}</span>
+                        <Tag color="green">{imageSource?.name}</Tag>
+                      </Space>
+                    </Option>
+                  ))
+                : imageModels.map(model => (
+                    <Option key={model.id} value={model.id}>
+                      <Space>
+                        <span>{model.name}</span>
+                        <Tag size="small">{model.platform}</Tag>
+                      </Space>
+                    </Option>
+                  ))}
             </Select>
           </Col>
           
@@ -409,10 +554,11 @@ function Text2ImageTab() {
         
         <div className="mt-3">
           <Space>
-            <Tooltip title="使用参考图片生成相似图片">
+            <Tooltip title={supports('image') ? "使用参考图片生成相似图片" : "当前AI源不支持图生图"}>
               <Switch
                 checked={imageToImage}
                 onChange={setImageToImage}
+                disabled={!supports('image') && !imageToImage}
                 checkedChildren="图生图"
                 unCheckedChildren="文生图"
               />
@@ -454,7 +600,12 @@ function Text2ImageTab() {
       
       {/* 高级参数设置 */}
       {showAdvanced && (
-        <Card size="small" className="mb-4" title="高级参数">
+        <Card
+          size="small"
+          className="mb-4"
+          title="高级参数"
+          extra={<Text type="secondary" className="text-xs">置灰的参数当前AI源不支持</Text>}
+        >
           <Row gutter={16}>
             <Col span={6}>
               <Text strong className="text-sm">迭代步数</Text>
@@ -463,6 +614,7 @@ function Text2ImageTab() {
                 max={100}
                 value={advancedParams.steps}
                 onChange={(value) => setAdvancedParams(prev => ({ ...prev, steps: value as number }))}
+                disabled={!supports('steps')}
                 className="mt-2"
               />
               <Text type="secondary" className="text-xs">{advancedParams.steps} 步</Text>
@@ -475,6 +627,7 @@ function Text2ImageTab() {
                 max={30}
                 value={advancedParams.cfgScale}
                 onChange={(value) => setAdvancedParams(prev => ({ ...prev, cfgScale: value as number }))}
+                disabled={!supports('cfgScale')}
                 className="mt-2"
               />
               <Text type="secondary" className="text-xs">CFG: {advancedParams.cfgScale}</Text>
@@ -487,6 +640,7 @@ function Text2ImageTab() {
                 onChange={(e) => setAdvancedParams(prev => ({ ...prev, seed: e.target.value }))}
                 placeholder="留空使用随机种子"
                 className="mt-1"
+                disabled={!supports('seed')}
               />
             </Col>
             
@@ -496,6 +650,7 @@ function Text2ImageTab() {
                 value={advancedParams.sampler}
                 onChange={(value) => setAdvancedParams(prev => ({ ...prev, sampler: value }))}
                 className="w-full mt-1"
+                disabled={!supports('sampler')}
               >
                 <Option value="DPM++ 2M Karras">DPM++ 2M Karras</Option>
                 <Option value="Euler a">Euler a</Option>
@@ -513,9 +668,53 @@ function Text2ImageTab() {
               placeholder="描述不想要的内容，例如：模糊, 低质量, 扭曲"
               rows={2}
               className="mt-1"
+              disabled={!supports('negativePrompt')}
             />
           </div>
           
+          {!imageToImage && (
+            <Row gutter={16} className="mt-3" align="middle">
+              <Col span={6}>
+                <Text strong className="text-sm">高清修复</Text>
+                <div className="mt-1">
+                  <Switch
+                    checked={advancedParams.enableHiresFix}
+                    onChange={(checked) => setAdvancedParams(prev => ({ ...prev, enableHiresFix: checked }))}
+                    disabled={!supports('hiresFix')}
+                  />
+                </div>
+              </Col>
+              
+              <Col span={9}>
+                <Text strong className="text-sm">放大算法</Text>
+                <Select
+                  value={advancedParams.hiresUpscaler}
+                  onChange={(value) => setAdvancedParams(prev => ({ ...prev, hiresUpscaler: value }))}
+                  className="w-full mt-1"
+                  disabled={!supports('hiresFix') || !advancedParams.enableHiresFix}
+                >
+                  <Option value="R-ESRGAN 4x+">R-ESRGAN 4x+</Option>
+                  <Option value="R-ESRGAN 4x+ Anime6B">R-ESRGAN 4x+ Anime6B</Option>
+                  <Option value="Latent">Latent</Option>
+                  <Option value="ESRGAN_4x">ESRGAN 4x</Option>
+                </Select>
+              </Col>
+              
+              <Col span={9}>
+                <Text strong className="text-sm">修复重绘幅度</Text>
+                <Slider
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={advancedParams.denoisingStrength}
+                  onChange={(value) => setAdvancedParams(prev => ({ ...prev, denoisingStrength: value as number }))}
+                  disabled={!supports('hiresFix') || !advancedParams.enableHiresFix}
+                  className="mt-2"
+                />
+              </Col>
+            </Row>
+          )}
+          
           {imageToImage && (
             <div className="mt-3">
               <Text strong className="text-sm">重绘强度</Text>
@@ -525,6 +724,7 @@ function Text2ImageTab() {
                 step={0.01}
                 value={strength}
                 onChange={setStrength}
+                disabled={!supports('strength')}
                 className="mt-2"
               />
               <Text type="secondary" className="text-xs">{Math.round(strength * 100)}%</Text>
@@ -649,9 +849,9 @@ function Text2ImageTab() {
                         )}
                       </Space>
                       
-                      {currentSource && (
+                      {imageSource && (
                         <Text type="secondary" className="text-xs">
-                          当前引擎: {currentSource.name}
+                          当前引擎: {imageSource.name}
                         </Text>
                       )}
                     </div>
@@ -1,10 +1,14 @@
 import { Storage } from "@plasmohq/storage"
-import { AIEngineType, EngineConfigManager } from "../src/config/engines"
+import { EngineConfigManager } from "../src/config/engines"
 import type { AISource } from "../src/config/engines"
 import { modelManager } from "../src/config/models"
 import type { ModelInfo } from "../src/config/models"
-import { DoubaoEngine } from "../src/services/engines/doubaoEngine"
-import { JimengEngine } from "../src/services/engines/jimengEngine"
+import type { EngineAdapter, EngineMessage, EngineProgress, EngineUsage, ImageParamName } from "../src/adapters/types"
+import { engineRegistry } from "../src/services/engines/engineRegistry"
+import { JimengEngineAdapter } from "../src/services/engines/engineAdapters"
+import type { JimengTaskHandle } from "../src/services/engines/engineAdapters"
+import { generationJobTracker } from "../src/services/generationJobs"
+import type { GenerationJobParams, GenerationJobType } from "../src/services/generationJobs"
 
 // 存储实例
 const storage = new Storage()
@@ -17,15 +21,48 @@ export interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
+  images?: string[] // 图片附件（链接或 data URL），需选择支持图片输入的模型
   timestamp: number
 }
 
-// 图片生成参数
+// 聊天生成选项
+export interface ChatOptions {
+  temperature?: number
+  maxTokens?: number
+  onUsage?: (usage: EngineUsage) => void // 引擎返回用量时回调
+}
+
+// 图片生成参数，采样参数由支持的引擎使用，其余引擎忽略并在结果的 ignoredParams 中列出
 export interface ImageGenerationParams {
   prompt: string
   count: number
   size: string
   style: string
+  negativePrompt?: string
+  seed?: string | number // 留空时随机
+  steps?: number
+  cfgScale?: number
+  sampler?: string
+  hiresFix?: boolean // 高清修复，仅文生图
+  hiresUpscaler?: string
+  denoisingStrength?: number // 高清修复的重绘幅度
+  imageToImage?: boolean // 开启时以参考图生成
+  referenceImage?: string // 参考图（链接或 data URL）
+  strength?: number // 图生图重绘强度 0-1
+}
+
+// 图片生成结果
+export interface ImageGenerationResult extends APIResponse<string[]> {
+  seeds?: number[] // 与图片一一对应，引擎返回种子时提供
+  ignoredParams?: ImageParamName[] // 引擎不支持而忽略的参数
+}
+
+// 传给引擎的采样参数
+type SamplingParams = Partial<Pick<Parameters<EngineAdapter['generateImage']>[0], ImageParamName>>
+
+// 图片生成选项
+export interface ImageGenerationOptions {
+  onProgress?: (progress: EngineProgress) => void // 引擎报告生成进度时回调（如 Stable Diffusion、ComfyUI 的采样步数）
 }
 
 // 视频生成参数
@@ -170,6 +207,22 @@ class APIService {
     }
   }
 
+  /**
+   * AI源支持的图片采样参数，按实际执行生成的引擎判断
+   */
+  getSupportedImageParams(aiSource: AISource): ImageParamName[] {
+    const capabilities = engineRegistry.create(aiSource).getCapabilities()
+    return capabilities.image ? capabilities.imageParams : []
+  }
+
+  /**
+   * AI源的图片模型是否由服务自身提供（如 Stable Diffusion、ComfyUI 的 checkpoint），需通过 listModels 查询
+   */
+  servesImageModels(aiSource: AISource): boolean {
+    const engine = engineRegistry.create(aiSource)
+    return engine.getCapabilities().image && !!engine.listModels
+  }
+
   /**
    * 验证模型是否支持当前任务
    */
@@ -215,39 +268,90 @@ class APIService {
   }
 
   /**
-   * 构建请求头
+   * 按ID获取AI请求源，没有同ID的AI源时使用默认AI源
    */
-  private buildHeaders(aiSource: AISource): Record<string, string> {
-    return EngineConfigManager.buildRequestHeaders(aiSource)
+  async getAISource(sourceId?: string): Promise<AISource | null> {
+    const sources = await this.getAllAISources()
+    return sources.find(source => source.id === sourceId) || await this.getDefaultAISource()
   }
 
   /**
-   * 构建API URL
+   * 查询本地服务（本地模型、Stable Diffusion、ComfyUI）上的模型
    */
-  private buildAPIUrl(aiSource: AISource, endpoint: string): string {
-    return EngineConfigManager.buildRequestUrl(aiSource, endpoint)
+  async listModels(aiSource: AISource, signal?: AbortSignal): Promise<string[]> {
+    const engine = engineRegistry.create(aiSource)
+    if (!engine.listModels) {
+      throw new Error(`AI源类型 ${aiSource.type} 不支持查询模型列表`)
+    }
+    return engine.listModels(signal)
   }
 
   /**
-   * 获取引擎实例
+   * 通过引擎注册表获取AI源的适配器，并检查是否具备所需能力
    */
-  private getEngineInstance(aiSource: AISource): any {
-    switch (aiSource.type) {
-      case AIEngineType.DOUBAO:
-        return new DoubaoEngine(aiSource)
-      case AIEngineType.JIMENG:
-        return new JimengEngine(aiSource)
-      default:
-        return null
+  private getEngine(aiSource: AISource, capability: 'chat' | 'image' | 'video'): EngineAdapter {
+    const engine = engineRegistry.create(aiSource)
+    if (!engine.getCapabilities()[capability]) {
+      const action = { chat: '对话', image: '图片生成', video: '视频生成' }[capability]
+      throw new Error(`AI源类型 ${aiSource.type} 暂不支持${action}功能`)
     }
+    return engine
+  }
+
+  /**
+   * 转换为引擎消息，带图片的消息使用 text + image_url 内容片段
+   */
+  private toEngineMessages(messages: ChatMessage[]): EngineMessage[] {
+    return messages.map(msg => ({
+      role: msg.role,
+      content: msg.images?.length
+        ? [
+            ...(msg.content ? [{ type: 'text' as const, text: msg.content }] : []),
+            ...msg.images.map(url => ({ type: 'image_url' as const, image_url: { url } }))
+          ]
+        : msg.content
+    }))
   }
 
   /**
-   * 发送聊天请求（支持新引擎）
+   * 提取填写了的采样参数，键名与引擎的 imageParams 对应；随机种子需为非负整数
+   */
+  private toSamplingParams(params: ImageGenerationParams): SamplingParams {
+    const sampling: SamplingParams = {}
+    if (params.negativePrompt?.trim()) sampling.negativePrompt = params.negativePrompt.trim()
+    if (params.seed !== undefined && String(params.seed).trim() !== '') {
+      const seed = Number(params.seed)
+      if (!Number.isInteger(seed) || seed < 0) {
+        throw new Error(`随机种子 "${params.seed}" 需为非负整数`)
+      }
+      sampling.seed = seed
+    }
+    if (params.steps !== undefined) sampling.steps = params.steps
+    if (params.cfgScale !== undefined) sampling.cfgScale = params.cfgScale
+    if (params.sampler) sampling.sampler = params.sampler
+    if (params.imageToImage && params.referenceImage) {
+      sampling.image = params.referenceImage
+      if (params.strength !== undefined) sampling.strength = params.strength
+    } else if (params.hiresFix) {
+      sampling.hiresFix = { upscaler: params.hiresUpscaler, denoisingStrength: params.denoisingStrength }
+    }
+    return sampling
+  }
+
+  /**
+   * 应用AI源的模型映射覆盖
+   */
+  private resolveModel(aiSource: AISource, modelId?: string): string | undefined {
+    return modelId ? aiSource.modelOverrides?.[modelId] || modelId : undefined
+  }
+
+  /**
+   * 发送聊天请求
    */
   async sendChatRequest(
     messages: ChatMessage[],
-    aiSource?: AISource
+    aiSource?: AISource,
+    modelId?: string
   ): Promise<APIResponse<string>> {
     try {
       const source = aiSource || await this.getDefaultAISource()
@@ -255,18 +359,15 @@ class APIService {
         return { success: false, error: "未找到可用的AI请求源" }
       }
 
-      // 尝试使用新引擎
-      const engine = this.getEngineInstance(source)
-      if (engine) {
-        const result = await engine.chat(messages)
-        return {
-          success: true,
-          data: result.content
-        }
+      const result = await this.getEngine(source, 'chat').generateText({
+        prompt: messages[messages.length - 1]?.content || '',
+        messages: this.toEngineMessages(messages),
+        model: this.resolveModel(source, modelId)
+      })
+      return {
+        success: true,
+        data: result.content
       }
-
-      // 回退到原有实现
-      return await this.legacySendChatRequest(messages, source)
     } catch (error) {
       console.error("聊天请求失败:", error)
       return {
@@ -277,226 +378,48 @@ class APIService {
   }
 
   /**
-   * 原有的聊天请求实现（保持向后兼容）
-   */
-  private async legacySendChatRequest(
-    messages: ChatMessage[],
-    aiSource: AISource
-  ): Promise<APIResponse<string>> {
-    const url = this.buildAPIUrl(aiSource, '/chat/completions')
-    const headers = this.buildHeaders(aiSource)
-
-    let requestBody: any
-
-    switch (aiSource.type) {
-      case AIEngineType.OPENAI:
-      case AIEngineType.CUSTOM:
-        requestBody = {
-          model: 'gpt-3.5-turbo',
-          messages: messages.map(msg => ({
-            role: msg.role,
-            content: msg.content
-          })),
-          temperature: 0.7
-        }
-        break
-      case AIEngineType.CLAUDE:
-        requestBody = {
-          model: 'claude-3-sonnet-20240229',
-          max_tokens: 2048,
-          messages: messages.map(msg => ({
-            role: msg.role,
-            content: msg.content
-          }))
-        }
-        break
-      case AIEngineType.GEMINI:
-        const finalUrl = `${url}/models/gemini-pro:generateContent?key=${aiSource.apiKey}`
-        requestBody = {
-          contents: messages.map(msg => ({
-            parts: [{ text: msg.content }],
-            role: msg.role === 'assistant' ? 'model' : 'user'
-          }))
-        }
-        
-        const geminiResponse = await fetch(finalUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(requestBody)
-        })
-        
-        if (!geminiResponse.ok) {
-          throw new Error(`Gemini API请求失败: ${geminiResponse.statusText}`)
-        }
-        
-        const geminiData = await geminiResponse.json()
-        return {
-          success: true,
-          data: geminiData.candidates?.[0]?.content?.parts?.[0]?.text || "无响应内容"
-        }
-      default:
-        throw new Error('不支持的引擎类型')
-    }
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(requestBody)
-    })
-
-    if (!response.ok) {
-      throw new Error(`API请求失败: ${response.statusText}`)
-    }
-
-    const data = await response.json()
-    
-    switch (aiSource.type) {
-      case AIEngineType.OPENAI:
-      case AIEngineType.CUSTOM:
-        return {
-          success: true,
-          data: data.choices?.[0]?.message?.content || "无响应内容"
-        }
-      case AIEngineType.CLAUDE:
-        return {
-          success: true,
-          data: data.content?.[0]?.text || "无响应内容"
-        }
-      default:
-        return {
-          success: false,
-          error: "不支持的引擎类型"
-        }
-    }
-  }
-
-  /**
-   * 聊天API调用 - 支持流式返回
+   * 聊天API调用 - 支持流式返回，引擎不支持流式输出时一次性返回完整内容
    */
   async *streamChat(
     messages: ChatMessage[], 
-    aiSource?: AISource
+    aiSource?: AISource,
+    modelId?: string,
+    signal?: AbortSignal,
+    options: ChatOptions = {}
   ): AsyncGenerator<string, void, unknown> {
     const source = aiSource || await this.getDefaultAISource()
     if (!source) {
       throw new Error('未找到可用的AI请求源')
     }
 
+    const engine = this.getEngine(source, 'chat')
+    const params = {
+      prompt: messages[messages.length - 1]?.content || '',
+      messages: this.toEngineMessages(messages),
+      model: this.resolveModel(source, modelId),
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      signal
+    }
+
     try {
-      let url: string
-      let body: any
-
-      switch (source.type) {
-        case AIEngineType.OPENAI:
-          url = this.buildAPIUrl(source, '/chat/completions')
-          body = {
-            model: 'gpt-3.5-turbo',
-            messages: messages.map(msg => ({
-              role: msg.role,
-              content: msg.content
-            })),
-            stream: true,
-            max_tokens: 1000
-          }
-          break
-
-        case AIEngineType.CLAUDE:
-          url = this.buildAPIUrl(source, '/messages')
-          body = {
-            model: 'claude-3-sonnet-20240229',
-            messages: messages.map(msg => ({
-              role: msg.role,
-              content: msg.content
-            })),
-            max_tokens: 1000,
-            stream: true
+      if (engine.streamText) {
+        for await (const chunk of engine.streamText(params)) {
+          if (chunk.delta) {
+            yield chunk.delta
           }
-          break
-
-        case AIEngineType.GEMINI:
-          url = this.buildAPIUrl(source, `/models/gemini-pro:streamGenerateContent?key=${source.apiKey}`)
-          body = {
-            contents: messages.map(msg => ({
-              role: msg.role === 'assistant' ? 'model' : 'user',
-              parts: [{ text: msg.content }]
-            }))
+          if (chunk.usage) {
+            options.onUsage?.(chunk.usage)
           }
-          break
-
-        default:
-          // 自定义引擎默认使用OpenAI格式
-          url = this.buildAPIUrl(source, '/chat/completions')
-          body = {
-            model: 'gpt-3.5-turbo',
-            messages: messages.map(msg => ({
-              role: msg.role,
-              content: msg.content
-            })),
-            stream: true
-          }
-      }
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: this.buildHeaders(source),
-        body: JSON.stringify(body)
-      })
-
-      if (!response.ok) {
-        throw new Error(`API请求失败: ${response.status} ${response.statusText}`)
+        }
+        return
       }
-
-      const reader = response.body?.getReader()
-      if (!reader) {
-        throw new Error('无法读取响应流')
+      const result = await engine.generateText(params)
+      if (result.usage) {
+        options.onUsage?.(result.usage)
       }
-
-      const decoder = new TextDecoder()
-      let buffer = ''
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read()
-          if (done) break
-
-          buffer += decoder.decode(value, { stream: true })
-          const lines = buffer.split('\n')
-          buffer = lines.pop() || ''
-
-          for (const line of lines) {
-            if (line.trim() === '') continue
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6)
-              if (data === '[DONE]') return
-
-              try {
-                const parsed = JSON.parse(data)
-                let content = ''
-
-                switch (source.type) {
-                  case AIEngineType.OPENAI:
-                  case AIEngineType.CUSTOM:
-                    content = parsed.choices?.[0]?.delta?.content || ''
-                    break
-                  case AIEngineType.CLAUDE:
-                    content = parsed.delta?.text || ''
-                    break
-                  case AIEngineType.GEMINI:
-                    content = parsed.candidates?.[0]?.content?.parts?.[0]?.text || ''
-                    break
-                }
-
-                if (content) {
-                  yield content
-                }
-              } catch (e) {
-                console.warn('解析流数据失败:', e)
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock()
+      if (result.content) {
+        yield result.content
       }
     } catch (error) {
       console.error('聊天API调用失败:', error)
@@ -504,20 +427,20 @@ class APIService {
     }
   }
 
-  // 其他方法保持不变...
   async generateImages(
     params: ImageGenerationParams,
     aiSource?: AISource,
-    modelId?: string
-  ): Promise<APIResponse<string[]>> {
+    modelId?: string,
+    options: ImageGenerationOptions = {}
+  ): Promise<ImageGenerationResult> {
     const source = aiSource || await this.getDefaultAISource()
     if (!source) {
       return { success: false, error: '未找到可用的AI请求源' }
     }
 
-    // 验证模型能力
+    // 验证模型能力，服务自身提供的模型不在模型目录中，由引擎按服务上的模型列表选用
     if (modelId) {
-      if (!this.validateModelForTask(modelId, 'image')) {
+      if (!this.servesImageModels(source) && !this.validateModelForTask(modelId, 'image')) {
         return { success: false, error: `模型 ${modelId} 不支持图片生成功能` }
       }
     } else {
@@ -530,115 +453,46 @@ class APIService {
     }
 
     try {
-      // 使用即梦引擎生成图片
-      if (source.type === AIEngineType.JIMENG) {
-        const engine = new JimengEngine(source)
-        const imageUrls = await engine.generateImages(params.prompt, {
-          count: params.count,
+      const engine = this.getEngine(source, 'image')
+      const sampling = this.toSamplingParams(params)
+      const supported = engine.getCapabilities().imageParams
+      const ignoredParams = (Object.keys(sampling) as ImageParamName[]).filter(name => !supported.includes(name))
+
+      // 即梦为异步任务：登记到生成任务跟踪器，关闭页面后由后台继续查询结果
+      if (engine instanceof JimengEngineAdapter) {
+        const task = await engine.submitImageTask({
+          prompt: params.prompt,
+          model: this.resolveModel(source, modelId),
           size: params.size,
-          modelId
+          ...sampling
         })
-        return { success: true, data: imageUrls }
-      }
-      
-      // 使用OpenAI DALL-E生成图片
-      if (source.type === AIEngineType.OPENAI || source.type === AIEngineType.CUSTOM) {
-        const url = this.buildAPIUrl(source, '/images/generations')
-        const headers = this.buildHeaders(source)
-        
-        const requestBody: any = {
-          model: modelId || 'dall-e-3',
+        const urls = await this.waitForTrackedJob(source, 'image', task, {
           prompt: params.prompt,
-          n: Math.min(params.count, 10), // DALL-E最多10张
-          size: this.convertToDalleSize(params.size),
-          quality: params.style === 'vivid' ? 'hd' : 'standard'
-        }
-        
-        // 如果是dall-e-3，支持style参数
-        if (modelId?.includes('dall-e-3')) {
-          requestBody.style = params.style === 'natural' ? 'natural' : 'vivid'
-        }
-        
-        const response = await fetch(url, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(requestBody)
+          model: modelId,
+          size: params.size,
+          style: params.style,
+          count: params.count,
+          sourceImageUrl: sampling.image
         })
-        
-        if (!response.ok) {
-          const errorData = await response.json()
-          throw new Error(errorData.error?.message || `API请求失败: ${response.statusText}`)
-        }
-        
-        const data = await response.json()
-        const imageUrls = data.data.map((item: any) => item.url)
-        
-        return { success: true, data: imageUrls }
-      }
-      
-      // 使用Google Gemini生成图片
-      if (source.type === AIEngineType.GEMINI) {
-        // Gemini的图片生成API需要不同的端点
-        const model = this.getModelById(modelId)
-        if (model?.id.includes('imagen')) {
-          const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelId}:generateImage?key=${source.apiKey}`
-          
-          const response = await fetch(url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              prompt: params.prompt,
-              count: params.count,
-              size: this.convertToGeminiSize(params.size)
-            })
-          })
-          
-          if (!response.ok) {
-            const errorData = await response.json()
-            throw new Error(errorData.error?.message || `Gemini API请求失败: ${response.statusText}`)
-          }
-          
-          const data = await response.json()
-          const imageUrls = data.generatedImages?.map((item: any) => item.image) || []
-          
-          return { success: true, data: imageUrls }
-        }
+        return { success: true, data: urls, ignoredParams }
       }
-      
-      // 不支持的引擎类型
-      throw new Error(`AI源类型 ${source.type} 暂不支持图片生成功能，请配置支持图片生成的AI源（如OpenAI DALL-E、即梦等）`)
+
+      const result = await engine.generateImage({
+        prompt: params.prompt,
+        model: this.resolveModel(source, modelId),
+        size: params.size,
+        n: params.count,
+        style: params.style,
+        quality: params.style === 'vivid' ? 'hd' : 'standard',
+        ...sampling,
+        onProgress: options.onProgress
+      })
+      return { success: true, data: result.urls || [result.url], seeds: result.seeds, ignoredParams }
     } catch (error) {
       console.error('图片生成API调用失败:', error)
       return { success: false, error: error instanceof Error ? error.message : '未知错误' }
     }
   }
-  
-  /**
-   * 转换尺寸为DALL-E支持的格式
-   */
-  private convertToDalleSize(size: string): string {
-    const sizeMap: Record<string, string> = {
-      '256x256': '256x256',
-      '512x512': '512x512',
-      '1024x1024': '1024x1024',
-      '1024x1792': '1792x1024',
-      '1792x1024': '1792x1024'
-    }
-    return sizeMap[size] || '1024x1024'
-  }
-  
-  /**
-   * 转换尺寸为Gemini支持的格式
-   */
-  private convertToGeminiSize(size: string): string {
-    const sizeMap: Record<string, string> = {
-      '512x512': '512x512',
-      '1024x1024': '1024x1024',
-      '1152x896': '1024x1024',
-      '896x1152': '1024x1024'
-    }
-    return sizeMap[size] || '1024x1024'
-  }
 
   async generateVideos(
     params: VideoGenerationParams,
@@ -665,32 +519,66 @@ class APIService {
     }
 
     try {
-      // 使用即梦引擎生成视频
-      if (source.type === AIEngineType.JIMENG) {
-        const engine = new JimengEngine(source)
-        const videoUrls = await engine.generateVideos(params.prompt, {
-          sourceImageUrl: params.sourceImageUrl,
-          duration: params.duration,
-          count: params.count,
-          modelId
+      const engine = this.getEngine(source, 'video')
+      const videos = await Promise.all(
+        Array.from({ length: Math.max(1, params.count || 1) }, async (): Promise<{ url: string; thumbnailUrl?: string }> => {
+          if (!(engine instanceof JimengEngineAdapter)) {
+            return engine.generateVideo({
+              prompt: params.prompt,
+              model: this.resolveModel(source, modelId),
+              image: params.sourceImageUrl,
+              duration: params.duration
+            })
+          }
+
+          const task = await engine.submitVideoTask({
+            prompt: params.prompt,
+            model: this.resolveModel(source, modelId),
+            image: params.sourceImageUrl
+          })
+          const [url] = await this.waitForTrackedJob(source, 'video', task, {
+            prompt: params.prompt,
+            model: modelId,
+            style: params.style,
+            count: 1,
+            duration: params.duration,
+            sourceImageUrl: params.sourceImageUrl
+          })
+          return { url }
         })
-        
-        const videos = videoUrls.map((url, index) => ({
-          url,
-          thumbnailUrl: params.sourceImageUrl || `https://picsum.photos/320/240?random=${Date.now() + index}`
+      )
+      
+      return {
+        success: true,
+        data: videos.map(video => ({
+          url: video.url,
+          thumbnailUrl: video.thumbnailUrl || params.sourceImageUrl
         }))
-        
-        return { success: true, data: videos }
       }
-      
-      // 不支持的引擎类型，直接抛出错误
-      throw new Error(`AI源类型 ${source.type} 暂不支持视频生成功能，请配置支持视频生成的AI源（如即梦）`)
     } catch (error) {
       console.error('视频生成API调用失败:', error)
       return { success: false, error: error instanceof Error ? error.message : '未知错误' }
     }
   }
 
+  /**
+   * 登记异步任务并等待结果，取回结果后删除任务记录
+   */
+  private async waitForTrackedJob(
+    source: AISource,
+    type: GenerationJobType,
+    task: JimengTaskHandle,
+    params: GenerationJobParams
+  ): Promise<string[]> {
+    const job = await generationJobTracker.track(source, type, task, params)
+    const result = await generationJobTracker.waitFor(job.id)
+    await generationJobTracker.remove(job.id)
+    if (result.status === 'failed') {
+      throw new Error(result.error || '生成失败')
+    }
+    return result.urls || []
+  }
+
   async testConnection(aiSource: AISource): Promise<APIResponse<boolean>> {
     try {
       const testMessages: ChatMessage[] = [
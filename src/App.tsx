@@ -8,6 +8,7 @@ import Text2ImageTab from './components/tabs/Text2ImageTab';
 import Image2VideoTab from './components/tabs/Image2VideoTab';
 import { WorkflowRunner } from './components/WorkflowRunner';
 import { MessageOutlined, PictureOutlined, VideoCameraOutlined, RobotOutlined } from '@ant-design/icons';
+import { AIEngineType } from './config/engines';
 
 const App: React.FC = () => {
   const { platform } = useUI();
@@ -18,9 +19,9 @@ const App: React.FC = () => {
     if (aiSources.length === 0) {
       addAISource({
         name: 'OpenAI GPT-4',
-        type: 'openai',
+        type: AIEngineType.OPENAI,
         apiKey: '',
-        enabled: true,
+        isDefault: true,
         models: ['gpt-4', 'gpt-4-turbo'],
       });
     }
@@ -62,7 +62,7 @@ export function createPlatformAdapter(): PlatformAdapter {
       new BrowserStorageAdapter(),
       new BrowserNetworkAdapter(),
       new BrowserUIAdapter(),
-      new BrowserNativeAdapter()
+      new ExtensionNativeAdapter()
     );
   }
   
@@ -277,6 +277,28 @@ class BrowserNativeAdapter {
   };
 }
 
+// 扩展环境（含后台 service worker）使用 chrome.notifications 发送通知
+class ExtensionNativeAdapter extends BrowserNativeAdapter {
+  notifications = {
+    async requestPermission(): Promise<boolean> {
+      // 通知权限在 manifest 中声明
+      return !!chrome.notifications;
+    },
+
+    async send(title: string, body: string, icon?: string): Promise<void> {
+      if (!chrome.notifications) return;
+      const icons = chrome.runtime.getManifest().icons || {};
+      const iconPath = icon || icons['128'] || Object.values(icons)[0];
+      await chrome.notifications.create({
+        type: 'basic',
+        title,
+        message: body,
+        iconUrl: iconPath ? chrome.runtime.getURL(iconPath) : ''
+      });
+    }
+  };
+}
+
 class MobileNativeAdapter extends BrowserNativeAdapter {
   filesystem = {
     ...super.filesystem,
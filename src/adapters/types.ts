@@ -46,28 +46,102 @@ export interface PlatformAdapter {
   isDesktop: boolean;
 }
 
+// 图片生成的可选采样参数，对应 generateImage 的同名参数（image 为图生图参考图）
+export type ImageParamName = 'negativePrompt' | 'seed' | 'steps' | 'cfgScale' | 'sampler' | 'hiresFix' | 'image' | 'strength';
+
+// AI引擎具备的能力
+export interface EngineCapabilities {
+  chat: boolean; // 文本对话
+  stream: boolean; // 流式文本输出
+  image: boolean; // 图片生成
+  video: boolean; // 视频生成
+  imageParams: ImageParamName[]; // 图片生成支持的采样参数，未列出的参数生成时忽略
+}
+
+// 文本生成的 token 用量
+export interface EngineUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+// 流式输出片段：delta 为增量文本，流结束前的最后一段附带本次调用的用量
+export interface EngineStreamChunk {
+  delta?: string;
+  usage?: EngineUsage;
+}
+
+// 生成进度：percent 为 0-100，服务端报告采样步数时附带当前步数和总步数
+export interface EngineProgress {
+  percent: number;
+  step?: number;
+  totalSteps?: number;
+}
+
+// 多模态消息内容片段（OpenAI 兼容格式），图片为链接或 data URL
+export type EngineContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+// 对话消息，带图片的消息 content 为内容片段列表，需选择支持图片输入的模型
+export interface EngineMessage {
+  role: string;
+  content: string | EngineContentPart[];
+}
+
 // AI引擎适配器接口
 export interface EngineAdapter {
+  getCapabilities(): EngineCapabilities;
+
   generateText(params: {
     prompt: string;
     model?: string;
     temperature?: number;
     maxTokens?: number;
-    messages?: Array<{ role: string; content: string }>;
-  }): Promise<{ content: string; usage?: any }>;
+    messages?: EngineMessage[];
+    jsonMode?: boolean; // 请求 JSON 格式输出，不支持的引擎忽略
+    signal?: AbortSignal;
+  }): Promise<{ content: string; usage?: EngineUsage }>;
 
+  // 流式生成文本，逐段返回增量内容和最终用量，通过 signal 取消；未实现时调用方回退到 generateText
+  streamText?(params: {
+    prompt: string;
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    messages?: EngineMessage[];
+    jsonMode?: boolean; // 请求 JSON 格式输出，不支持的引擎忽略
+    signal?: AbortSignal;
+  }): AsyncIterable<EngineStreamChunk>;
+
+  // 采样相关参数（负面提示词、种子、步数、CFG、采样器、高清修复、图生图）由支持的引擎使用，见 EngineCapabilities.imageParams
   generateImage(params: {
     prompt: string;
     model?: string;
     size?: string;
     quality?: string;
+    style?: string;
     n?: number;
-  }): Promise<{ url: string; revisedPrompt?: string }>;
+    negativePrompt?: string;
+    seed?: number; // 未指定时随机
+    steps?: number;
+    cfgScale?: number;
+    sampler?: string; // 采样器，按 WebUI 命名，如 DPM++ 2M Karras
+    hiresFix?: { upscaler?: string; denoisingStrength?: number; scale?: number }; // 高清修复，仅文生图
+    image?: string; // 参考图（data URL），提供时为图生图
+    strength?: number; // 图生图重绘强度 0-1
+    onProgress?: (progress: EngineProgress) => void;
+    signal?: AbortSignal;
+  }): Promise<{ url: string; urls?: string[]; revisedPrompt?: string; seeds?: number[] }>; // urls 为生成的全部图片，url 为第一张；seeds 与 urls 一一对应
 
   generateVideo(params: {
     prompt: string;
     model?: string;
     image?: string;
     duration?: number;
+    signal?: AbortSignal;
   }): Promise<{ url: string; thumbnailUrl?: string }>;
+
+  // 查询服务上可用的模型，本地服务（本地模型、Stable Diffusion、ComfyUI）实现
+  listModels?(signal?: AbortSignal): Promise<string[]>;
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * 扩展后台 service worker
+ * 处理工作流定时任务：监听 chrome.alarms 并通过工作流执行器运行到期的计划
+ * 查询即梦等异步生成任务的结果，页面关闭后任务仍在后台完成
+ * 执行历史和自定义工作流的写入由扩展页面转发到这里，与定时运行的写入串行
+ */
+
+import { workflowScheduler } from '../services/workflowScheduler';
+import { generationJobTracker } from '../services/generationJobs';
+import { workflowHistory } from '../services/workflowHistory';
+import { workflowStore } from '../services/workflowStore';
+
+workflowHistory.serveForwardedWrites();
+workflowStore.serveForwardedWrites();
+
+workflowScheduler.start().catch(error => {
+  console.error('定时任务启动失败:', error);
+});
+
+generationJobTracker.start().catch(error => {
+  console.error('生成任务轮询启动失败:', error);
+});
@@ -13,6 +13,9 @@ export enum AIEngineType {
   GEMINI = "gemini",
   DOUBAO = "doubao", // 火山引擎豆包
   JIMENG = "jimeng", // 火山引擎即梦
+  LOCAL = "local", // 本地模型服务（Ollama、LM Studio、vLLM 等 OpenAI 兼容接口）
+  STABLE_DIFFUSION = "stable_diffusion", // Stable Diffusion WebUI（AUTOMATIC1111）
+  COMFYUI = "comfyui",
   CUSTOM = "custom"
 }
 
@@ -56,9 +59,14 @@ export interface AISource {
   name: string
   type: AIEngineType
   apiKey: string
+  accessKeyId?: string // 火山引擎视觉服务（即梦）签名使用的 AccessKey ID
+  secretAccessKey?: string // 火山引擎视觉服务（即梦）签名使用的 Secret Access Key
   baseUrl?: string // 可选，用于自定义端点
   isDefault: boolean
-  modelOverrides?: Record<string, string> // 模型映射覆盖
+  modelOverrides?: Record<string, string> // 模型映射覆盖，如豆包将模型ID映射到方舟接入点ID（ep-xxxx）
+  models?: string[] // 本地服务（本地模型、Stable Diffusion、ComfyUI）上查询到的模型ID或 checkpoint
+  defaultModel?: string // 本地服务选用的模型，请求的模型不在服务上时使用
+  comfyWorkflow?: string // ComfyUI 自定义工作流（API 格式 JSON），{{prompt}} 等占位符替换为生成参数
 }
 
 // 预定义的AI引擎配置
@@ -175,7 +183,7 @@ export const AI_ENGINE_CONFIGS: Record<AIEngineType, AIEngineConfig> = {
     name: "Google Gemini",
     type: AIEngineType.GEMINI,
     baseUrl: "https://generativelanguage.googleapis.com/v1beta",
-    apiKeyName: "key",
+    apiKeyName: "x-goog-api-key",
     models: [
       {
         id: "gemini-2.0",
@@ -284,8 +292,14 @@ export const AI_ENGINE_CONFIGS: Record<AIEngineType, AIEngineConfig> = {
         supportsBatch: true
       },
       {
-        id: "jimeng_i2v_v10",
-        name: "即梦图生视频1.0",
+        id: "jimeng_vgfm_t2v_l20",
+        name: "即梦文生视频",
+        type: "video",
+        supportsBatch: true
+      },
+      {
+        id: "jimeng_vgfm_i2v_l20",
+        name: "即梦图生视频",
         type: "video",
         supportsBatch: true
       }
@@ -304,6 +318,64 @@ export const AI_ENGINE_CONFIGS: Record<AIEngineType, AIEngineConfig> = {
     }
   },
 
+  [AIEngineType.LOCAL]: {
+    id: "local",
+    name: "本地模型",
+    type: AIEngineType.LOCAL,
+    baseUrl: "http://localhost:11434/v1", // Ollama 默认地址，LM Studio 为 http://localhost:1234/v1
+    apiKeyName: "Authorization",
+    models: [], // 模型从本地服务查询
+    supportedFeatures: [
+      AIEngineFeature.TEXT_GENERATION,
+      AIEngineFeature.CHAT
+    ],
+    headers: {
+      "Content-Type": "application/json"
+    },
+    requestConfig: {
+      timeout: 300000, // 本地模型首次加载和生成较慢
+      retries: 1
+    }
+  },
+
+  [AIEngineType.STABLE_DIFFUSION]: {
+    id: "stable_diffusion",
+    name: "Stable Diffusion WebUI",
+    type: AIEngineType.STABLE_DIFFUSION,
+    baseUrl: "http://127.0.0.1:7860", // 需以 --api 参数启动 WebUI
+    apiKeyName: "Authorization",
+    models: [], // checkpoint 从 WebUI 查询
+    supportedFeatures: [
+      AIEngineFeature.IMAGE_GENERATION
+    ],
+    headers: {
+      "Content-Type": "application/json"
+    },
+    requestConfig: {
+      timeout: 600000, // 本地生成较慢，高清修复和批量生成需要更长时间
+      retries: 1
+    }
+  },
+
+  [AIEngineType.COMFYUI]: {
+    id: "comfyui",
+    name: "ComfyUI",
+    type: AIEngineType.COMFYUI,
+    baseUrl: "http://127.0.0.1:8188",
+    apiKeyName: "Authorization",
+    models: [], // checkpoint 从 ComfyUI 查询
+    supportedFeatures: [
+      AIEngineFeature.IMAGE_GENERATION
+    ],
+    headers: {
+      "Content-Type": "application/json"
+    },
+    requestConfig: {
+      timeout: 600000,
+      retries: 1
+    }
+  },
+
   [AIEngineType.CUSTOM]: {
     id: "custom",
     name: "自定义引擎",
@@ -479,15 +551,18 @@ export class EngineConfigManager {
   }
 
   /**
-   * 根据引擎类型映射到平台名称
+   * 根据引擎类型映射到平台名称，与 platformModels 的平台名一致
    */
   static mapEngineTypeToPlatform(type: AIEngineType): string {
     const mapping: Record<AIEngineType, string> = {
       [AIEngineType.OPENAI]: 'OpenAI',
-      [AIEngineType.CLAUDE]: 'Claude',
-      [AIEngineType.GEMINI]: 'Gemini',
+      [AIEngineType.CLAUDE]: 'Anthropic',
+      [AIEngineType.GEMINI]: 'Google',
       [AIEngineType.DOUBAO]: 'Doubao',
       [AIEngineType.JIMENG]: 'Jimeng',
+      [AIEngineType.LOCAL]: 'Local',
+      [AIEngineType.STABLE_DIFFUSION]: 'StabilityAI',
+      [AIEngineType.COMFYUI]: 'StabilityAI',
       [AIEngineType.CUSTOM]: 'Custom'
     }
     return mapping[type] || 'Custom'
@@ -509,6 +584,9 @@ export const ENGINE_TYPE_OPTIONS = [
   { value: AIEngineType.GEMINI, label: "Google Gemini" },
   { value: AIEngineType.DOUBAO, label: "火山引擎豆包" },
   { value: AIEngineType.JIMENG, label: "火山引擎即梦" },
+  { value: AIEngineType.LOCAL, label: "本地模型（Ollama / LM Studio / vLLM）" },
+  { value: AIEngineType.STABLE_DIFFUSION, label: "Stable Diffusion WebUI" },
+  { value: AIEngineType.COMFYUI, label: "ComfyUI" },
   { value: AIEngineType.CUSTOM, label: "自定义引擎" }
 ]
 
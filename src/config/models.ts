@@ -21,6 +21,33 @@ export interface ModelCapabilities {
   maxOutputTokens?: number;
 }
 
+// 计价币种
+export type ModelCurrency = 'USD' | 'CNY';
+
+// 模型参考价格，用于工作流费用预估，以平台最新价格为准
+export interface ModelPricing {
+  /** 计价币种 */
+  currency: ModelCurrency;
+  /** 每千输入token价格 */
+  inputPer1K?: number;
+  /** 每千输出token价格 */
+  outputPer1K?: number;
+  /** 每张图片价格 */
+  perImage?: number;
+  /** 每个视频价格 */
+  perVideo?: number;
+}
+
+// 模型参考速度，用于工作流耗时预估
+export interface ModelSpeed {
+  /** 每秒输出token数 */
+  outputTokensPerSecond?: number;
+  /** 生成一张图片的秒数 */
+  secondsPerImage?: number;
+  /** 生成一个视频的秒数 */
+  secondsPerVideo?: number;
+}
+
 // 模型信息接口
 export interface ModelInfo {
   /** 模型ID */
@@ -39,6 +66,12 @@ export interface ModelInfo {
   version?: string;
   /** 是否已弃用 */
   deprecated?: boolean;
+  /** 引擎配置中使用的其他模型ID */
+  aliases?: string[];
+  /** 参考价格 */
+  pricing?: ModelPricing;
+  /** 参考速度 */
+  speed?: ModelSpeed;
 }
 
 // 平台模型配置
@@ -62,6 +95,8 @@ const openaiModels: ModelInfo[] = [
       maxInputTokens: 200000,
       maxOutputTokens: 8192
     },
+    pricing: { currency: 'USD', inputPer1K: 0.00125, outputPer1K: 0.01 },
+    speed: { outputTokensPerSecond: 50 },
     isCustom: false,
     version: '2025-01-01'
   },
@@ -79,6 +114,8 @@ const openaiModels: ModelInfo[] = [
       maxInputTokens: 128000,
       maxOutputTokens: 4096
     },
+    pricing: { currency: 'USD', inputPer1K: 0.0025, outputPer1K: 0.01 },
+    speed: { outputTokensPerSecond: 80 },
     isCustom: false,
     version: '2024-08-06'
   },
@@ -96,6 +133,8 @@ const openaiModels: ModelInfo[] = [
       maxInputTokens: 128000,
       maxOutputTokens: 16384
     },
+    pricing: { currency: 'USD', inputPer1K: 0.00015, outputPer1K: 0.0006 },
+    speed: { outputTokensPerSecond: 100 },
     isCustom: false,
     version: '2024-07-18'
   },
@@ -145,6 +184,8 @@ const openaiModels: ModelInfo[] = [
       supportsStreaming: false,
       supportsBatch: false
     },
+    pricing: { currency: 'USD', perImage: 0.04 },
+    speed: { secondsPerImage: 15 },
     isCustom: false
   }
 ];
@@ -165,6 +206,8 @@ const claudeModels: ModelInfo[] = [
       maxInputTokens: 200000,
       maxOutputTokens: 8192
     },
+    pricing: { currency: 'USD', inputPer1K: 0.003, outputPer1K: 0.015 },
+    speed: { outputTokensPerSecond: 60 },
     isCustom: false,
     version: '2025-01-01'
   },
@@ -182,6 +225,9 @@ const claudeModels: ModelInfo[] = [
       maxInputTokens: 200000,
       maxOutputTokens: 4096
     },
+    aliases: ['claude-3-5-sonnet-20240620'],
+    pricing: { currency: 'USD', inputPer1K: 0.003, outputPer1K: 0.015 },
+    speed: { outputTokensPerSecond: 60 },
     isCustom: false,
     version: '2024-06-20'
   },
@@ -199,6 +245,9 @@ const claudeModels: ModelInfo[] = [
       maxInputTokens: 100000,
       maxOutputTokens: 4096
     },
+    aliases: ['claude-3-5-haiku-20240620'],
+    pricing: { currency: 'USD', inputPer1K: 0.0008, outputPer1K: 0.004 },
+    speed: { outputTokensPerSecond: 100 },
     isCustom: false,
     version: '2024-06-20'
   }
@@ -223,6 +272,8 @@ const geminiModels: ModelInfo[] = [
       supportsAudioInput: true,
       supportsVideoInput: true
     },
+    pricing: { currency: 'USD', inputPer1K: 0.0001, outputPer1K: 0.0004 },
+    speed: { outputTokensPerSecond: 150 },
     isCustom: false,
     version: '2025-01-01'
   },
@@ -240,6 +291,8 @@ const geminiModels: ModelInfo[] = [
       maxInputTokens: 1000000,
       maxOutputTokens: 8192
     },
+    pricing: { currency: 'USD', inputPer1K: 0.00125, outputPer1K: 0.005 },
+    speed: { outputTokensPerSecond: 60 },
     isCustom: false,
     version: '2024-05-14'
   },
@@ -257,6 +310,8 @@ const geminiModels: ModelInfo[] = [
       maxInputTokens: 1000000,
       maxOutputTokens: 8192
     },
+    pricing: { currency: 'USD', inputPer1K: 7.5e-05, outputPer1K: 0.0003 },
+    speed: { outputTokensPerSecond: 150 },
     isCustom: false,
     version: '2024-05-14'
   },
@@ -274,6 +329,8 @@ const geminiModels: ModelInfo[] = [
       maxImageSize: '2048x2048',
       imageQuality: 'ultra'
     },
+    pricing: { currency: 'USD', perImage: 0.03 },
+    speed: { secondsPerImage: 10 },
     isCustom: false,
     version: '2025-01-15'
   }
@@ -295,6 +352,8 @@ const doubaoModels: ModelInfo[] = [
       maxInputTokens: 128000,
       maxOutputTokens: 8192
     },
+    pricing: { currency: 'CNY', inputPer1K: 0.005, outputPer1K: 0.009 },
+    speed: { outputTokensPerSecond: 40 },
     isCustom: false,
     version: '2025-01-01'
   },
@@ -312,6 +371,8 @@ const doubaoModels: ModelInfo[] = [
       maxInputTokens: 4096,
       maxOutputTokens: 4096
     },
+    pricing: { currency: 'CNY', inputPer1K: 0.0008, outputPer1K: 0.002 },
+    speed: { outputTokensPerSecond: 50 },
     isCustom: false
   },
   {
@@ -328,8 +389,46 @@ const doubaoModels: ModelInfo[] = [
       maxInputTokens: 32000,
       maxOutputTokens: 4096
     },
+    pricing: { currency: 'CNY', inputPer1K: 0.0003, outputPer1K: 0.0006 },
+    speed: { outputTokensPerSecond: 80 },
     isCustom: false,
     version: '2025-01-01'
+  },
+  {
+    id: 'doubao-pro-32k',
+    name: '豆包 Pro 32K',
+    description: '火山引擎豆包专业版模型',
+    platform: 'Doubao',
+    capabilities: {
+      supportsImageInput: true,
+      canGenerateImages: false,
+      canGenerateVideos: false,
+      supportsStreaming: true,
+      supportsBatch: true,
+      maxInputTokens: 32000,
+      maxOutputTokens: 4096
+    },
+    pricing: { currency: 'CNY', inputPer1K: 0.0008, outputPer1K: 0.002 },
+    speed: { outputTokensPerSecond: 50 },
+    isCustom: false
+  },
+  {
+    id: 'doubao-lite-4k',
+    name: '豆包 Lite 4K',
+    description: '火山引擎豆包轻量版模型',
+    platform: 'Doubao',
+    capabilities: {
+      supportsImageInput: false,
+      canGenerateImages: false,
+      canGenerateVideos: false,
+      supportsStreaming: true,
+      supportsBatch: true,
+      maxInputTokens: 4096,
+      maxOutputTokens: 4096
+    },
+    pricing: { currency: 'CNY', inputPer1K: 0.0003, outputPer1K: 0.0006 },
+    speed: { outputTokensPerSecond: 80 },
+    isCustom: false
   }
 ];
 
@@ -348,6 +447,8 @@ const openSourceModels: ModelInfo[] = [
       supportsBatch: true,
       maxImageSize: '2048x2048'
     },
+    pricing: { currency: 'USD', perImage: 0.065 },
+    speed: { secondsPerImage: 10 },
     isCustom: false,
     version: '3.0'
   },
@@ -382,6 +483,8 @@ const openSourceModels: ModelInfo[] = [
       maxVideoLength: 16,
       videoResolution: '1080p'
     },
+    pricing: { currency: 'USD', perVideo: 0.5 },
+    speed: { secondsPerVideo: 90 },
     isCustom: false,
     version: '3.0'
   },
@@ -418,6 +521,9 @@ const jimengModels: ModelInfo[] = [
       supportsStreaming: false,
       supportsBatch: true
     },
+    aliases: ['jimeng_t2i_v30'],
+    pricing: { currency: 'CNY', perImage: 0.2 },
+    speed: { secondsPerImage: 10 },
     isCustom: false,
     version: '3.0'
   },
@@ -433,6 +539,26 @@ const jimengModels: ModelInfo[] = [
       supportsStreaming: false,
       supportsBatch: true
     },
+    aliases: ['jimeng_vgfm_i2v_l20', 'jimeng_i2v_v10'],
+    pricing: { currency: 'CNY', perVideo: 2 },
+    speed: { secondsPerVideo: 90 },
+    isCustom: false
+  },
+  {
+    id: 'jimeng-text2video',
+    name: '即梦文生视频',
+    description: '火山引擎即梦文生视频模型',
+    platform: 'Jimeng',
+    capabilities: {
+      supportsImageInput: false,
+      canGenerateImages: false,
+      canGenerateVideos: true,
+      supportsStreaming: false,
+      supportsBatch: true
+    },
+    aliases: ['jimeng_vgfm_t2v_l20'],
+    pricing: { currency: 'CNY', perVideo: 2 },
+    speed: { secondsPerVideo: 90 },
     isCustom: false
   }
 ];
@@ -504,10 +630,10 @@ export class ModelManager {
   }
 
   /**
-   * 根据ID获取模型
+   * 根据ID获取模型，也匹配引擎配置中使用的别名
    */
   getModelById(id: string): ModelInfo | undefined {
-    return this.getAllModels().find(model => model.id === id);
+    return this.getAllModels().find(model => model.id === id || model.aliases?.includes(id));
   }
 
   /**
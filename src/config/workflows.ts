@@ -3,14 +3,88 @@
  * 定义了内容创作到发布的完整自动化流程
  */
 
+// 步骤输出结构（JSON Schema 子集）
+export interface OutputSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, OutputSchema>;
+  required?: string[];
+  items?: OutputSchema;
+  enum?: Array<string | number>;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+// 步骤执行条件的比较方式
+export type StepConditionOperator =
+  | 'exists'
+  | 'notExists'
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'lengthGreaterThan'
+  | 'lengthLessThan';
+
+// 步骤执行条件：根据运行参数或上游输出决定是否执行，不满足时跳过
+export interface StepCondition {
+  path: string; // 变量路径，如 content、title.options
+  operator: StepConditionOperator;
+  value?: string | number;
+}
+
+// 循环步骤配置：对列表中的每一项依次执行子步骤
+export interface WorkflowMapConfig {
+  itemsPath: string; // 列表来源路径，如 videoScenes.scenes
+  itemName: string; // 子步骤模板中引用当前项的变量名
+  steps: WorkflowStep[]; // 每一项按顺序执行的子步骤
+  concurrency?: number; // 同时处理的项数，默认 1
+}
+
+// 人工审核步骤配置：暂停执行，由用户修改、通过或驳回上游输出
+export interface WorkflowReviewConfig {
+  keys: string[]; // 需要审核的上游输出键
+  instructions?: string; // 展示给审核人的说明
+}
+
+// 步骤失败后的重试策略
+export interface WorkflowRetryPolicy {
+  maxRetries: number; // 失败后重试的次数，主引擎和备用引擎各自计算
+  backoff?: 'fixed' | 'exponential'; // 重试间隔：固定或按次数翻倍，默认 exponential
+  delayMs?: number; // 首次重试前的等待时间，默认 1000 毫秒
+}
+
+// 主引擎重试用尽后改用的引擎，未指定的字段沿用步骤的配置
+export interface WorkflowStepFallback {
+  engine?: string;
+  sourceId?: string;
+  model?: string;
+}
+
 export interface WorkflowStep {
   id: string;
   name: string;
   description: string;
-  promptType: 'content' | 'title' | 'description' | 'cover' | 'video';
+  promptType: 'content' | 'title' | 'description' | 'cover' | 'video' | 'image' | 'image-to-video' | 'map' | 'review';
   template?: string;
   dependencies?: string[];
   outputKey: string;
+  outputSchema?: OutputSchema; // 声明后按 JSON 解析并校验输出，结果以对象形式保存
+  condition?: StepCondition; // 执行条件
+  map?: WorkflowMapConfig; // 循环步骤（promptType 为 map）的配置
+  review?: WorkflowReviewConfig; // 审核步骤（promptType 为 review）的配置
+  inputKey?: string; // 图生视频步骤的首帧图片来源（上游图片步骤的输出键）
+  engine?: string; // 覆盖工作流的AI引擎
+  sourceId?: string; // 指定AI源，未指定时使用该引擎的默认AI源
+  model?: string; // 覆盖工作流的模型
+  retry?: WorkflowRetryPolicy; // 失败后的重试策略
+  timeoutMs?: number; // 单次调用的超时时间
+  fallback?: WorkflowStepFallback; // 备用引擎
+  critical?: boolean; // 关键步骤：首次失败即令工作流失败，不重试也不使用备用引擎
+  continueOnError?: boolean; // 重试和备用引擎都失败后不令工作流失败，跳过依赖它的步骤继续执行其余步骤
 }
 
 export interface WorkflowConfig {
@@ -19,9 +93,55 @@ export interface WorkflowConfig {
   description: string;
   steps: WorkflowStep[];
   engine: string; // 使用的AI引擎
+  sourceId?: string; // 指定AI源
   model?: string; // 指定模型
+  strictTemplate?: boolean; // 模板严格模式：引用未定义的变量时步骤失败
+  isCustom?: boolean; // 用户自定义的工作流
+  updatedAt?: number;
 }
 
+// 步骤提示词类型选项
+export const PROMPT_TYPE_OPTIONS: Array<{ value: WorkflowStep['promptType']; label: string }> = [
+  { value: 'content', label: '内容' },
+  { value: 'title', label: '标题' },
+  { value: 'description', label: '描述' },
+  { value: 'cover', label: '封面' },
+  { value: 'video', label: '视频' },
+  { value: 'image', label: '图片生成' },
+  { value: 'image-to-video', label: '图生视频' },
+  { value: 'map', label: '循环' },
+  { value: 'review', label: '人工审核' }
+];
+
+// 执行条件比较方式选项
+export const CONDITION_OPERATOR_OPTIONS: Array<{ value: StepConditionOperator; label: string; needsValue: boolean }> = [
+  { value: 'exists', label: '存在且不为空', needsValue: false },
+  { value: 'notExists', label: '不存在或为空', needsValue: false },
+  { value: 'equals', label: '等于', needsValue: true },
+  { value: 'notEquals', label: '不等于', needsValue: true },
+  { value: 'contains', label: '包含', needsValue: true },
+  { value: 'greaterThan', label: '大于', needsValue: true },
+  { value: 'lessThan', label: '小于', needsValue: true },
+  { value: 'lengthGreaterThan', label: '长度大于', needsValue: true },
+  { value: 'lengthLessThan', label: '长度小于', needsValue: true }
+];
+
+// 生成图片或视频的步骤类型
+export const MEDIA_PROMPT_TYPES: Array<WorkflowStep['promptType']> = ['image', 'image-to-video'];
+
+// 媒体步骤的输出资源
+export interface WorkflowAsset {
+  type: 'image' | 'video';
+  url: string;
+  thumbnailUrl?: string;
+  prompt: string;
+  model?: string;
+  createdAt: number;
+}
+
+// 模板中可直接引用的运行参数
+export const WORKFLOW_PARAM_KEYS = ['topic', 'style', 'audience', 'duration'];
+
 // 预设的提示词模板
 export const PROMPT_TEMPLATES = {
   content: `请根据以下主题创作一篇吸引人的内容：
@@ -50,7 +170,7 @@ export const PROMPT_TEMPLATES = {
   description: `请为以下内容生成一个引人入胜的描述：
 
 内容：{content}
-标题：{title}
+标题：{#if title.options}{title.options[0]}{:else}{title}{/if}
 要求：
 - 描述长度在50-100字之间
 - 突出内容的亮点和价值
@@ -61,7 +181,7 @@ export const PROMPT_TEMPLATES = {
 
   cover: `请为以下内容生成封面图提示词：
 
-标题：{title}
+标题：{#if title.options}{title.options[0]}{:else}{title}{/if}
 内容主题：{content}
 风格要求：{style}
 要求：
@@ -76,14 +196,57 @@ export const PROMPT_TEMPLATES = {
 
 内容：{content}
 风格：{style}
-时长：{duration}秒
+时长：{duration | default: 30}秒
 要求：
 - 每个镜头的详细描述
 - 画面转场效果
 - 背景音乐建议
 - 文字显示时机和位置
 
-请按时间序列输出每个镜头的描述。`
+请按时间序列输出每个镜头的描述。`,
+
+  image: `{coverPrompt}`,
+
+  'image-to-video': `{videoScenes}`,
+
+  map: '',
+
+  review: ''
+};
+
+// 预设的步骤输出结构，使用预设模板时一并应用
+export const PROMPT_OUTPUT_SCHEMAS: Partial<Record<WorkflowStep['promptType'], OutputSchema>> = {
+  title: {
+    type: 'object',
+    properties: {
+      options: {
+        type: 'array',
+        description: '按推荐度排序的标题',
+        items: { type: 'string', maxLength: 40 },
+        minItems: 1
+      }
+    },
+    required: ['options']
+  },
+  video: {
+    type: 'object',
+    properties: {
+      scenes: {
+        type: 'array',
+        description: '按时间顺序排列的镜头',
+        items: {
+          type: 'object',
+          properties: {
+            description: { type: 'string', description: '镜头画面描述，可直接用作绘画提示词' },
+            duration: { type: 'number', description: '镜头时长（秒）' }
+          },
+          required: ['description']
+        },
+        minItems: 1
+      }
+    },
+    required: ['scenes']
+  }
 };
 
 // 预设工作流配置
@@ -100,7 +263,8 @@ export const DEFAULT_WORKFLOWS: WorkflowConfig[] = [
         description: '根据主题提示词生成文章内容',
         promptType: 'content',
         template: PROMPT_TEMPLATES.content,
-        outputKey: 'content'
+        outputKey: 'content',
+        retry: { maxRetries: 2 }
       },
       {
         id: 'generate-title',
@@ -108,6 +272,7 @@ export const DEFAULT_WORKFLOWS: WorkflowConfig[] = [
         description: '根据内容生成吸引人的标题',
         promptType: 'title',
         template: PROMPT_TEMPLATES.title,
+        outputSchema: PROMPT_OUTPUT_SCHEMAS.title,
         dependencies: ['generate-content'],
         outputKey: 'title'
       },
@@ -126,7 +291,7 @@ export const DEFAULT_WORKFLOWS: WorkflowConfig[] = [
     id: 'video-production',
     name: '视频制作工作流',
     description: '内容到视频的完整制作流程',
-    engine: 'jimeng',
+    engine: 'doubao', // 文本步骤使用豆包，图片和视频步骤使用即梦
     steps: [
       {
         id: 'generate-content',
@@ -134,7 +299,8 @@ export const DEFAULT_WORKFLOWS: WorkflowConfig[] = [
         description: '根据主题提示词生成视频脚本',
         promptType: 'content',
         template: PROMPT_TEMPLATES.content,
-        outputKey: 'content'
+        outputKey: 'content',
+        retry: { maxRetries: 2 }
       },
       {
         id: 'generate-video-scenes',
@@ -142,8 +308,10 @@ export const DEFAULT_WORKFLOWS: WorkflowConfig[] = [
         description: '将内容转换为一键成片的画面描述',
         promptType: 'video',
         template: PROMPT_TEMPLATES.video,
+        outputSchema: PROMPT_OUTPUT_SCHEMAS.video,
         dependencies: ['generate-content'],
-        outputKey: 'videoScenes'
+        outputKey: 'videoScenes',
+        retry: { maxRetries: 2 }
       },
       {
         id: 'generate-title',
@@ -151,6 +319,7 @@ export const DEFAULT_WORKFLOWS: WorkflowConfig[] = [
         description: '生成视频标题',
         promptType: 'title',
         template: PROMPT_TEMPLATES.title,
+        outputSchema: PROMPT_OUTPUT_SCHEMAS.title,
         dependencies: ['generate-content'],
         outputKey: 'title'
       },
@@ -171,22 +340,128 @@ export const DEFAULT_WORKFLOWS: WorkflowConfig[] = [
         template: PROMPT_TEMPLATES.cover,
         dependencies: ['generate-title', 'generate-content'],
         outputKey: 'coverPrompt'
+      },
+      {
+        id: 'render-cover',
+        name: '绘制封面',
+        description: '根据封面提示词生成封面图',
+        promptType: 'image',
+        template: PROMPT_TEMPLATES.image,
+        dependencies: ['generate-cover'],
+        outputKey: 'coverImage',
+        engine: 'jimeng'
+      },
+      {
+        id: 'review-scenes',
+        name: '审核画面',
+        description: '生成视频前确认或修改画面描述',
+        promptType: 'review',
+        dependencies: ['generate-video-scenes'],
+        outputKey: 'scenesReview',
+        review: {
+          keys: ['videoScenes'],
+          instructions: '确认每个镜头的画面描述，可直接修改；驳回时填写修改意见后重新生成'
+        }
+      },
+      {
+        id: 'render-scenes',
+        name: '生成镜头',
+        description: '为每个镜头绘制画面并生成视频片段',
+        promptType: 'map',
+        dependencies: ['review-scenes'],
+        outputKey: 'sceneClips',
+        map: {
+          itemsPath: 'videoScenes.scenes',
+          itemName: 'scene',
+          concurrency: 2,
+          steps: [
+            {
+              id: 'render-scene-image',
+              name: '绘制镜头画面',
+              description: '根据镜头描述绘制画面',
+              promptType: 'image',
+              template: '{scene.description}，{style | default: "写实"}风格',
+              outputKey: 'sceneImage',
+              engine: 'jimeng'
+            },
+            {
+              id: 'render-scene-clip',
+              name: '生成镜头视频',
+              description: '以镜头画面为首帧生成视频片段',
+              promptType: 'image-to-video',
+              template: '{scene.description}',
+              inputKey: 'sceneImage',
+              outputKey: 'sceneClip',
+              engine: 'jimeng'
+            }
+          ]
+        }
       }
     ]
   }
 ];
 
+// 工作流步骤执行状态
+export type WorkflowStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'awaiting_input';
+
+// 循环步骤的逐项进度
+export interface WorkflowMapProgress {
+  total: number;
+  itemStatus: WorkflowStepStatus[];
+  results: Array<Record<string, any> | undefined>; // 每一项子步骤的输出，按输出键保存
+}
+
+// 等待人工审核的内容
+export interface WorkflowPendingReview {
+  stepId: string;
+  keys: string[]; // 待审核的输出键，当前值在 results 中
+  instructions?: string;
+}
+
+// 审核结果：通过时可附带修改后的输出，驳回时附带修改意见并重新生成被审核的步骤
+export type WorkflowReviewDecision =
+  | { approved: true; values?: Record<string, any> }
+  | { approved: false; feedback: string };
+
+// 单个步骤的执行记录
+export interface WorkflowStepLog {
+  input?: string; // 渲染后的提示词
+  output?: any;
+  startTime?: number;
+  endTime?: number;
+  error?: string;
+  attempts?: WorkflowStepAttempt[]; // 每次调用引擎的记录，含重试和备用引擎
+}
+
+// 步骤的一次调用
+export interface WorkflowStepAttempt {
+  engine: string;
+  model?: string;
+  fallback?: boolean; // 是否为备用引擎
+  startTime: number;
+  endTime: number;
+  error?: string;
+}
+
 // 工作流执行状态
 export interface WorkflowExecution {
   id: string;
   workflowId: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused';
-  currentStep: number;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'paused' | 'awaiting_input';
+  currentStep: number; // 第一个未完成步骤的下标
+  stepStatus: Record<string, WorkflowStepStatus>; // 按步骤ID记录状态
+  runningSteps: string[]; // 正在并行执行的步骤ID
   startTime?: Date;
   endTime?: Date;
+  params: WorkflowStepParams; // 启动参数，用于重新运行和恢复
   results: Record<string, any>;
+  stepLogs: Record<string, WorkflowStepLog>; // 按步骤ID记录输入输出、耗时和错误
+  mapProgress?: Record<string, WorkflowMapProgress>; // 按循环步骤ID记录逐项进度
+  pendingReview?: WorkflowPendingReview; // 等待审核时的审核内容
   error?: string;
   progress: number;
+  updatedAt?: number; // 最近一次持久化的时间戳
+  interrupted?: boolean; // 因页面重载而中断，可以恢复
 }
 
 // 工作流步骤参数
@@ -196,4 +471,77 @@ export interface WorkflowStepParams {
   audience?: string;
   duration?: number;
   [key: string]: any;
-}
\ No newline at end of file
+}
+
+// 定时运行计划
+export interface WorkflowSchedule {
+  id: string;
+  name: string;
+  workflowId: string;
+  cron: string; // 五段式 cron 表达式（分 时 日 月 周），按本地时间
+  params: WorkflowStepParams; // 运行参数，设置了主题列表时 topic 由列表提供
+  topics?: string[]; // 主题列表
+  topicMode?: 'rotate' | 'each'; // rotate：每次运行取下一个主题；each：每次为每个主题各运行一次
+  enabled: boolean;
+  nextTopicIndex?: number; // rotate 模式下次使用的主题下标
+  nextRunAt?: number;
+  lastRunAt?: number;
+  lastStatus?: WorkflowExecution['status'];
+  lastExecutionIds?: string[];
+  lastError?: string;
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// 试运行中单个步骤的预估，循环子步骤按项数累计
+export interface WorkflowStepEstimate {
+  stepId: string; // 循环子步骤为 循环步骤ID.子步骤ID
+  name: string;
+  promptType: WorkflowStep['promptType'];
+  engine?: string;
+  model?: string;
+  prompt?: string; // 按示例数据渲染的提示词
+  calls: number; // 调用引擎的次数
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videos: number;
+  cost: Record<string, number>; // 按币种累计的费用
+  durationSeconds: number;
+  warnings: string[];
+}
+
+// 单次运行的预估
+export interface WorkflowRunEstimate {
+  params: WorkflowStepParams;
+  steps: WorkflowStepEstimate[];
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videos: number;
+  cost: Record<string, number>;
+  durationSeconds: number; // 按步骤并行关系计算的关键路径耗时
+}
+
+// 试运行结果：不调用引擎，只渲染提示词并估算用量、费用和耗时
+export interface WorkflowDryRunEstimate {
+  workflowId: string;
+  runs: WorkflowRunEstimate[];
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videos: number;
+  cost: Record<string, number>;
+  durationSeconds: number; // 依次运行所有主题的总耗时
+  warnings: string[]; // 去重后的提示，如缺少价格信息、超出上下文长度
+}
+
+// 批量运行中的一行：对应表格中的一行参数和一次工作流执行
+export interface WorkflowBatchItem {
+  row: number; // 表格中的行号（从 1 开始，不含表头）
+  params: WorkflowStepParams;
+  status: 'pending' | WorkflowExecution['status'];
+  executionId?: string;
+  execution?: WorkflowExecution; // 结束时的执行记录
+  error?: string;
+}
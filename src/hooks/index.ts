@@ -1,4 +1,7 @@
 import { useAppStore } from '../stores/appStore';
+import type { ChatAttachment, ChatMessage } from '../stores/appStore';
+import { apiService } from '../../services/apiService';
+import type { ChatMessage as APIChatMessage } from '../../services/apiService';
 export { useModelManager } from './useModelManager';
 
 export const useAISources = () => {
@@ -24,38 +27,69 @@ export const useAISources = () => {
   };
 };
 
+// 发送消息的选项，附件中的图片随消息发送给模型
+export interface ChatSendOptions {
+  attachments?: ChatAttachment[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
 export const useChat = () => {
   const {
     chatMessages,
     isStreaming,
     addChatMessage,
+    updateChatMessage,
     clearChatMessages,
     setStreaming,
     currentSourceId,
   } = useAppStore();
 
-  const sendMessage = async (content: string) => {
+  const sendMessage = async (content: string, options: ChatSendOptions = {}) => {
     if (!currentSourceId) return;
 
+    const history = useAppStore.getState().chatMessages.filter((message) => !message.error);
     setStreaming(true);
     addChatMessage({
       role: 'user',
       content,
       timestamp: new Date(),
       sourceId: currentSourceId,
+      attachments: options.attachments,
+    });
+    const replyId = addChatMessage({
+      role: 'assistant',
+      content: '',
+      timestamp: new Date(),
+      sourceId: currentSourceId,
+      model: options.model,
+      isStreaming: true,
     });
 
     try {
-      // TODO: Implement actual API call
-      const response = 'This is a mock response';
-      addChatMessage({
-        role: 'assistant',
-        content: response,
-        timestamp: new Date(),
-        sourceId: currentSourceId,
+      // 使用设置中同ID的AI源，没有时使用默认AI源
+      const source = await apiService.getAISource(currentSourceId);
+      if (!source) {
+        throw new Error('未找到可用的AI请求源');
+      }
+
+      const messages = [...history, { role: 'user' as const, content, attachments: options.attachments }].map(toAPIMessage);
+      let reply = '';
+      const stream = apiService.streamChat(messages, source, options.model, undefined, {
+        temperature: options.temperature,
+        maxTokens: options.maxTokens,
+        onUsage: (usage) => updateChatMessage(replyId, { usage }),
       });
+      for await (const delta of stream) {
+        reply += delta;
+        updateChatMessage(replyId, { content: reply });
+      }
+      updateChatMessage(replyId, { isStreaming: false });
     } catch (error) {
       console.error('Chat error:', error);
+      const message = error instanceof Error ? error.message : '请求失败';
+      updateChatMessage(replyId, { isStreaming: false, error: message, content: `请求失败：${message}` });
     } finally {
       setStreaming(false);
     }
@@ -69,6 +103,17 @@ export const useChat = () => {
   };
 };
 
+// 转换为接口消息，图片附件作为图片内容发送
+function toAPIMessage(message: Pick<ChatMessage, 'role' | 'content' | 'attachments'>, index: number): APIChatMessage {
+  return {
+    id: String(index),
+    role: message.role,
+    content: message.content,
+    images: message.attachments?.filter((attachment) => attachment.type === 'image').map((attachment) => attachment.url),
+    timestamp: Date.now(),
+  };
+}
+
 export const useUI = () => {
   const { activeTab, settingsOpen, setActiveTab, toggleSettings, platform } =
     useAppStore();
@@ -51,7 +51,7 @@ export const useModelManager = () => {
    * 根据ID获取模型
    */
   const getModelById = useCallback((id: string): ModelInfo | undefined => {
-    return getAllModels().find(model => model.id === id);
+    return getAllModels().find(model => model.id === id || model.aliases?.includes(id));
   }, [getAllModels]);
 
   /**
@@ -0,0 +1,87 @@
+/**
+ * 扩展页面存储写入转发
+ * 弹窗、选项页和后台 service worker 是互相独立的 JS 上下文，各自的写入队列只能串行化本上下文的写入，
+ * 同时读改写同一个存储键时后写入的一方会覆盖另一方。扩展页面中的写入通过 runtime 消息交给后台执行，
+ * 后台是这些存储唯一的写入方；网页环境只有一个上下文，直接写入
+ */
+
+const MESSAGE_TYPE = 'background-write';
+// runtime 消息按 JSON 序列化，值为 undefined 的字段会丢失；补丁中的 undefined 表示清除字段，转发时用标记保留
+const UNDEFINED_MARKER = '__background_write_undefined__';
+
+interface BackgroundWriteMessage {
+  type: typeof MESSAGE_TYPE;
+  target: string;
+  method: string;
+  args: any[];
+}
+
+interface BackgroundWriteResponse {
+  result?: any;
+  error?: string;
+}
+
+export type BackgroundWriteHandlers = Record<string, (...args: any[]) => Promise<any>>;
+
+const handlers = new Map<string, BackgroundWriteHandlers>();
+let listening = false;
+
+/**
+ * 当前上下文的写入是否需要转发给后台（扩展页面）；后台 service worker 没有 window
+ */
+export function shouldForwardWrites(): boolean {
+  return typeof window !== 'undefined' && typeof chrome !== 'undefined' && !!chrome.runtime?.id;
+}
+
+/**
+ * 把写入转发给后台执行，返回后台的执行结果，后台执行出错时抛出同样的错误信息
+ */
+export async function forwardWrite<T = void>(target: string, method: string, args: any[]): Promise<T> {
+  const message: BackgroundWriteMessage = { type: MESSAGE_TYPE, target, method, args: encodeArgs(args) };
+  const response: BackgroundWriteResponse | undefined = await chrome.runtime.sendMessage(message);
+  if (!response) {
+    throw new Error(`后台未处理写入请求: ${target}.${method}`);
+  }
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.result;
+}
+
+/**
+ * 后台登记某个存储的写入处理，需要在 service worker 顶层同步调用
+ */
+export function handleForwardedWrites(target: string, targetHandlers: BackgroundWriteHandlers): void {
+  handlers.set(target, targetHandlers);
+  if (listening) return;
+  listening = true;
+
+  chrome.runtime.onMessage.addListener((message: BackgroundWriteMessage, _sender, sendResponse) => {
+    if (message?.type !== MESSAGE_TYPE) return false;
+
+    const handler = handlers.get(message.target)?.[message.method];
+    if (!handler) {
+      sendResponse({ error: `未知的写入请求: ${message.target}.${message.method}` });
+      return false;
+    }
+    handler(...decodeArgs(message.args)).then(
+      result => sendResponse({ result }),
+      error => sendResponse({ error: error instanceof Error ? error.message : String(error) })
+    );
+    // 异步响应
+    return true;
+  });
+}
+
+function encodeArgs(args: any[]): any[] {
+  return JSON.parse(JSON.stringify(args, (_key, value) => (value === undefined ? UNDEFINED_MARKER : value)));
+}
+
+function decodeArgs(value: any): any {
+  if (value === UNDEFINED_MARKER) return undefined;
+  if (Array.isArray(value)) return value.map(decodeArgs);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, decodeArgs(item)]));
+  }
+  return value;
+}
@@ -0,0 +1,86 @@
+/**
+ * cron 表达式测试
+ * cron 按本地时间计算，期望值同样用本地时间构造
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { getNextCronTime, getUpcomingCronTimes, isValidCron, parseCron } from './cronExpression';
+
+const local = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0) =>
+  new Date(year, month - 1, day, hour, minute, second);
+
+describe('parseCron', () => {
+  it('展开范围、列表和步长，周日写作 7 时转换为 0', () => {
+    const schedule = parseCron('*/20 8-18/5 1,15 * 5-7');
+    assert.deepEqual([...schedule.minutes], [0, 20, 40]);
+    assert.deepEqual([...schedule.hours], [8, 13, 18]);
+    assert.deepEqual([...schedule.days], [1, 15]);
+    assert.equal(schedule.months.size, 12);
+    assert.deepEqual([...schedule.weekdays].sort(), [0, 5, 6]);
+    assert.equal(schedule.anyDay, false);
+    assert.equal(schedule.anyWeekday, false);
+  });
+
+  it('单个数字带步长时到最大值', () => {
+    assert.deepEqual([...parseCron('50/5 * * * *').minutes], [50, 55]);
+  });
+
+  it('格式错误时报错', () => {
+    assert.throws(() => parseCron('* * *'), /应包含 5 段.*当前为 3 段/);
+    assert.throws(() => parseCron('60 * * * *'), /分钟段 "60" 超出范围 0-59/);
+    assert.throws(() => parseCron('* * * 0 *'), /月份段 "0" 超出范围 1-12/);
+    assert.throws(() => parseCron('*/0 * * * *'), /超出范围/);
+    assert.throws(() => parseCron('a * * * *'), /分钟段 "a" 格式无效/);
+    assert.equal(isValidCron('@weekly'), true);
+    assert.equal(isValidCron('@yearly'), false);
+  });
+});
+
+describe('getNextCronTime', () => {
+  it('严格晚于起始时间，同一分钟内不重复运行', () => {
+    assert.deepEqual(getNextCronTime('0 9 * * *', local(2024, 3, 15, 9, 0, 30)), local(2024, 3, 16, 9, 0));
+    assert.deepEqual(getNextCronTime('0 9 * * *', local(2024, 3, 15, 8, 59, 59)), local(2024, 3, 15, 9, 0));
+  });
+
+  it('工作日时段跨周末到下周一', () => {
+    // 2024-03-15 是星期五
+    assert.deepEqual(getNextCronTime('*/15 9-17 * * 1-5', local(2024, 3, 15, 17, 50)), local(2024, 3, 18, 9, 0));
+  });
+
+  it('日期和星期都有限制时满足其一即可', () => {
+    // 每月 13 日或每个星期五
+    const expression = '0 8 13 * 5';
+    assert.deepEqual(getNextCronTime(expression, local(2024, 9, 1)), local(2024, 9, 6, 8, 0));
+    assert.deepEqual(getNextCronTime(expression, local(2024, 9, 6, 8, 0)), local(2024, 9, 13, 8, 0));
+    assert.deepEqual(getNextCronTime(expression, local(2024, 10, 11, 9, 0)), local(2024, 10, 13, 8, 0));
+  });
+
+  it('只限制星期时周日可写作 7', () => {
+    assert.deepEqual(getNextCronTime('0 12 * * 7', local(2024, 3, 16, 13, 0)), local(2024, 3, 17, 12, 0));
+  });
+
+  it('跳过没有该日期的月份', () => {
+    assert.deepEqual(getNextCronTime('30 23 31 * *', local(2024, 1, 31, 23, 30)), local(2024, 3, 31, 23, 30));
+    assert.deepEqual(getNextCronTime('0 0 29 2 *', local(2024, 3, 1)), local(2028, 2, 29, 0, 0));
+  });
+
+  it('跨月和跨年', () => {
+    assert.deepEqual(getNextCronTime('@monthly', local(2024, 12, 15)), local(2025, 1, 1, 0, 0));
+    assert.deepEqual(getNextCronTime('59 23 * * *', local(2024, 12, 31, 23, 59)), local(2025, 1, 1, 23, 59));
+  });
+
+  it('5 年内没有运行时间时报错', () => {
+    assert.throws(() => getNextCronTime('0 0 31 2 *', local(2024, 1, 1)), /未来 5 年内没有可运行的时间/);
+  });
+});
+
+describe('getUpcomingCronTimes', () => {
+  it('依次返回接下来的运行时间', () => {
+    assert.deepEqual(getUpcomingCronTimes('0 9,18 * * *', 3, local(2024, 3, 15, 12, 0)), [
+      local(2024, 3, 15, 18, 0),
+      local(2024, 3, 16, 9, 0),
+      local(2024, 3, 16, 18, 0)
+    ]);
+  });
+});
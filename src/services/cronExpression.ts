@@ -0,0 +1,155 @@
+/**
+ * cron 表达式
+ * 五段式：分 时 日 月 周，按本地时间计算
+ * 每段支持 *、数字、范围 1-5、列表 1,3,5 和步长 *\/15、8-18/2；周日可写作 0 或 7
+ * 另支持 @hourly、@daily、@weekly、@monthly
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean; // 日期段为 *
+  anyWeekday: boolean; // 星期段为 *
+}
+
+const CRON_ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const CRON_FIELDS = [
+  { name: '分钟', min: 0, max: 59 },
+  { name: '小时', min: 0, max: 23 },
+  { name: '日期', min: 1, max: 31 },
+  { name: '月份', min: 1, max: 12 },
+  { name: '星期', min: 0, max: 7 }
+];
+
+// 向后查找下一次运行时间的最大天数
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+/**
+ * 解析 cron 表达式，格式错误时抛出错误
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = CRON_ALIASES[expression.trim()] || expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`cron 表达式应包含 5 段（分 时 日 月 周），当前为 ${parts.length} 段`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, index) => parseField(part, CRON_FIELDS[index]));
+  // 周日可写作 7
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: parts[2] === '*',
+    anyWeekday: parts[4] === '*'
+  };
+}
+
+/**
+ * cron 表达式是否有效
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 计算晚于 after 的下一次运行时间（精确到分钟）
+ */
+export function getNextCronTime(expression: string | CronSchedule, after: Date = new Date()): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const start = new Date(after.getTime());
+  start.setSeconds(0, 0);
+  start.setMinutes(start.getMinutes() + 1);
+
+  const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++, day.setDate(day.getDate() + 1)) {
+    if (!matchesDay(schedule, day)) continue;
+
+    const sameDay = offset === 0;
+    for (const hour of sorted(schedule.hours)) {
+      if (sameDay && hour < start.getHours()) continue;
+      for (const minute of sorted(schedule.minutes)) {
+        if (sameDay && hour === start.getHours() && minute < start.getMinutes()) continue;
+        return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+      }
+    }
+  }
+
+  throw new Error('cron 表达式在未来 5 年内没有可运行的时间');
+}
+
+/**
+ * 计算接下来的若干次运行时间，用于预览
+ */
+export function getUpcomingCronTimes(expression: string, count: number, after: Date = new Date()): Date[] {
+  const schedule = parseCron(expression);
+  const times: Date[] = [];
+  let current = after;
+  for (let i = 0; i < count; i++) {
+    current = getNextCronTime(schedule, current);
+    times.push(current);
+  }
+  return times;
+}
+
+// 日期和星期都有限制时满足其一即可，与标准 cron 一致
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.months.has(date.getMonth() + 1)) return false;
+
+  const dayMatch = schedule.days.has(date.getDate());
+  const weekdayMatch = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay && schedule.anyWeekday) return true;
+  if (schedule.anyDay) return weekdayMatch;
+  if (schedule.anyWeekday) return dayMatch;
+  return dayMatch || weekdayMatch;
+}
+
+function parseField(part: string, field: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of part.split(',')) {
+    const match = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(item);
+    if (!match) {
+      throw new Error(`cron ${field.name}段 "${part}" 格式无效`);
+    }
+
+    const [, range, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+    let [from, to] = range === '*'
+      ? [field.min, field.max]
+      : range.split('-').map(Number);
+    // 单个数字带步长时表示从该值开始到最大值
+    if (to === undefined) to = stepText ? field.max : from;
+
+    if (from < field.min || to > field.max || from > to || step < 1) {
+      throw new Error(`cron ${field.name}段 "${item}" 超出范围 ${field.min}-${field.max}`);
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function sorted(values: Set<number>): number[] {
+  return Array.from(values).sort((a, b) => a - b);
+}
@@ -1,11 +1,110 @@
-import { AIEngineConfig, AISource, AIEngineType, AIEngineFeature } from '../config/engines';
-import { EngineAdapter } from '../adapters';
+import { AIEngineFeature } from '../../config/engines';
+import type { AIEngineConfig, AISource } from '../../config/engines';
+import { signVolcengineRequest } from './volcengineSigner';
+import type {
+  EngineAdapter,
+  EngineCapabilities,
+  EngineContentPart,
+  EngineMessage,
+  EngineProgress,
+  EngineStreamChunk,
+  EngineUsage,
+  ImageParamName
+} from '../../adapters/types';
+
+// 文本生成参数
+type TextParams = Parameters<EngineAdapter['generateText']>[0];
+
+// 图片生成参数和结果
+type ImageParams = Parameters<EngineAdapter['generateImage']>[0];
+type ImageResult = Awaited<ReturnType<EngineAdapter['generateImage']>>;
+
+// 即梦图片尺寸预设
+const JIMENG_SIZE_PRESETS: Record<string, { width: number; height: number }> = {
+  '1:1': { width: 1328, height: 1328 },
+  '4:3': { width: 1472, height: 1104 },
+  '3:2': { width: 1584, height: 1056 },
+  '16:9': { width: 1664, height: 936 },
+  '21:9': { width: 2016, height: 864 },
+  '1:1_2k': { width: 2048, height: 2048 },
+  '4:3_2k': { width: 2304, height: 1728 },
+  '3:2_2k': { width: 2496, height: 1664 },
+  '16:9_2k': { width: 2560, height: 1440 },
+  '21:9_2k': { width: 3024, height: 1296 }
+};
+
+// 即梦生成任务类型
+export type JimengTaskKind = 'text-to-image' | 'image-to-image' | 'text-to-video' | 'image-to-video';
+
+// 即梦任务句柄：查询结果时必须使用提交时的 req_key
+export interface JimengTaskHandle {
+  reqKey: string;
+  taskId: string;
+  kind: JimengTaskKind;
+}
+
+// 即梦任务结果：图片为链接或 data URL，视频为视频链接
+export interface JimengTaskResult {
+  kind: JimengTaskKind;
+  urls: string[];
+}
+
+// 各类任务默认的 req_key
+const JIMENG_REQ_KEYS: Record<JimengTaskKind, string> = {
+  'text-to-image': 'jimeng_t2i_v30',
+  'image-to-image': 'jimeng_i2i_v30',
+  'text-to-video': 'jimeng_vgfm_t2v_l20',
+  'image-to-video': 'jimeng_vgfm_i2v_l20'
+};
+
+// 模型ID对应的 req_key，未列出的 jimeng_ 开头的模型ID直接作为 req_key
+const JIMENG_MODEL_REQ_KEYS: Record<string, string> = {
+  'jimeng-text2image-3.0': 'jimeng_t2i_v30',
+  'jimeng-text2video': 'jimeng_vgfm_t2v_l20',
+  'jimeng-image2video': 'jimeng_vgfm_i2v_l20',
+  'jimeng_i2v_v10': 'jimeng_vgfm_i2v_l20' // 旧版配置中的模型ID
+};
+
+// 即梦异步任务接口版本、结果轮询间隔，以及图片和视频任务的最长等待时间
+const JIMENG_API_VERSION = '2022-08-31';
+const JIMENG_POLL_INTERVAL = 2000;
+const JIMENG_IMAGE_TIMEOUT = 2 * 60 * 1000;
+const JIMENG_VIDEO_TIMEOUT = 10 * 60 * 1000;
+
+// 查询本地服务模型列表的超时
+const MODEL_LIST_TIMEOUT = 10000;
+
+// Stable Diffusion WebUI 和 ComfyUI 查询生成进度、结果的间隔
+const SD_PROGRESS_INTERVAL = 1000;
+
+// Stable Diffusion WebUI 和 ComfyUI 支持全部采样参数
+const ALL_IMAGE_PARAMS: ImageParamName[] = ['negativePrompt', 'seed', 'steps', 'cfgScale', 'sampler', 'hiresFix', 'image', 'strength'];
+
+// WebUI 采样器名称对应的 ComfyUI sampler_name
+const COMFY_SAMPLERS: Record<string, string> = {
+  'Euler': 'euler',
+  'Euler a': 'euler_ancestral',
+  'Heun': 'heun',
+  'LMS': 'lms',
+  'DPM2': 'dpm_2',
+  'DPM2 a': 'dpm_2_ancestral',
+  'DPM++ 2S a': 'dpmpp_2s_ancestral',
+  'DPM++ 2M': 'dpmpp_2m',
+  'DPM++ SDE': 'dpmpp_sde',
+  'DPM++ 2M SDE': 'dpmpp_2m_sde',
+  'DDIM': 'ddim',
+  'UniPC': 'uni_pc',
+  'LCM': 'lcm'
+};
 
 // AI引擎适配器基类
 export abstract class BaseEngineAdapter implements EngineAdapter {
   protected config: AIEngineConfig;
   protected source: AISource;
 
+  // 图片生成支持的采样参数，由支持图片生成的子类声明
+  protected imageParams: ImageParamName[] = [];
+
   constructor(config: AIEngineConfig, source: AISource) {
     this.config = config;
     this.source = source;
@@ -17,34 +116,48 @@ export abstract class BaseEngineAdapter implements EngineAdapter {
     model?: string;
     temperature?: number;
     maxTokens?: number;
-    messages?: Array<{ role: string; content: string }>;
-  }): Promise<{ content: string; usage?: any }>;
+    messages?: EngineMessage[];
+    jsonMode?: boolean;
+    signal?: AbortSignal;
+  }): Promise<{ content: string; usage?: EngineUsage }>;
 
-  abstract generateImage(params: {
-    prompt: string;
-    model?: string;
-    size?: string;
-    quality?: string;
-    n?: number;
-  }): Promise<{ url: string; revisedPrompt?: string }>;
+  abstract generateImage(params: ImageParams): Promise<ImageResult>;
 
   abstract generateVideo(params: {
     prompt: string;
     model?: string;
     image?: string;
     duration?: number;
+    signal?: AbortSignal;
   }): Promise<{ url: string; thumbnailUrl?: string }>;
 
+  // 流式生成文本，由支持的子类实现
+  streamText?(params: TextParams): AsyncIterable<EngineStreamChunk>;
+
   // 通用方法
-  protected async makeRequest(endpoint: string, data: any): Promise<any> {
+  protected async makeRequest(endpoint: string, data: any, signal?: AbortSignal): Promise<any> {
     const url = this.buildUrl(endpoint);
-    const headers = this.buildHeaders();
+    const body = JSON.stringify(data);
     
     const response = await fetch(url, {
       method: 'POST',
-      headers,
-      body: JSON.stringify(data),
-      signal: AbortSignal.timeout(this.config.requestConfig?.timeout || 60000)
+      headers: await this.buildRequestHeaders(url, body),
+      body,
+      signal: this.buildSignal(signal)
+    });
+
+    if (!response.ok) {
+      throw new Error(`API请求失败: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  // GET 请求，返回 JSON
+  protected async getJson(url: string, signal?: AbortSignal, timeout?: number): Promise<any> {
+    const response = await fetch(url, {
+      headers: this.buildHeaders(),
+      signal: this.buildSignal(signal, timeout)
     });
 
     if (!response.ok) {
@@ -54,11 +167,76 @@ export abstract class BaseEngineAdapter implements EngineAdapter {
     return await response.json();
   }
 
+  // 发起流式请求，逐个返回服务端事件（SSE）中解析出的 JSON 数据
+  // 流式输出可能持续较久，不套用请求超时，只响应调用方的取消信号
+  protected async *streamRequest(endpoint: string, data: any, signal?: AbortSignal): AsyncGenerator<{ event?: string; data: any }> {
+    const url = this.buildUrl(endpoint);
+    const body = JSON.stringify(data);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: await this.buildRequestHeaders(url, body),
+      body,
+      signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`API请求失败: ${response.status} ${response.statusText}`);
+    }
+    if (!response.body) {
+      throw new Error('无法读取响应流');
+    }
+
+    for await (const event of readServerSentEvents(response.body)) {
+      if (event.data === '[DONE]') return;
+      try {
+        yield { event: event.event, data: JSON.parse(event.data) };
+      } catch {
+        console.warn('解析流数据失败:', event.data);
+      }
+    }
+  }
+
+  // OpenAI 兼容格式的流式对话，最后一个事件携带用量
+  protected async *streamChatCompletions(requestData: any, signal?: AbortSignal): AsyncGenerator<EngineStreamChunk> {
+    let usage: EngineUsage | undefined;
+    const body = { ...requestData, stream: true, stream_options: { include_usage: true } };
+    for await (const { data } of this.streamRequest('chat/completions', body, signal)) {
+      if (data.error) {
+        throw new Error(data.error.message || 'API返回错误');
+      }
+      const delta = data.choices?.[0]?.delta?.content;
+      if (delta) yield { delta };
+      if (data.usage) usage = toOpenAIUsage(data.usage);
+    }
+    if (usage) yield { usage };
+  }
+
+  // 合并请求超时与调用方传入的取消信号，未指定超时时使用引擎配置
+  protected buildSignal(signal?: AbortSignal, timeoutMs?: number): AbortSignal {
+    const timeout = AbortSignal.timeout(timeoutMs || this.config.requestConfig?.timeout || 60000);
+    if (!signal) return timeout;
+
+    const controller = new AbortController();
+    const abort = (source: AbortSignal) => controller.abort(source.reason);
+    if (signal.aborted) {
+      abort(signal);
+    } else {
+      signal.addEventListener('abort', () => abort(signal), { once: true });
+      timeout.addEventListener('abort', () => abort(timeout), { once: true });
+    }
+    return controller.signal;
+  }
+
   protected buildUrl(endpoint: string): string {
     const baseUrl = this.source.baseUrl || this.config.baseUrl;
     return `${baseUrl.replace(/\/$/, '')}/${endpoint.replace(/^\//, '')}`;
   }
 
+  // 单个请求的请求头，需要按请求内容签名的引擎覆盖此方法
+  protected async buildRequestHeaders(url: string, body: string): Promise<Record<string, string>> {
+    return this.buildHeaders();
+  }
+
   protected buildHeaders(): Record<string, string> {
     const headers = { ...this.config.headers };
     
@@ -76,6 +254,19 @@ export abstract class BaseEngineAdapter implements EngineAdapter {
     return this.config.supportedFeatures.includes(feature);
   }
 
+  // 引擎能力：按配置的功能列表判断，实现了 streamText 的引擎支持流式输出
+  getCapabilities(): EngineCapabilities {
+    const chat = this.supportsFeature(AIEngineFeature.CHAT) || this.supportsFeature(AIEngineFeature.TEXT_GENERATION);
+    const image = this.supportsFeature(AIEngineFeature.IMAGE_GENERATION);
+    return {
+      chat,
+      stream: chat && typeof this.streamText === 'function',
+      image,
+      video: this.supportsFeature(AIEngineFeature.VIDEO_GENERATION),
+      imageParams: image ? this.imageParams : []
+    };
+  }
+
   // 获取默认模型
   getDefaultModel(type: 'text' | 'image' | 'video'): string | null {
     const model = this.config.models.find(m => m.type === type);
@@ -83,31 +274,45 @@ export abstract class BaseEngineAdapter implements EngineAdapter {
   }
 }
 
-// 豆包引擎适配器
+// 豆包（火山方舟）引擎适配器
+// 方舟在线推理以接入点ID（ep-xxxx）作为模型，AI源的 modelOverrides 将模型ID映射到接入点ID
 export class DoubaoEngineAdapter extends BaseEngineAdapter {
   async generateText(params: {
     prompt: string;
     model?: string;
     temperature?: number;
     maxTokens?: number;
-    messages?: Array<{ role: string; content: string }>;
-  }): Promise<{ content: string; usage?: any }> {
-    const model = params.model || this.getDefaultModel('text') || 'doubao-pro-4k';
+    messages?: EngineMessage[];
+    jsonMode?: boolean;
+    signal?: AbortSignal;
+  }): Promise<{ content: string; usage?: EngineUsage }> {
+    const response = await this.makeRequest('chat/completions', this.buildRequestData(params), params.signal);
     
-    const requestData = {
-      model,
+    return {
+      content: response.choices[0].message.content,
+      usage: response.usage ? toOpenAIUsage(response.usage) : undefined
+    };
+  }
+
+  streamText(params: TextParams): AsyncIterable<EngineStreamChunk> {
+    return this.streamChatCompletions(this.buildRequestData(params), params.signal);
+  }
+
+  // 带图片的消息以 image_url 内容片段原样发送，需使用视觉模型的接入点
+  private buildRequestData(params: TextParams) {
+    const model = params.model || this.getDefaultModel('text');
+    if (!model) {
+      throw new Error('请选择豆包模型或在AI源中配置接入点ID');
+    }
+
+    return {
+      model: this.source.modelOverrides?.[model] || model,
       messages: params.messages || [
         { role: 'user', content: params.prompt }
       ],
       temperature: params.temperature ?? 0.7,
-      max_tokens: params.maxTokens ?? 1000
-    };
-
-    const response = await this.makeRequest('chat/completions', requestData);
-    
-    return {
-      content: response.choices[0].message.content,
-      usage: response.usage
+      max_tokens: params.maxTokens ?? 1000,
+      response_format: params.jsonMode ? { type: 'json_object' } : undefined
     };
   }
 
@@ -116,8 +321,10 @@ export class DoubaoEngineAdapter extends BaseEngineAdapter {
     model?: string;
     size?: string;
     quality?: string;
+    style?: string;
     n?: number;
-  }): Promise<{ url: string; revisedPrompt?: string }> {
+    signal?: AbortSignal;
+  }): Promise<{ url: string; urls?: string[]; revisedPrompt?: string }> {
     throw new Error('豆包引擎不支持图片生成功能');
   }
 
@@ -126,6 +333,7 @@ export class DoubaoEngineAdapter extends BaseEngineAdapter {
     model?: string;
     image?: string;
     duration?: number;
+    signal?: AbortSignal;
   }): Promise<{ url: string; thumbnailUrl?: string }> {
     throw new Error('豆包引擎不支持视频生成功能');
   }
@@ -133,43 +341,27 @@ export class DoubaoEngineAdapter extends BaseEngineAdapter {
 
 // 即梦引擎适配器
 export class JimengEngineAdapter extends BaseEngineAdapter {
+  protected imageParams: ImageParamName[] = ['seed', 'image', 'strength'];
+
   async generateText(params: {
     prompt: string;
     model?: string;
     temperature?: number;
     maxTokens?: number;
-    messages?: Array<{ role: string; content: string }>;
-  }): Promise<{ content: string; usage?: any }> {
+    messages?: EngineMessage[];
+    jsonMode?: boolean;
+    signal?: AbortSignal;
+  }): Promise<{ content: string; usage?: EngineUsage }> {
     throw new Error('即梦引擎不支持文本生成功能');
   }
 
-  async generateImage(params: {
-    prompt: string;
-    model?: string;
-    size?: string;
-    quality?: string;
-    n?: number;
-  }): Promise<{ url: string; revisedPrompt?: string }> {
-    const model = params.model || this.getDefaultModel('image') || 'jimeng_t2i_v30';
-    
-    const requestData = {
-      req_key: '',
-      prompt: params.prompt,
-      model_version: model,
-      width: 1024,
-      height: 1024,
-      scale: 7.5,
-      seed: '',
-      steps: 20,
-      logo_info: {
-        add_logo: false
-      }
-    };
+  async generateImage(params: ImageParams): Promise<ImageResult> {
+    const task = await this.submitImageTask(params);
+    const result = await this.waitForTask(task, params.signal);
 
-    const response = await this.makeRequest('image', requestData);
-    
     return {
-      url: response.data[0].url,
+      url: result.urls[0],
+      urls: result.urls,
       revisedPrompt: params.prompt
     };
   }
@@ -179,29 +371,146 @@ export class JimengEngineAdapter extends BaseEngineAdapter {
     model?: string;
     image?: string;
     duration?: number;
+    signal?: AbortSignal;
   }): Promise<{ url: string; thumbnailUrl?: string }> {
-    const model = params.model || this.getDefaultModel('video') || 'jimeng_i2v_v10';
-    
-    const requestData = {
-      req_key: '',
-      model_version: model,
+    const task = await this.submitVideoTask(params);
+    const result = await this.waitForTask(task, params.signal);
+
+    return { url: result.urls[0] };
+  }
+
+  /**
+   * 提交图片任务：有参考图时为图生图（图片链接或 base64，重绘强度对应文本影响程度 scale），否则为文生图
+   */
+  async submitImageTask(params: {
+    prompt: string;
+    model?: string;
+    size?: string;
+    seed?: number;
+    image?: string;
+    strength?: number;
+    signal?: AbortSignal;
+  }): Promise<JimengTaskHandle> {
+    const { width, height } = getJimengSize(params.size);
+    if (!params.image) {
+      return this.submitTask('text-to-image', {
+        req_key: getJimengReqKey('text-to-image', params.model),
+        prompt: params.prompt,
+        use_pre_llm: true,
+        seed: params.seed ?? -1,
+        width,
+        height
+      }, params.signal);
+    }
+
+    return this.submitTask('image-to-image', {
+      req_key: getJimengReqKey('image-to-image', params.model),
       prompt: params.prompt,
-      first_frame_image_url: params.image,
-      video_width: 1280,
-      video_height: 720,
-      fps: 30,
-      duration: params.duration || 5,
-      logo_info: {
-        add_logo: false
-      }
-    };
+      seed: params.seed ?? -1,
+      scale: params.strength ?? 0.5,
+      width,
+      height,
+      ...getJimengImageInput(params.image)
+    }, params.signal);
+  }
 
-    const response = await this.makeRequest('video', requestData);
-    
-    return {
-      url: response.data[0].video_url,
-      thumbnailUrl: response.data[0].cover_url
-    };
+  /**
+   * 提交视频任务：有首帧图片时为图生视频（图片链接或 base64），否则为文生视频
+   */
+  async submitVideoTask(params: { prompt: string; model?: string; image?: string; signal?: AbortSignal }): Promise<JimengTaskHandle> {
+    if (!params.image) {
+      return this.submitTask('text-to-video', {
+        req_key: getJimengReqKey('text-to-video', params.model),
+        prompt: params.prompt,
+        seed: -1,
+        aspect_ratio: '16:9'
+      }, params.signal);
+    }
+
+    return this.submitTask('image-to-video', {
+      req_key: getJimengReqKey('image-to-video', params.model),
+      prompt: params.prompt,
+      seed: -1,
+      ...getJimengImageInput(params.image)
+    }, params.signal);
+  }
+
+  /**
+   * 查询一次任务结果，仍在排队或生成中时返回 null
+   */
+  async queryTask(task: JimengTaskHandle, signal?: AbortSignal): Promise<JimengTaskResult | null> {
+    const response = await this.callVisualApi('CVSync2AsyncGetResult', {
+      req_key: task.reqKey,
+      task_id: task.taskId,
+      req_json: JSON.stringify({
+        return_url: true,
+        logo_info: {
+          add_logo: false
+        }
+      })
+    }, signal);
+
+    const data = response.data || {};
+    switch (data.status) {
+      case 'in_queue':
+      case 'generating':
+        return null;
+      case 'not_found':
+        throw new Error('即梦任务不存在');
+      case 'expired':
+        throw new Error('即梦任务已过期');
+    }
+
+    const isImage = isJimengImageTask(task.kind);
+    const urls: string[] = isImage
+      ? data.image_urls?.length
+        ? data.image_urls
+        : (data.binary_data_base64 || []).map((base64: string) => `data:image/png;base64,${base64}`)
+      : data.video_url ? [data.video_url] : [];
+    if (urls.length === 0) {
+      throw new Error(isImage ? '未获取到图片数据' : '未获取到视频数据');
+    }
+    return { kind: task.kind, urls };
+  }
+
+  /**
+   * 轮询直到任务完成
+   */
+  async waitForTask(task: JimengTaskHandle, signal?: AbortSignal): Promise<JimengTaskResult> {
+    const deadline = Date.now() + (isJimengImageTask(task.kind) ? JIMENG_IMAGE_TIMEOUT : JIMENG_VIDEO_TIMEOUT);
+    while (Date.now() < deadline) {
+      const result = await this.queryTask(task, signal);
+      if (result) return result;
+      await delay(JIMENG_POLL_INTERVAL, signal);
+    }
+
+    throw new Error('即梦任务超时');
+  }
+
+  // 提交异步生成任务
+  private async submitTask(kind: JimengTaskKind, request: Record<string, any>, signal?: AbortSignal): Promise<JimengTaskHandle> {
+    const response = await this.callVisualApi('CVSync2AsyncSubmitTask', request, signal);
+    return { reqKey: request.req_key, taskId: response.data.task_id, kind };
+  }
+
+  // 视觉服务使用 AccessKey/SecretKey 签名鉴权，不使用 API Key
+  protected async buildRequestHeaders(url: string, body: string): Promise<Record<string, string>> {
+    if (!this.source.accessKeyId || !this.source.secretAccessKey) {
+      throw new Error('即梦需要在设置中配置 AccessKey ID 和 Secret Access Key');
+    }
+    return signVolcengineRequest(
+      { method: 'POST', url, headers: { ...this.config.headers }, body },
+      { accessKeyId: this.source.accessKeyId, secretAccessKey: this.source.secretAccessKey }
+    );
+  }
+
+  // 调用视觉服务接口，接口名和版本通过查询参数传递
+  private async callVisualApi(action: string, body: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    const response = await this.makeRequest(`?Action=${action}&Version=${JIMENG_API_VERSION}`, body, signal);
+    if (response.code !== 10000) {
+      throw new Error(`即梦接口错误: ${response.message}`);
+    }
+    return response;
   }
 }
 
@@ -212,24 +521,31 @@ export class OpenAIEngineAdapter extends BaseEngineAdapter {
     model?: string;
     temperature?: number;
     maxTokens?: number;
-    messages?: Array<{ role: string; content: string }>;
-  }): Promise<{ content: string; usage?: any }> {
-    const model = params.model || this.getDefaultModel('text') || 'gpt-4o-mini';
+    messages?: EngineMessage[];
+    jsonMode?: boolean;
+    signal?: AbortSignal;
+  }): Promise<{ content: string; usage?: EngineUsage }> {
+    const response = await this.makeRequest('chat/completions', this.buildRequestData(params), params.signal);
     
-    const requestData = {
-      model,
+    return {
+      content: response.choices[0].message.content,
+      usage: response.usage ? toOpenAIUsage(response.usage) : undefined
+    };
+  }
+
+  streamText(params: TextParams): AsyncIterable<EngineStreamChunk> {
+    return this.streamChatCompletions(this.buildRequestData(params), params.signal);
+  }
+
+  private buildRequestData(params: TextParams) {
+    return {
+      model: params.model || this.getDefaultModel('text') || 'gpt-4o-mini',
       messages: params.messages || [
         { role: 'user', content: params.prompt }
       ],
       temperature: params.temperature ?? 0.7,
-      max_tokens: params.maxTokens
-    };
-
-    const response = await this.makeRequest('chat/completions', requestData);
-    
-    return {
-      content: response.choices[0].message.content,
-      usage: response.usage
+      max_tokens: params.maxTokens,
+      response_format: params.jsonMode ? { type: 'json_object' } : undefined
     };
   }
 
@@ -238,22 +554,31 @@ export class OpenAIEngineAdapter extends BaseEngineAdapter {
     model?: string;
     size?: string;
     quality?: string;
+    style?: string;
     n?: number;
-  }): Promise<{ url: string; revisedPrompt?: string }> {
+    signal?: AbortSignal;
+  }): Promise<{ url: string; urls?: string[]; revisedPrompt?: string }> {
     const model = params.model || this.getDefaultModel('image') || 'dall-e-3';
     
-    const requestData = {
+    const requestData: Record<string, any> = {
       model,
       prompt: params.prompt,
-      n: params.n || 1,
-      size: params.size || '1024x1024',
+      n: Math.min(params.n || 1, 10), // DALL-E最多10张
+      size: getDalleSize(params.size),
       quality: params.quality || 'standard'
     };
 
-    const response = await this.makeRequest('images/generations', requestData);
+    // dall-e-3 支持 style 参数
+    if (model.includes('dall-e-3') && params.style) {
+      requestData.style = params.style === 'natural' ? 'natural' : 'vivid';
+    }
+
+    const response = await this.makeRequest('images/generations', requestData, params.signal);
+    const urls: string[] = response.data.map((item: any) => item.url);
     
     return {
-      url: response.data[0].url,
+      url: urls[0],
+      urls,
       revisedPrompt: response.data[0].revised_prompt
     };
   }
@@ -263,11 +588,466 @@ export class OpenAIEngineAdapter extends BaseEngineAdapter {
     model?: string;
     image?: string;
     duration?: number;
+    signal?: AbortSignal;
   }): Promise<{ url: string; thumbnailUrl?: string }> {
     throw new Error('Sora视频生成功能暂未开放');
   }
 }
 
+// 本地模型引擎适配器（Ollama、LM Studio、vLLM 等 OpenAI 兼容服务）
+// 模型从本地服务查询，请求的模型不在服务上时使用AI源选用的模型；服务未开启鉴权时不需要 API Key
+export class LocalEngineAdapter extends BaseEngineAdapter {
+  async generateText(params: TextParams): Promise<{ content: string; usage?: EngineUsage }> {
+    const response = await this.makeRequest('chat/completions', this.buildRequestData(params), params.signal);
+    return {
+      content: response.choices?.[0]?.message?.content || '',
+      usage: response.usage ? toOpenAIUsage(response.usage) : undefined
+    };
+  }
+
+  streamText(params: TextParams): AsyncIterable<EngineStreamChunk> {
+    return this.streamChatCompletions(this.buildRequestData(params), params.signal);
+  }
+
+  async generateImage(params: {
+    prompt: string;
+    model?: string;
+    size?: string;
+    quality?: string;
+    style?: string;
+    n?: number;
+    signal?: AbortSignal;
+  }): Promise<{ url: string; urls?: string[]; revisedPrompt?: string }> {
+    throw new Error('本地模型引擎不支持图片生成功能');
+  }
+
+  async generateVideo(params: {
+    prompt: string;
+    model?: string;
+    image?: string;
+    duration?: number;
+    signal?: AbortSignal;
+  }): Promise<{ url: string; thumbnailUrl?: string }> {
+    throw new Error('本地模型引擎不支持视频生成功能');
+  }
+
+  /**
+   * 查询本地服务上的模型ID
+   * 先查询 OpenAI 兼容的 /v1/models，失败或为空时查询 Ollama 的 /api/tags
+   */
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    try {
+      const response = await this.getJson(this.buildUrl('models'), signal, MODEL_LIST_TIMEOUT);
+      const models: string[] = (response.data || []).map((model: any) => model.id).filter(Boolean);
+      if (models.length > 0) return models;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn('查询 /v1/models 失败，尝试 Ollama 接口:', error);
+    }
+
+    const baseUrl = (this.source.baseUrl || this.config.baseUrl).replace(/\/$/, '').replace(/\/v1$/, '');
+    const response = await this.getJson(`${baseUrl}/api/tags`, signal, MODEL_LIST_TIMEOUT);
+    return (response.models || []).map((model: any) => model.name || model.model).filter(Boolean);
+  }
+
+  // 选用的模型作为默认模型
+  getDefaultModel(type: 'text' | 'image' | 'video'): string | null {
+    return type === 'text' ? this.source.defaultModel || this.source.models?.[0] || null : null;
+  }
+
+  // 未填写 API Key 时不发送 Authorization 请求头
+  protected buildHeaders(): Record<string, string> {
+    return this.source.apiKey ? super.buildHeaders() : { ...this.config.headers };
+  }
+
+  private buildRequestData(params: TextParams) {
+    return {
+      model: this.resolveModel(params.model),
+      messages: params.messages || [
+        { role: 'user', content: params.prompt }
+      ],
+      temperature: params.temperature ?? 0.7,
+      max_tokens: params.maxTokens,
+      response_format: params.jsonMode ? { type: 'json_object' } : undefined
+    };
+  }
+
+  // 请求的模型在服务上（或尚未查询模型列表）时直接使用，否则使用AI源选用的模型
+  private resolveModel(model?: string): string {
+    const models = this.source.models || [];
+    if (model && (models.length === 0 || models.includes(model))) {
+      return model;
+    }
+    const selected = this.getDefaultModel('text');
+    if (!selected) {
+      throw new Error('本地模型未选择模型，请在设置中获取模型列表并选择模型');
+    }
+    return selected;
+  }
+}
+
+// Stable Diffusion WebUI（AUTOMATIC1111）引擎适配器
+// 调用 /sdapi/v1/txt2img 和 img2img，生成期间查询 /sdapi/v1/progress 报告采样进度，返回 base64 图片和每张图片的种子
+// 模型为 WebUI 上的 checkpoint，未选择时使用 WebUI 当前加载的模型；API Key 填写 --api-auth 的"用户名:密码"
+export class StableDiffusionEngineAdapter extends BaseEngineAdapter {
+  protected imageParams: ImageParamName[] = ALL_IMAGE_PARAMS;
+
+  async generateText(params: TextParams): Promise<{ content: string; usage?: EngineUsage }> {
+    throw new Error('Stable Diffusion 引擎不支持文本生成功能');
+  }
+
+  async generateImage(params: ImageParams): Promise<ImageResult> {
+    const { width, height } = getImageSize(params.size);
+    const batchSize = Math.max(1, params.n || 1);
+    const checkpoint = getSelectedModel(this.source, params.model);
+    const requestData: Record<string, any> = {
+      prompt: params.prompt,
+      negative_prompt: params.negativePrompt || '',
+      seed: params.seed ?? -1,
+      steps: params.steps || 20,
+      cfg_scale: params.cfgScale ?? 7,
+      sampler_name: params.sampler || 'DPM++ 2M Karras',
+      width,
+      height,
+      batch_size: batchSize,
+      n_iter: 1,
+      override_settings: checkpoint ? { sd_model_checkpoint: checkpoint } : undefined
+    };
+
+    let endpoint = 'sdapi/v1/txt2img';
+    if (params.image) {
+      const image = parseDataUrl(params.image);
+      if (!image) {
+        throw new Error('图生图的参考图需为上传的图片');
+      }
+      endpoint = 'sdapi/v1/img2img';
+      requestData.init_images = [image.data];
+      requestData.denoising_strength = params.strength ?? 0.75;
+    } else if (params.hiresFix) {
+      requestData.enable_hr = true;
+      requestData.hr_upscaler = params.hiresFix.upscaler || 'Latent';
+      requestData.hr_scale = params.hiresFix.scale || 2;
+      requestData.denoising_strength = params.hiresFix.denoisingStrength ?? 0.5;
+    }
+
+    const response = await this.trackProgress(
+      () => this.makeRequest(endpoint, requestData, params.signal),
+      params.onProgress,
+      params.signal
+    );
+
+    // info 为 JSON 字符串；批量生成时第一张可能是拼图，从 index_of_first_image 开始取
+    let info: any = {};
+    try {
+      info = JSON.parse(response.info || '{}');
+    } catch {
+      console.warn('解析生成信息失败:', response.info);
+    }
+    const start = info.index_of_first_image || 0;
+    const images: string[] = (response.images || []).slice(start, start + batchSize);
+    if (images.length === 0) {
+      throw new Error('未获取到图片数据');
+    }
+
+    const urls = images.map(data => `data:image/png;base64,${data}`);
+    return { url: urls[0], urls, seeds: info.all_seeds?.slice(0, urls.length) };
+  }
+
+  async generateVideo(params: {
+    prompt: string;
+    model?: string;
+    image?: string;
+    duration?: number;
+    signal?: AbortSignal;
+  }): Promise<{ url: string; thumbnailUrl?: string }> {
+    throw new Error('Stable Diffusion 引擎不支持视频生成功能');
+  }
+
+  // 查询 WebUI 上的 checkpoint，标题可直接作为 sd_model_checkpoint
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const models = await this.getJson(this.buildUrl('sdapi/v1/sd-models'), signal, MODEL_LIST_TIMEOUT);
+    return (models || []).map((model: any) => model.title || model.model_name).filter(Boolean);
+  }
+
+  getDefaultModel(type: 'text' | 'image' | 'video'): string | null {
+    return type === 'image' ? this.source.defaultModel || null : null;
+  }
+
+  // --api-auth 使用 HTTP Basic 认证，未开启鉴权时不发送；用户名和密码按 UTF-8 编码，可包含中文
+  protected buildHeaders(): Record<string, string> {
+    const headers = { ...this.config.headers };
+    if (this.source.apiKey) {
+      headers['Authorization'] = `Basic ${toBase64(new TextEncoder().encode(this.source.apiKey))}`;
+    }
+    return headers;
+  }
+
+  // 请求进行中定时查询进度，取消时通知 WebUI 中断当前生成
+  private async trackProgress<T>(
+    request: () => Promise<T>,
+    onProgress?: (progress: EngineProgress) => void,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let finished = false;
+    const poll = async () => {
+      while (!finished) {
+        await delay(SD_PROGRESS_INTERVAL);
+        if (finished) return;
+        try {
+          const progress = await this.getJson(
+            this.buildUrl('sdapi/v1/progress?skip_current_image=true'),
+            undefined,
+            MODEL_LIST_TIMEOUT
+          );
+          if (!finished) {
+            onProgress!({
+              percent: Math.round((progress.progress || 0) * 100),
+              step: progress.state?.sampling_step,
+              totalSteps: progress.state?.sampling_steps
+            });
+          }
+        } catch (error) {
+          console.warn('查询生成进度失败:', error);
+        }
+      }
+    };
+    const onAbort = () => {
+      this.makeRequest('sdapi/v1/interrupt', {}).catch(() => {});
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (onProgress) poll();
+    try {
+      const result = await request();
+      onProgress?.({ percent: 100 });
+      return result;
+    } finally {
+      finished = true;
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+// ComfyUI 引擎适配器
+// 提交 API 格式的工作流到 /prompt，通过 WebSocket 接收采样进度，执行结束后从 /history 取结果图片并转为 base64
+// 未配置自定义工作流时使用内置的文生图 / 图生图工作流；自定义工作流中的 {{prompt}} 等占位符替换为生成参数
+export class ComfyUIEngineAdapter extends BaseEngineAdapter {
+  protected imageParams: ImageParamName[] = ALL_IMAGE_PARAMS;
+
+  async generateText(params: TextParams): Promise<{ content: string; usage?: EngineUsage }> {
+    throw new Error('ComfyUI 引擎不支持文本生成功能');
+  }
+
+  async generateImage(params: ImageParams): Promise<ImageResult> {
+    const checkpoint = getSelectedModel(this.source, params.model) || (await this.listModels(params.signal))[0];
+    if (!checkpoint) {
+      throw new Error('ComfyUI 上没有可用的 checkpoint 模型');
+    }
+
+    const { width, height } = getImageSize(params.size);
+    const { sampler, scheduler } = getComfySampler(params.sampler);
+    const seed = params.seed ?? Math.floor(Math.random() * 2 ** 32);
+    const values: Record<string, string | number> = {
+      prompt: params.prompt,
+      negative_prompt: params.negativePrompt || '',
+      ckpt_name: checkpoint,
+      seed,
+      steps: params.steps || 20,
+      cfg: params.cfgScale ?? 7,
+      sampler_name: sampler,
+      scheduler,
+      width,
+      height,
+      batch_size: Math.max(1, params.n || 1),
+      image: params.image ? await this.uploadImage(params.image, params.signal) : '',
+      denoise: params.image ? params.strength ?? 0.75 : 1,
+      hires_scale: params.hiresFix?.scale || 2,
+      hires_denoise: params.hiresFix?.denoisingStrength ?? 0.5
+    };
+    const workflow = fillWorkflow(this.getWorkflow(!!params.image, !!params.hiresFix && !params.image), values);
+
+    const clientId = `ai-image-automation-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+    const stopProgress = params.onProgress ? this.watchProgress(clientId, params.onProgress) : undefined;
+    let promptId: string | undefined;
+    const onAbort = () => {
+      if (promptId) this.cancelPrompt(promptId).catch(() => {});
+    };
+    params.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      promptId = (await this.makeRequest('prompt', { prompt: workflow, client_id: clientId }, params.signal)).prompt_id as string;
+      const outputs = await this.waitForOutputs(promptId, params.signal);
+      const images = Object.values(outputs)
+        .flatMap((output: any) => output.images || [])
+        .filter((image: any) => image.type === 'output');
+      if (images.length === 0) {
+        throw new Error('未获取到图片数据');
+      }
+
+      const urls = await Promise.all(images.map(image => this.fetchImage(image, params.signal)));
+      params.onProgress?.({ percent: 100 });
+      // 同一批次的图片共用种子
+      return { url: urls[0], urls, seeds: urls.map(() => seed) };
+    } finally {
+      stopProgress?.();
+      params.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  async generateVideo(params: {
+    prompt: string;
+    model?: string;
+    image?: string;
+    duration?: number;
+    signal?: AbortSignal;
+  }): Promise<{ url: string; thumbnailUrl?: string }> {
+    throw new Error('ComfyUI 引擎不支持视频生成功能');
+  }
+
+  // 查询 ComfyUI 上的 checkpoint 文件名
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const info = await this.getJson(this.buildUrl('object_info/CheckpointLoaderSimple'), signal, MODEL_LIST_TIMEOUT);
+    return info.CheckpointLoaderSimple?.input?.required?.ckpt_name?.[0] || [];
+  }
+
+  getDefaultModel(type: 'text' | 'image' | 'video'): string | null {
+    return type === 'image' ? this.source.defaultModel || null : null;
+  }
+
+  // ComfyUI 本身没有鉴权，经反向代理开启鉴权时填写 API Key
+  protected buildHeaders(): Record<string, string> {
+    return this.source.apiKey ? super.buildHeaders() : { ...this.config.headers };
+  }
+
+  // 自定义工作流优先，否则使用内置工作流
+  private getWorkflow(imageToImage: boolean, hiresFix: boolean): Record<string, any> {
+    if (!this.source.comfyWorkflow?.trim()) {
+      return buildComfyWorkflow(imageToImage, hiresFix);
+    }
+    try {
+      return JSON.parse(this.source.comfyWorkflow);
+    } catch {
+      throw new Error('ComfyUI 自定义工作流不是有效的 JSON');
+    }
+  }
+
+  // 上传参考图到 ComfyUI 的 input 目录，返回 LoadImage 使用的文件名
+  private async uploadImage(dataUrl: string, signal?: AbortSignal): Promise<string> {
+    const image = parseDataUrl(dataUrl);
+    if (!image) {
+      throw new Error('图生图的参考图需为上传的图片');
+    }
+
+    const bytes = Uint8Array.from(atob(image.data), char => char.charCodeAt(0));
+    const form = new FormData();
+    form.append('image', new Blob([bytes], { type: image.mimeType }), `reference_${Date.now()}.${image.mimeType.split('/')[1] || 'png'}`);
+    form.append('overwrite', 'true');
+
+    // multipart 请求由浏览器生成 Content-Type（含 boundary）
+    const headers = this.buildHeaders();
+    delete headers['Content-Type'];
+    const response = await fetch(this.buildUrl('upload/image'), {
+      method: 'POST',
+      headers,
+      body: form,
+      signal: this.buildSignal(signal)
+    });
+    if (!response.ok) {
+      throw new Error(`上传参考图失败: ${response.status} ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.subfolder ? `${result.subfolder}/${result.name}` : result.name;
+  }
+
+  // 取消本次提交的工作流：先从等待队列中删除，已开始执行时才中断，不影响其他客户端提交的任务
+  private async cancelPrompt(promptId: string): Promise<void> {
+    await this.post('queue', { delete: [promptId] });
+    const queue = await this.getJson(this.buildUrl('queue'));
+    if ((queue.queue_running || []).some((item: any[]) => item[1] === promptId)) {
+      await this.post('interrupt', { prompt_id: promptId });
+    }
+  }
+
+  // /queue 和 /interrupt 成功时不返回内容
+  private async post(endpoint: string, data: any): Promise<void> {
+    const response = await fetch(this.buildUrl(endpoint), {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(data),
+      signal: this.buildSignal()
+    });
+    if (!response.ok) {
+      throw new Error(`API请求失败: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  // 轮询 /history 直到工作流执行结束，最长等待引擎配置的超时时间
+  private async waitForOutputs(promptId: string, signal?: AbortSignal): Promise<Record<string, any>> {
+    const deadline = Date.now() + (this.config.requestConfig?.timeout || 60000);
+    while (Date.now() < deadline) {
+      const history = await this.getJson(this.buildUrl(`history/${promptId}`), signal);
+      const entry = history[promptId];
+      if (entry?.status?.status_str === 'error') {
+        const error = entry.status.messages?.find(([type]: [string]) => type === 'execution_error')?.[1];
+        throw new Error(`ComfyUI 执行失败: ${error?.exception_message || '未知错误'}`);
+      }
+      if (entry && entry.status?.completed !== false) {
+        return entry.outputs || {};
+      }
+      await delay(SD_PROGRESS_INTERVAL, signal);
+    }
+    throw new Error('ComfyUI 生成超时');
+  }
+
+  // 下载结果图片并转为 data URL
+  private async fetchImage(image: { filename: string; subfolder?: string; type?: string }, signal?: AbortSignal): Promise<string> {
+    const query = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder || '', type: image.type || 'output' });
+    const response = await fetch(this.buildUrl(`view?${query}`), {
+      headers: this.buildHeaders(),
+      signal: this.buildSignal(signal)
+    });
+    if (!response.ok) {
+      throw new Error(`获取图片失败: ${response.status} ${response.statusText}`);
+    }
+
+    const mimeType = response.headers.get('Content-Type') || 'image/png';
+    return `data:${mimeType};base64,${toBase64(await response.arrayBuffer())}`;
+  }
+
+  // 通过 WebSocket 接收本客户端提交的工作流的采样进度，返回关闭连接的函数
+  private watchProgress(clientId: string, onProgress: (progress: EngineProgress) => void): () => void {
+    if (typeof WebSocket === 'undefined') return () => {};
+
+    const baseUrl = (this.source.baseUrl || this.config.baseUrl).replace(/\/$/, '').replace(/^http/, 'ws');
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(`${baseUrl}/ws?clientId=${encodeURIComponent(clientId)}`);
+    } catch (error) {
+      console.warn('连接 ComfyUI 进度推送失败:', error);
+      return () => {};
+    }
+
+    socket.onmessage = event => {
+      // 预览图为二进制消息
+      if (typeof event.data !== 'string') return;
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === 'progress' && message.data?.max) {
+          onProgress({
+            percent: Math.round((message.data.value / message.data.max) * 100),
+            step: message.data.value,
+            totalSteps: message.data.max
+          });
+        }
+      } catch {
+        console.warn('解析进度消息失败:', event.data);
+      }
+    };
+    return () => socket.close();
+  }
+}
+
 // Claude引擎适配器
 export class ClaudeEngineAdapter extends BaseEngineAdapter {
   async generateText(params: {
@@ -275,24 +1055,55 @@ export class ClaudeEngineAdapter extends BaseEngineAdapter {
     model?: string;
     temperature?: number;
     maxTokens?: number;
-    messages?: Array<{ role: string; content: string }>;
-  }): Promise<{ content: string; usage?: any }> {
-    const model = params.model || this.getDefaultModel('text') || 'claude-3-5-sonnet-20240620';
+    messages?: EngineMessage[];
+    jsonMode?: boolean;
+    signal?: AbortSignal;
+  }): Promise<{ content: string; usage?: EngineUsage }> {
+    const response = await this.makeRequest('messages', this.buildRequestData(params), params.signal);
     
-    const requestData = {
-      model,
-      max_tokens: params.maxTokens || 1000,
-      temperature: params.temperature ?? 0.7,
-      messages: params.messages || [
-        { role: 'user', content: params.prompt }
-      ]
+    return {
+      content: response.content[0].text,
+      usage: response.usage ? toClaudeUsage(response.usage) : undefined
     };
+  }
 
-    const response = await this.makeRequest('messages', requestData);
-    
+  // 流式事件：message_start 携带输入用量，content_block_delta 携带增量文本，message_delta 携带输出用量
+  async *streamText(params: TextParams): AsyncIterable<EngineStreamChunk> {
+    const usage: { input_tokens?: number; output_tokens?: number } = {};
+    const requestData = { ...this.buildRequestData(params), stream: true };
+
+    for await (const { data } of this.streamRequest('messages', requestData, params.signal)) {
+      switch (data.type) {
+        case 'message_start':
+          usage.input_tokens = data.message?.usage?.input_tokens;
+          break;
+        case 'content_block_delta':
+          if (data.delta?.type === 'text_delta' && data.delta.text) {
+            yield { delta: data.delta.text };
+          }
+          break;
+        case 'message_delta':
+          usage.output_tokens = data.usage?.output_tokens;
+          break;
+        case 'error':
+          throw new Error(data.error?.message || 'Claude返回错误');
+      }
+    }
+
+    if (usage.input_tokens !== undefined || usage.output_tokens !== undefined) {
+      yield { usage: toClaudeUsage(usage) };
+    }
+  }
+
+  // Claude 没有 JSON 模式，jsonMode 时依靠提示词约束输出格式
+  private buildRequestData(params: TextParams) {
     return {
-      content: response.content[0].text,
-      usage: response.usage
+      model: params.model || this.getDefaultModel('text') || 'claude-3-5-sonnet-20240620',
+      max_tokens: params.maxTokens || 1000,
+      temperature: params.temperature ?? 0.7,
+      messages: params.messages
+        ? params.messages.map(message => ({ role: message.role, content: toClaudeContent(message.content) }))
+        : [{ role: 'user', content: params.prompt }]
     };
   }
 
@@ -301,8 +1112,10 @@ export class ClaudeEngineAdapter extends BaseEngineAdapter {
     model?: string;
     size?: string;
     quality?: string;
+    style?: string;
     n?: number;
-  }): Promise<{ url: string; revisedPrompt?: string }> {
+    signal?: AbortSignal;
+  }): Promise<{ url: string; urls?: string[]; revisedPrompt?: string }> {
     throw new Error('Claude引擎不支持图片生成功能');
   }
 
@@ -311,6 +1124,7 @@ export class ClaudeEngineAdapter extends BaseEngineAdapter {
     model?: string;
     image?: string;
     duration?: number;
+    signal?: AbortSignal;
   }): Promise<{ url: string; thumbnailUrl?: string }> {
     throw new Error('Claude引擎不支持视频生成功能');
   }
@@ -318,41 +1132,78 @@ export class ClaudeEngineAdapter extends BaseEngineAdapter {
 
 // Gemini引擎适配器
 export class GeminiEngineAdapter extends BaseEngineAdapter {
+  protected imageParams: ImageParamName[] = ['negativePrompt', 'seed'];
+
   async generateText(params: {
     prompt: string;
     model?: string;
     temperature?: number;
     maxTokens?: number;
-    messages?: Array<{ role: string; content: string }>;
-  }): Promise<{ content: string; usage?: any }> {
+    messages?: EngineMessage[];
+    jsonMode?: boolean;
+    signal?: AbortSignal;
+  }): Promise<{ content: string; usage?: EngineUsage }> {
     const model = params.model || this.getDefaultModel('text') || 'gemini-1.5-flash';
+    const response = await this.makeRequest(`models/${model}:generateContent`, this.buildRequestData(params), params.signal);
     
-    const requestData = {
-      contents: [{
-        parts: [{ text: params.prompt }]
-      }],
-      generationConfig: {
-        temperature: params.temperature ?? 0.7,
-        maxOutputTokens: params.maxTokens || 1000
-      }
+    return {
+      content: response.candidates[0].content.parts[0].text,
+      usage: response.usageMetadata ? toGeminiUsage(response.usageMetadata) : undefined
     };
+  }
 
-    const response = await this.makeRequest(`models/${model}:generateContent`, requestData);
-    
+  // alt=sse 时以 SSE 返回，每个事件是一段完整的响应，usageMetadata 为累计用量
+  async *streamText(params: TextParams): AsyncIterable<EngineStreamChunk> {
+    const model = params.model || this.getDefaultModel('text') || 'gemini-1.5-flash';
+    let usage: EngineUsage | undefined;
+
+    const events = this.streamRequest(`models/${model}:streamGenerateContent?alt=sse`, this.buildRequestData(params), params.signal);
+    for await (const { data } of events) {
+      if (data.error) {
+        throw new Error(data.error.message || 'Gemini返回错误');
+      }
+      const delta = (data.candidates?.[0]?.content?.parts || []).map((part: any) => part.text || '').join('');
+      if (delta) yield { delta };
+      if (data.usageMetadata) usage = toGeminiUsage(data.usageMetadata);
+    }
+    if (usage) yield { usage };
+  }
+
+  private buildRequestData(params: TextParams) {
     return {
-      content: response.candidates[0].content.parts[0].text,
-      usage: response.metadata?.tokenMetadata
+      contents: params.messages
+        ? params.messages.map(message => ({
+            role: message.role === 'assistant' ? 'model' : 'user',
+            parts: toGeminiParts(message.content)
+          }))
+        : [{ parts: [{ text: params.prompt }] }],
+      generationConfig: {
+        temperature: params.temperature ?? 0.7,
+        maxOutputTokens: params.maxTokens || 1000,
+        responseMimeType: params.jsonMode ? 'application/json' : undefined
+      }
     };
   }
 
-  async generateImage(params: {
-    prompt: string;
-    model?: string;
-    size?: string;
-    quality?: string;
-    n?: number;
-  }): Promise<{ url: string; revisedPrompt?: string }> {
-    throw new Error('Gemini图片生成功能暂未实现');
+  async generateImage(params: ImageParams): Promise<ImageResult> {
+    const model = params.model || this.getDefaultModel('image') || 'imagen-3';
+    if (!model.includes('imagen')) {
+      throw new Error(`模型 ${model} 不支持图片生成`);
+    }
+
+    const response = await this.makeRequest(`models/${model}:generateImage`, {
+      prompt: params.prompt,
+      negativePrompt: params.negativePrompt || undefined,
+      seed: params.seed,
+      count: params.n || 1,
+      size: getGeminiSize(params.size)
+    }, params.signal);
+    const urls: string[] = response.generatedImages?.map((item: any) => item.image) || [];
+    if (urls.length === 0) {
+      throw new Error('未获取到图片数据');
+    }
+
+    return { url: urls[0], urls };
   }
 
   async generateVideo(params: {
@@ -360,28 +1211,261 @@ export class GeminiEngineAdapter extends BaseEngineAdapter {
     model?: string;
     image?: string;
     duration?: number;
+    signal?: AbortSignal;
   }): Promise<{ url: string; thumbnailUrl?: string }> {
     throw new Error('Gemini引擎不支持视频生成功能');
   }
 }
 
-// 引擎适配器工厂
-export function createEngineAdapter(type: AIEngineType, source: AISource): EngineAdapter {
-  const { AI_ENGINE_CONFIGS } = require('../config/engines');
-  const config = AI_ENGINE_CONFIGS[type];
-  
-  switch (type) {
-    case AIEngineType.DOUBAO:
-      return new DoubaoEngineAdapter(config, source);
-    case AIEngineType.JIMENG:
-      return new JimengEngineAdapter(config, source);
-    case AIEngineType.OPENAI:
-      return new OpenAIEngineAdapter(config, source);
-    case AIEngineType.CLAUDE:
-      return new ClaudeEngineAdapter(config, source);
-    case AIEngineType.GEMINI:
-      return new GeminiEngineAdapter(config, source);
-    default:
-      throw new Error(`不支持的引擎类型: ${type}`);
-  }
-}
\ No newline at end of file
+// 按 SSE 格式拆分响应流：空行分隔事件，event 为事件名，多行 data 以换行拼接
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() || '';
+      if (done) lines.push('');
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) yield { event, data: data.join('\n') };
+          event = undefined;
+          data = [];
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        } else if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        }
+      }
+      if (done) return;
+    }
+  } finally {
+    // 提前结束（取消或调用方中断遍历）时关闭连接
+    reader.cancel().catch(() => {});
+  }
+}
+
+// 转换 OpenAI 格式的用量
+function toOpenAIUsage(usage: any): EngineUsage {
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens
+  };
+}
+
+// 转换 Claude 格式的用量，Claude 不返回总量
+function toClaudeUsage(usage: any): EngineUsage {
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    totalTokens: (usage.input_tokens || 0) + (usage.output_tokens || 0)
+  };
+}
+
+// 转换 Gemini 的 usageMetadata
+function toGeminiUsage(usageMetadata: any): EngineUsage {
+  return {
+    inputTokens: usageMetadata.promptTokenCount,
+    outputTokens: usageMetadata.candidatesTokenCount,
+    totalTokens: usageMetadata.totalTokenCount
+  };
+}
+
+// Claude 消息内容：图片片段转换为 image 块，data URL 以 base64 发送
+function toClaudeContent(content: EngineMessage['content']): any {
+  if (typeof content === 'string') return content;
+  return content.map(part => {
+    if (part.type === 'text') return part;
+    const image = parseDataUrl(part.image_url.url);
+    return {
+      type: 'image',
+      source: image
+        ? { type: 'base64', media_type: image.mimeType, data: image.data }
+        : { type: 'url', url: part.image_url.url }
+    };
+  });
+}
+
+// Gemini 消息内容：图片只支持 data URL，以 inline_data 发送
+function toGeminiParts(content: EngineMessage['content']): any[] {
+  if (typeof content === 'string') return [{ text: content }];
+  return content.map((part: EngineContentPart) => {
+    if (part.type === 'text') return { text: part.text };
+    const image = parseDataUrl(part.image_url.url);
+    if (!image) {
+      throw new Error('Gemini 只支持上传的图片，不支持图片链接');
+    }
+    return { inline_data: { mime_type: image.mimeType, data: image.data } };
+  });
+}
+
+function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+}
+
+// 任务使用的 req_key：模型属于其他任务类型（如未上传首帧时选了图生视频模型）时使用该类型的默认值
+function getJimengReqKey(kind: JimengTaskKind, model?: string): string {
+  const reqKey = model ? JIMENG_MODEL_REQ_KEYS[model] || model : '';
+  const otherKinds = Object.entries(JIMENG_REQ_KEYS).filter(([other]) => other !== kind).map(([, key]) => key);
+  if (!reqKey.startsWith('jimeng_') || otherKinds.includes(reqKey)) {
+    return JIMENG_REQ_KEYS[kind];
+  }
+  return reqKey;
+}
+
+// 图片类任务（文生图、图生图）
+function isJimengImageTask(kind: JimengTaskKind): boolean {
+  return kind === 'text-to-image' || kind === 'image-to-image';
+}
+
+// 即梦的输入图片：链接使用 image_urls，上传的图片（data URL）使用 binary_data_base64
+function getJimengImageInput(image: string): Record<string, string[]> {
+  return /^https?:\/\//.test(image)
+    ? { image_urls: [image] }
+    : { binary_data_base64: [image.replace(/^data:[^;]+;base64,/, '')] };
+}
+
+// 解析即梦图片尺寸：支持预设比例或"宽x高"，无法识别时使用 1:1
+function getJimengSize(size?: string): { width: number; height: number } {
+  if (size && JIMENG_SIZE_PRESETS[size]) return JIMENG_SIZE_PRESETS[size];
+  const match = size?.match(/^(\d+)x(\d+)$/);
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : JIMENG_SIZE_PRESETS['1:1'];
+}
+
+// 转换尺寸为DALL-E支持的格式
+function getDalleSize(size?: string): string {
+  const sizeMap: Record<string, string> = {
+    '256x256': '256x256',
+    '512x512': '512x512',
+    '1024x1024': '1024x1024',
+    '1024x1792': '1024x1792',
+    '1792x1024': '1792x1024'
+  };
+  return sizeMap[size || ''] || '1024x1024';
+}
+
+// 转换尺寸为Gemini支持的格式
+function getGeminiSize(size?: string): string {
+  const sizeMap: Record<string, string> = {
+    '512x512': '512x512',
+    '1024x1024': '1024x1024'
+  };
+  return sizeMap[size || ''] || '1024x1024';
+}
+
+// 请求的模型在服务上时使用，否则使用AI源选用的模型
+function getSelectedModel(source: AISource, model?: string): string | undefined {
+  return model && source.models?.includes(model) ? model : source.defaultModel;
+}
+
+// 解析"宽x高"格式的尺寸，无法识别时使用 1024x1024
+function getImageSize(size?: string): { width: number; height: number } {
+  const match = size?.match(/^(\d+)x(\d+)$/);
+  return match ? { width: Number(match[1]), height: Number(match[2]) } : { width: 1024, height: 1024 };
+}
+
+// WebUI 采样器名称转换为 ComfyUI 的 sampler_name 和 scheduler（Karras、Exponential 后缀为调度器），无法识别的名称原样使用
+function getComfySampler(name?: string): { sampler: string; scheduler: string } {
+  const match = (name || 'DPM++ 2M Karras').match(/^(.*?)(?: (Karras|Exponential))?$/)!;
+  return {
+    sampler: COMFY_SAMPLERS[match[1]] || match[1],
+    scheduler: match[2] ? match[2].toLowerCase() : 'normal'
+  };
+}
+
+// ComfyUI 内置工作流（API 格式），生成参数为 {{名称}} 占位符
+// 图生图以 LoadImage + VAEEncode 代替空白 latent；高清修复在第一次采样后放大 latent 再采样一次
+function buildComfyWorkflow(imageToImage: boolean, hiresFix: boolean): Record<string, any> {
+  const sampler = (latent: [string, number], denoise: string) => ({
+    class_type: 'KSampler',
+    inputs: {
+      model: ['1', 0],
+      positive: ['2', 0],
+      negative: ['3', 0],
+      latent_image: latent,
+      seed: '{{seed}}',
+      steps: '{{steps}}',
+      cfg: '{{cfg}}',
+      sampler_name: '{{sampler_name}}',
+      scheduler: '{{scheduler}}',
+      denoise
+    }
+  });
+
+  const workflow: Record<string, any> = {
+    '1': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: '{{ckpt_name}}' } },
+    '2': { class_type: 'CLIPTextEncode', inputs: { text: '{{prompt}}', clip: ['1', 1] } },
+    '3': { class_type: 'CLIPTextEncode', inputs: { text: '{{negative_prompt}}', clip: ['1', 1] } },
+    '4': imageToImage
+      ? { class_type: 'RepeatLatentBatch', inputs: { samples: ['9', 0], amount: '{{batch_size}}' } }
+      : { class_type: 'EmptyLatentImage', inputs: { width: '{{width}}', height: '{{height}}', batch_size: '{{batch_size}}' } },
+    '5': sampler(['4', 0], '{{denoise}}'),
+    '6': { class_type: 'VAEDecode', inputs: { samples: [hiresFix ? '11' : '5', 0], vae: ['1', 2] } },
+    '7': { class_type: 'SaveImage', inputs: { images: ['6', 0], filename_prefix: 'ai-image-automation' } }
+  };
+  if (imageToImage) {
+    workflow['8'] = { class_type: 'LoadImage', inputs: { image: '{{image}}' } };
+    workflow['9'] = { class_type: 'VAEEncode', inputs: { pixels: ['8', 0], vae: ['1', 2] } };
+  }
+  if (hiresFix) {
+    workflow['10'] = {
+      class_type: 'LatentUpscaleBy',
+      inputs: { samples: ['5', 0], upscale_method: 'nearest-exact', scale_by: '{{hires_scale}}' }
+    };
+    workflow['11'] = sampler(['10', 0], '{{hires_denoise}}');
+  }
+  return workflow;
+}
+
+// 替换工作流中的 {{名称}} 占位符：整个字符串为占位符时替换为参数原值（保留数字类型），否则按文本插入
+function fillWorkflow(value: any, values: Record<string, string | number>): any {
+  if (typeof value === 'string') {
+    const exact = value.match(/^\{\{(\w+)\}\}$/);
+    if (exact && exact[1] in values) return values[exact[1]];
+    return value.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => (name in values ? String(values[name]) : placeholder));
+  }
+  if (Array.isArray(value)) return value.map(item => fillWorkflow(item, values));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillWorkflow(item, values)]));
+  }
+  return value;
+}
+
+// 二进制数据转 base64，分段转换避免超出参数个数限制
+function toBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
+
+// 可取消的等待
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason || new Error('已取消'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason || new Error('已取消'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
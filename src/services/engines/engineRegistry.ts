@@ -0,0 +1,87 @@
+/**
+ * AI引擎注册表
+ * 按引擎类型注册适配器类，apiService、工作流执行器和 LangChain 服务统一通过注册表创建适配器
+ * 新增引擎只需实现一个 BaseEngineAdapter 子类并在这里注册
+ */
+
+import { AI_ENGINE_CONFIGS, AIEngineType } from '../../config/engines';
+import type { AIEngineConfig, AISource } from '../../config/engines';
+import type { EngineAdapter, EngineCapabilities } from '../../adapters/types';
+import {
+  ClaudeEngineAdapter,
+  ComfyUIEngineAdapter,
+  DoubaoEngineAdapter,
+  GeminiEngineAdapter,
+  JimengEngineAdapter,
+  LocalEngineAdapter,
+  OpenAIEngineAdapter,
+  StableDiffusionEngineAdapter
+} from './engineAdapters';
+
+// 适配器类：以引擎配置和AI源构造
+export type EngineAdapterClass = new (config: AIEngineConfig, source: AISource) => EngineAdapter;
+
+export class EngineRegistry {
+  private engines = new Map<AIEngineType, EngineAdapterClass>();
+
+  /**
+   * 注册引擎适配器，同一类型重复注册时覆盖
+   */
+  register(type: AIEngineType, adapterClass: EngineAdapterClass): void {
+    this.engines.set(type, adapterClass);
+  }
+
+  /**
+   * 注销引擎适配器
+   */
+  unregister(type: AIEngineType): void {
+    this.engines.delete(type);
+  }
+
+  /**
+   * 是否已注册某类引擎
+   */
+  isRegistered(type: AIEngineType): boolean {
+    return this.engines.has(type);
+  }
+
+  /**
+   * 已注册的引擎类型
+   */
+  getRegisteredTypes(): AIEngineType[] {
+    return Array.from(this.engines.keys());
+  }
+
+  /**
+   * 为AI源创建适配器
+   */
+  create(source: AISource): EngineAdapter {
+    const AdapterClass = this.engines.get(source.type);
+    if (!AdapterClass) {
+      throw new Error(`不支持的引擎类型: ${source.type}`);
+    }
+    return new AdapterClass(AI_ENGINE_CONFIGS[source.type], source);
+  }
+
+  /**
+   * 引擎类型具备的能力，未注册的类型不具备任何能力
+   */
+  getCapabilities(type: AIEngineType): EngineCapabilities {
+    if (!this.engines.has(type)) {
+      return { chat: false, stream: false, image: false, video: false, imageParams: [] };
+    }
+    return this.create({ id: '', name: '', type, apiKey: '', isDefault: false }).getCapabilities();
+  }
+}
+
+// 创建全局引擎注册表并注册内置引擎，自定义引擎按 OpenAI 兼容格式调用
+export const engineRegistry = new EngineRegistry();
+engineRegistry.register(AIEngineType.OPENAI, OpenAIEngineAdapter);
+engineRegistry.register(AIEngineType.CLAUDE, ClaudeEngineAdapter);
+engineRegistry.register(AIEngineType.GEMINI, GeminiEngineAdapter);
+engineRegistry.register(AIEngineType.DOUBAO, DoubaoEngineAdapter);
+engineRegistry.register(AIEngineType.JIMENG, JimengEngineAdapter);
+engineRegistry.register(AIEngineType.LOCAL, LocalEngineAdapter);
+engineRegistry.register(AIEngineType.STABLE_DIFFUSION, StableDiffusionEngineAdapter);
+engineRegistry.register(AIEngineType.COMFYUI, ComfyUIEngineAdapter);
+engineRegistry.register(AIEngineType.CUSTOM, OpenAIEngineAdapter);
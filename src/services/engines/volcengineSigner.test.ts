@@ -0,0 +1,146 @@
+/**
+ * 火山引擎签名测试
+ * 期望值按火山引擎签名规范用独立实现（Python hashlib/hmac）计算得到，固定 X-Date 和密钥对
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { buildVolcengineSignature, signVolcengineRequest } from './volcengineSigner';
+
+const credentials = {
+  accessKeyId: 'AKLTNDQ2YTRlNTBiYTg1NDcyNmE3MDA1MTUzNzc5MWMwNmI',
+  secretAccessKey: 'WkdFd01qZzFOemM1TVdJeE5ETmtaRGhpWWpFMU5tWTNOREl5TkRBeVpHVQ=='
+};
+const date = new Date('2024-03-15T08:30:00Z');
+const headers = { 'Content-Type': 'application/json' };
+
+describe('signVolcengineRequest', () => {
+  it('对 CVSync2AsyncSubmitTask 请求签名', async () => {
+    const body =
+      '{"req_key":"jimeng_t2i_v30","prompt":"一只戴着围巾的橘猫，水彩风格","width":1328,"height":1328,"seed":-1}';
+    const result = await buildVolcengineSignature(
+      {
+        method: 'POST',
+        url: 'https://visual.volcengineapi.com/?Action=CVSync2AsyncSubmitTask&Version=2022-08-31',
+        headers,
+        body,
+        date
+      },
+      credentials
+    );
+
+    const payloadHash = '950e7e99235957d0de297f553c45beaae22cb60bd1d676179dd9a00070bf6e2c';
+    assert.equal(result.headers['X-Date'], '20240315T083000Z');
+    assert.equal(result.headers['X-Content-Sha256'], payloadHash);
+    assert.equal(
+      result.canonicalRequest,
+      [
+        'POST',
+        '/',
+        'Action=CVSync2AsyncSubmitTask&Version=2022-08-31',
+        'content-type:application/json',
+        'host:visual.volcengineapi.com',
+        `x-content-sha256:${payloadHash}`,
+        'x-date:20240315T083000Z',
+        '',
+        'content-type;host;x-content-sha256;x-date',
+        payloadHash
+      ].join('\n')
+    );
+    assert.equal(
+      result.headers['Authorization'],
+      'HMAC-SHA256 Credential=AKLTNDQ2YTRlNTBiYTg1NDcyNmE3MDA1MTUzNzc5MWMwNmI/20240315/cn-north-1/cv/request, ' +
+        'SignedHeaders=content-type;host;x-content-sha256;x-date, ' +
+        'Signature=4210dcb5f1125f996386c9fc220be6a9a97419dd065620c48e13029700763f02'
+    );
+  });
+
+  it('对 CVSync2AsyncGetResult 请求签名', async () => {
+    const body = '{"req_key":"jimeng_t2i_v30","task_id":"7418372047816720394","req_json":"{\\"return_url\\":true}"}';
+    const result = await buildVolcengineSignature(
+      {
+        method: 'POST',
+        url: 'https://visual.volcengineapi.com/?Action=CVSync2AsyncGetResult&Version=2022-08-31',
+        headers,
+        body,
+        date
+      },
+      credentials
+    );
+
+    const payloadHash = 'f0863957619849202b53a5e1499170d67ae56cbac43d3c6461e06f8305b55ae7';
+    assert.equal(result.headers['X-Content-Sha256'], payloadHash);
+    assert.equal(
+      result.canonicalRequest,
+      [
+        'POST',
+        '/',
+        'Action=CVSync2AsyncGetResult&Version=2022-08-31',
+        'content-type:application/json',
+        'host:visual.volcengineapi.com',
+        `x-content-sha256:${payloadHash}`,
+        'x-date:20240315T083000Z',
+        '',
+        'content-type;host;x-content-sha256;x-date',
+        payloadHash
+      ].join('\n')
+    );
+    assert.equal(
+      result.headers['Authorization'],
+      'HMAC-SHA256 Credential=AKLTNDQ2YTRlNTBiYTg1NDcyNmE3MDA1MTUzNzc5MWMwNmI/20240315/cn-north-1/cv/request, ' +
+        'SignedHeaders=content-type;host;x-content-sha256;x-date, ' +
+        'Signature=7f24dca4bac5b6bba657168ae1c1a1852fef59c250b26752dabd833d4d8b1b77'
+    );
+  });
+
+  it('查询参数排序并按 RFC 3986 编码，空请求体使用空串摘要', async () => {
+    const result = await buildVolcengineSignature(
+      {
+        method: 'post',
+        url: 'https://visual.volcengineapi.com/?X-Note=a+b*&Version=2022-08-31&Action=CVSync2AsyncGetResult',
+        date
+      },
+      credentials
+    );
+
+    const payloadHash = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+    assert.equal(result.headers['X-Content-Sha256'], payloadHash);
+    assert.equal(
+      result.canonicalRequest,
+      [
+        'POST',
+        '/',
+        'Action=CVSync2AsyncGetResult&Version=2022-08-31&X-Note=a%20b%2A',
+        'host:visual.volcengineapi.com',
+        `x-content-sha256:${payloadHash}`,
+        'x-date:20240315T083000Z',
+        '',
+        'host;x-content-sha256;x-date',
+        payloadHash
+      ].join('\n')
+    );
+    assert.equal(result.signature, '254b648ab4fe7d62e9707b863f62243a353f550bacd7dfc128f5c94e3492a060');
+  });
+
+  it('返回的请求头不包含 Host', async () => {
+    const signed = await signVolcengineRequest(
+      {
+        method: 'POST',
+        url: 'https://visual.volcengineapi.com/?Action=CVSync2AsyncSubmitTask&Version=2022-08-31',
+        headers,
+        body: '{}',
+        date
+      },
+      credentials
+    );
+
+    assert.deepEqual(Object.keys(signed).sort(), ['Authorization', 'Content-Type', 'X-Content-Sha256', 'X-Date']);
+  });
+
+  it('缺少密钥时报错', async () => {
+    await assert.rejects(
+      signVolcengineRequest({ method: 'POST', url: 'https://visual.volcengineapi.com/' }, { accessKeyId: 'ak', secretAccessKey: '' }),
+      /AccessKey ID 和 Secret Access Key/
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * 火山引擎 OpenAPI 请求签名（HMAC-SHA256）
+ * 使用 AccessKey/SecretKey 对请求签名，生成 X-Date、X-Content-Sha256 和 Authorization 请求头
+ * 视觉服务（即梦）的 CVSync2AsyncSubmitTask / CVSync2AsyncGetResult 等接口要求签名调用
+ */
+
+// 视觉服务默认的区域和服务名
+export const VOLCENGINE_VISUAL_REGION = 'cn-north-1';
+export const VOLCENGINE_VISUAL_SERVICE = 'cv';
+
+const ALGORITHM = 'HMAC-SHA256';
+
+// 签名使用的密钥对
+export interface VolcengineCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// 待签名的请求
+export interface VolcengineSignRequest {
+  method: string;
+  url: string; // 完整地址，包含查询参数
+  headers?: Record<string, string>; // 一并签名的请求头，如 Content-Type
+  body?: string;
+  region?: string;
+  service?: string;
+  date?: Date; // 签名时间，默认当前时间
+}
+
+// 签名结果，除请求头外保留中间产物，便于排查签名不一致
+export interface VolcengineSignature {
+  headers: Record<string, string>;
+  canonicalRequest: string;
+  stringToSign: string;
+  signature: string;
+}
+
+/**
+ * 对请求签名，返回需要发送的全部请求头（传入的请求头加上 X-Date、X-Content-Sha256 和 Authorization）
+ * Host 参与签名但不在返回值中，由浏览器按请求地址自动发送
+ */
+export async function signVolcengineRequest(
+  request: VolcengineSignRequest,
+  credentials: VolcengineCredentials
+): Promise<Record<string, string>> {
+  return (await buildVolcengineSignature(request, credentials)).headers;
+}
+
+// 按火山引擎签名规范计算规范请求、待签字符串和签名
+export async function buildVolcengineSignature(
+  request: VolcengineSignRequest,
+  credentials: VolcengineCredentials
+): Promise<VolcengineSignature> {
+  if (!credentials.accessKeyId || !credentials.secretAccessKey) {
+    throw new Error('火山引擎签名需要 AccessKey ID 和 Secret Access Key');
+  }
+
+  const url = new URL(request.url);
+  const region = request.region || VOLCENGINE_VISUAL_REGION;
+  const service = request.service || VOLCENGINE_VISUAL_SERVICE;
+  const xDate = formatSignDate(request.date || new Date());
+  const shortDate = xDate.slice(0, 8);
+  const payloadHash = toHex(await sha256(request.body || ''));
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'X-Date': xDate,
+    'X-Content-Sha256': payloadHash
+  };
+
+  // 参与签名的请求头：名称小写、按字母排序
+  const signedEntries = Object.entries({ ...headers, Host: url.host })
+    .map(([name, value]) => [name.toLowerCase(), String(value).trim()] as const)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = signedEntries.map(([name]) => name).join(';');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    url.pathname || '/',
+    getCanonicalQuery(url.searchParams),
+    signedEntries.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    payloadHash
+  ].join('\n');
+
+  const credentialScope = `${shortDate}/${region}/${service}/request`;
+  const stringToSign = [ALGORITHM, xDate, credentialScope, toHex(await sha256(canonicalRequest))].join('\n');
+
+  const kDate = await hmac(encode(credentials.secretAccessKey), shortDate);
+  const kRegion = await hmac(kDate, region);
+  const kService = await hmac(kRegion, service);
+  const kSigning = await hmac(kService, 'request');
+  const signature = toHex(await hmac(kSigning, stringToSign));
+
+  headers['Authorization'] =
+    `${ALGORITHM} Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return { headers, canonicalRequest, stringToSign, signature };
+}
+
+// 签名时间格式：20240101T080000Z（UTC）
+function formatSignDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// 查询参数按名称排序，名称和值按 RFC 3986 编码
+function getCanonicalQuery(params: URLSearchParams): string {
+  return Array.from(params.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, x], [b, y]) => (a === b ? (x < y ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+async function sha256(text: string): Promise<ArrayBuffer> {
+  return crypto.subtle.digest('SHA-256', encode(text));
+}
+
+async function hmac(key: Uint8Array | ArrayBuffer, text: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encode(text));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
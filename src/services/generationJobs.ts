@@ -0,0 +1,397 @@
+/**
+ * 异步生成任务跟踪
+ * 提交到即梦等异步接口的任务（任务ID、req_key、生成参数）写入存储，页面关闭或刷新后不会丢失；
+ * 扩展后台通过 chrome.alarms 按指数退避轮询结果，页面中等待的任务使用定时器轮询。
+ * 文生图、图生视频标签页打开时取回已完成的任务，加入结果和历史记录。
+ * 扩展环境中任务只由后台写入，页面提交、查询和取回任务时的写入通过 runtime 消息转发给后台
+ */
+
+import { createPlatformAdapter } from '../adapters';
+import type { StorageAdapter } from '../adapters/types';
+import type { AIEngineType, AISource } from '../config/engines';
+import { engineRegistry } from './engines/engineRegistry';
+import { JimengEngineAdapter } from './engines/engineAdapters';
+import type { JimengTaskHandle, JimengTaskKind } from './engines/engineAdapters';
+import { apiService } from '../../services/apiService';
+import { forwardWrite, handleForwardedWrites, shouldForwardWrites } from './backgroundWrites';
+
+const JOBS_KEY = 'generation_jobs';
+const ALARM_NAME = 'generation-jobs';
+// 轮询间隔：首次 2 秒，之后每次翻倍，最长 1 分钟
+const POLL_BASE_DELAY = 2000;
+const POLL_MAX_DELAY = 60 * 1000;
+// 连续查询失败达到次数后任务记为失败
+const MAX_POLL_ERRORS = 5;
+// 任务最长等待时间，超过后记为失败
+const JOB_TIMEOUTS: Record<GenerationJobType, number> = {
+  image: 30 * 60 * 1000,
+  video: 2 * 60 * 60 * 1000
+};
+// 已结束但一直没有取回的任务保留 7 天
+const JOB_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+export type GenerationJobType = 'image' | 'video';
+
+// 提交任务时的生成参数，用于恢复结果和历史记录
+export interface GenerationJobParams {
+  prompt: string;
+  model?: string; // 界面选择的模型ID（未经AI源映射）
+  size?: string;
+  style?: string;
+  count?: number; // 本任务生成的数量
+  duration?: number;
+  sourceImageUrl?: string; // 仅保存图片链接，data URL 体积较大不写入存储
+}
+
+export interface GenerationJob {
+  id: string;
+  type: GenerationJobType;
+  provider: AIEngineType;
+  sourceId: string; // 查询结果时按ID取AI源的密钥，不在任务中保存密钥
+  reqKey: string;
+  taskId: string;
+  kind: JimengTaskKind;
+  params: GenerationJobParams;
+  status: 'pending' | 'completed' | 'failed';
+  urls?: string[];
+  error?: string;
+  attempts: number; // 已查询次数，决定下次查询的间隔
+  pollErrors?: number; // 连续查询失败次数
+  nextPollAt: number;
+  createdAt: number;
+  completedAt?: number;
+}
+
+/**
+ * 第几次查询之后的等待时间（指数退避）
+ */
+export function getPollDelay(attempts: number): number {
+  return Math.min(POLL_BASE_DELAY * Math.pow(2, attempts), POLL_MAX_DELAY);
+}
+
+/**
+ * 生成任务存储
+ */
+export class GenerationJobStore {
+  private storage: StorageAdapter | null;
+  // 串行化本上下文内的写入；扩展页面的写入转发给后台，不同上下文之间不会互相覆盖
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(storage?: StorageAdapter) {
+    this.storage = storage || null;
+  }
+
+  /**
+   * 获取所有任务，按提交时间从新到旧
+   */
+  async list(): Promise<GenerationJob[]> {
+    return (await this.getStorage().get<GenerationJob[]>(JOBS_KEY)) || [];
+  }
+
+  async get(jobId: string): Promise<GenerationJob | undefined> {
+    return (await this.list()).find(job => job.id === jobId);
+  }
+
+  add(job: GenerationJob): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(JOBS_KEY, 'add', [job]);
+    }
+    return this.enqueue(jobs => [job, ...jobs.filter(item => item.id !== job.id)]);
+  }
+
+  /**
+   * 更新任务字段，任务已删除时忽略
+   */
+  update(jobId: string, patch: Partial<GenerationJob>): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(JOBS_KEY, 'update', [jobId, patch]);
+    }
+    return this.enqueue(jobs => jobs.map(job => (job.id === jobId ? { ...job, ...patch } : job)));
+  }
+
+  remove(jobId: string): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(JOBS_KEY, 'remove', [jobId]);
+    }
+    return this.enqueue(jobs => jobs.filter(job => job.id !== jobId));
+  }
+
+  /**
+   * 清理结束超过保留时间的任务
+   */
+  purge(): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(JOBS_KEY, 'purge', []);
+    }
+    const expiredBefore = Date.now() - JOB_RETENTION;
+    return this.enqueue(jobs => jobs.filter(job => job.status === 'pending' || (job.completedAt || job.createdAt) > expiredBefore));
+  }
+
+  /**
+   * 后台执行扩展页面转发的写入
+   */
+  serveForwardedWrites(): void {
+    handleForwardedWrites(JOBS_KEY, {
+      add: (job: GenerationJob) => this.add(job),
+      update: (jobId: string, patch: Partial<GenerationJob>) => this.update(jobId, patch),
+      remove: (jobId: string) => this.remove(jobId),
+      purge: () => this.purge()
+    });
+  }
+
+  private enqueue(update: (jobs: GenerationJob[]) => GenerationJob[]): Promise<void> {
+    const task = this.writeQueue.then(async () => {
+      const jobs = await this.list();
+      await this.getStorage().set(JOBS_KEY, update(jobs));
+    });
+    this.writeQueue = task.catch(error => {
+      console.error('生成任务写入失败:', error);
+    });
+    return task;
+  }
+
+  private getStorage(): StorageAdapter {
+    if (!this.storage) {
+      this.storage = createPlatformAdapter().storage;
+    }
+    return this.storage;
+  }
+}
+
+interface JobWaiter {
+  jobId: string;
+  resolve: (job: GenerationJob) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 生成任务跟踪器
+ */
+export class GenerationJobTracker {
+  private started = false;
+  private polling = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private waiters = new Set<JobWaiter>();
+
+  constructor(
+    private store: GenerationJobStore,
+    private getSources: () => Promise<AISource[]>
+  ) {}
+
+  /**
+   * 是否使用 chrome.alarms（扩展环境），否则只在页面中等待任务时轮询
+   */
+  get usesAlarms(): boolean {
+    return typeof chrome !== 'undefined' && !!chrome.alarms;
+  }
+
+  /**
+   * 扩展后台启动轮询：在顶层同步注册监听并接收页面转发的写入，浏览器重启后重新设置 alarm
+   */
+  start(): Promise<void> {
+    if (this.started) return Promise.resolve();
+    this.started = true;
+
+    if (this.usesAlarms) {
+      this.store.serveForwardedWrites();
+      chrome.alarms.onAlarm.addListener(alarm => {
+        if (alarm.name === ALARM_NAME) this.pollDue();
+      });
+      chrome.runtime.onStartup?.addListener(() => this.sync());
+      chrome.runtime.onInstalled?.addListener(() => this.sync());
+    }
+    return this.sync();
+  }
+
+  /**
+   * 登记已提交的即梦任务
+   */
+  async track(
+    source: AISource,
+    type: GenerationJobType,
+    task: JimengTaskHandle,
+    params: GenerationJobParams
+  ): Promise<GenerationJob> {
+    const now = Date.now();
+    const job: GenerationJob = {
+      id: `job_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      provider: source.type,
+      sourceId: source.id,
+      reqKey: task.reqKey,
+      taskId: task.taskId,
+      kind: task.kind,
+      params: {
+        ...params,
+        sourceImageUrl: params.sourceImageUrl?.startsWith('data:') ? undefined : params.sourceImageUrl
+      },
+      status: 'pending',
+      attempts: 0,
+      nextPollAt: now + getPollDelay(0),
+      createdAt: now
+    };
+    await this.store.add(job);
+    await this.sync();
+    return job;
+  }
+
+  /**
+   * 某类任务，按提交时间从新到旧
+   */
+  async list(type?: GenerationJobType): Promise<GenerationJob[]> {
+    return (await this.store.list()).filter(job => !type || job.type === type);
+  }
+
+  /**
+   * 等待任务结束（完成或失败），期间在当前页面轮询
+   */
+  waitFor(jobId: string, signal?: AbortSignal): Promise<GenerationJob> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason || new Error('已取消'));
+        return;
+      }
+      const waiter: JobWaiter = {
+        jobId,
+        resolve: job => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(job);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      const onAbort = () => {
+        this.waiters.delete(waiter);
+        reject(signal!.reason || new Error('已取消'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.add(waiter);
+      this.settleWaiters().then(() => this.sync());
+    });
+  }
+
+  /**
+   * 结果已取回后删除任务
+   */
+  remove(jobId: string): Promise<void> {
+    return this.store.remove(jobId);
+  }
+
+  /**
+   * 按最早需要查询的任务重新设置 alarm 和定时器
+   */
+  async sync(): Promise<void> {
+    const pending = (await this.store.list()).filter(job => job.status === 'pending');
+    const next = Math.min(...pending.map(job => job.nextPollAt));
+
+    if (this.usesAlarms) {
+      if (Number.isFinite(next)) {
+        await chrome.alarms.create(ALARM_NAME, { when: Math.max(next, Date.now() + 1000) });
+      } else {
+        await chrome.alarms.clear(ALARM_NAME);
+      }
+    }
+
+    // alarms 间隔至少 30 秒，页面中有等待的任务时另用定时器及时查询
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const pollsHere = this.waiters.size > 0 || (this.started && !this.usesAlarms);
+    if (pollsHere && Number.isFinite(next)) {
+      this.timer = setTimeout(() => this.pollDue(), Math.max(next - Date.now(), 0));
+    }
+  }
+
+  // 查询所有到期的任务，然后通知等待者并重新设置轮询
+  private async pollDue(): Promise<void> {
+    this.timer = null;
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const due = (await this.store.list()).filter(job => job.status === 'pending' && job.nextPollAt <= Date.now());
+      for (const job of due) {
+        await this.poll(job);
+      }
+      await this.store.purge();
+    } catch (error) {
+      console.error('生成任务轮询失败:', error);
+    } finally {
+      this.polling = false;
+    }
+    await this.settleWaiters();
+    await this.sync();
+  }
+
+  // 查询一次任务结果，未完成时按退避间隔安排下次查询
+  private async poll(job: GenerationJob): Promise<void> {
+    const attempts = job.attempts + 1;
+    if (Date.now() - job.createdAt > JOB_TIMEOUTS[job.type]) {
+      await this.finish(job, { status: 'failed', error: '生成任务超时' });
+      return;
+    }
+
+    try {
+      const result = await (await this.getEngine(job)).queryTask({ reqKey: job.reqKey, taskId: job.taskId, kind: job.kind });
+      if (result) {
+        await this.finish(job, { status: 'completed', urls: result.urls });
+        return;
+      }
+      await this.store.update(job.id, { attempts, pollErrors: 0, nextPollAt: Date.now() + getPollDelay(attempts) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '查询任务失败';
+      const pollErrors = (job.pollErrors || 0) + 1;
+      if (pollErrors >= MAX_POLL_ERRORS) {
+        await this.finish(job, { status: 'failed', error: message });
+        return;
+      }
+      await this.store.update(job.id, { attempts, pollErrors, error: message, nextPollAt: Date.now() + getPollDelay(attempts) });
+    }
+  }
+
+  // 记录任务结果，由后台查询到结果时发送通知
+  private async finish(job: GenerationJob, patch: Pick<GenerationJob, 'status' | 'urls' | 'error'>): Promise<void> {
+    await this.store.update(job.id, { error: undefined, ...patch, completedAt: Date.now() });
+    if (!this.started || !this.usesAlarms) return;
+
+    const name = job.type === 'image' ? '图片' : '视频';
+    const title = patch.status === 'completed' ? `${name}生成完成` : `${name}生成失败`;
+    try {
+      await createPlatformAdapter().native.notifications.send(title, patch.error || job.params.prompt);
+    } catch (error) {
+      console.error('发送通知失败:', error);
+    }
+  }
+
+  // 通知任务已结束或已被删除的等待者
+  private async settleWaiters(): Promise<void> {
+    if (this.waiters.size === 0) return;
+    const jobs = await this.store.list();
+    this.waiters.forEach(waiter => {
+      const job = jobs.find(item => item.id === waiter.jobId);
+      if (!job) {
+        this.waiters.delete(waiter);
+        waiter.reject(new Error('生成任务不存在'));
+      } else if (job.status !== 'pending') {
+        this.waiters.delete(waiter);
+        waiter.resolve(job);
+      }
+    });
+  }
+
+  private async getEngine(job: GenerationJob): Promise<JimengEngineAdapter> {
+    const source = (await this.getSources()).find(item => item.id === job.sourceId);
+    if (!source) {
+      throw new Error('提交任务的AI源已删除');
+    }
+    const engine = engineRegistry.create(source);
+    if (!(engine instanceof JimengEngineAdapter)) {
+      throw new Error(`AI源类型 ${source.type} 不支持查询异步任务`);
+    }
+    return engine;
+  }
+}
+
+// 全局生成任务存储和跟踪器实例
+export const generationJobStore = new GenerationJobStore();
+export const generationJobTracker = new GenerationJobTracker(generationJobStore, () => apiService.getAllAISources());
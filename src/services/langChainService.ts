@@ -4,9 +4,8 @@
  */
 
 import { Storage } from "@plasmohq/storage"
-import { AIEngineType, EngineConfigManager } from "../src/config/engines"
-import type { AISource } from "../src/config/engines"
-import { apiService } from "../services/apiService"
+import type { AISource } from "../config/engines"
+import { apiService } from "../../services/apiService"
 
 // 存储实例
 const storage = new Storage()
@@ -0,0 +1,95 @@
+/**
+ * 结构化输出测试
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { OutputSchema } from '../config/workflows';
+import { createSampleOutput, parseJsonOutput, validateOutput, validateOutputSchema } from './outputSchema';
+
+const sceneSchema: OutputSchema = {
+  type: 'object',
+  required: ['title', 'scenes'],
+  properties: {
+    title: { type: 'string', minLength: 2, maxLength: 10 },
+    mood: { type: 'string', enum: ['warm', 'cold'] },
+    scenes: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 2,
+      items: {
+        type: 'object',
+        required: ['duration'],
+        properties: { duration: { type: 'integer' }, narration: { type: 'boolean' } }
+      }
+    }
+  }
+};
+
+describe('validateOutputSchema', () => {
+  it('接受嵌套的 schema', () => {
+    assert.deepEqual(validateOutputSchema(sceneSchema), []);
+  });
+
+  it('报告无效的类型和路径', () => {
+    assert.deepEqual(validateOutputSchema([]), ['schema 必须是对象']);
+    assert.deepEqual(
+      validateOutputSchema({
+        type: 'object',
+        properties: { a: { type: 'text' }, b: { type: 'array', items: null } }
+      }),
+      ['schema.properties.a.type 必须是 object/array/string/number/integer/boolean 之一']
+    );
+    assert.deepEqual(validateOutputSchema({ type: 'array', items: 'string' }, '输出结构'), ['输出结构.items 必须是对象']);
+  });
+});
+
+describe('validateOutput', () => {
+  it('符合 schema 的值没有错误', () => {
+    const value = { title: '城市夜景', mood: 'warm', scenes: [{ duration: 5, narration: true }] };
+    assert.deepEqual(validateOutput(value, sceneSchema), []);
+  });
+
+  it('按路径报告缺失字段、类型、长度、数量和枚举错误', () => {
+    const value = {
+      title: '夜',
+      mood: 'hot',
+      scenes: [{ duration: 1.5 }, { narration: 'yes' }, { duration: 3 }]
+    };
+    assert.deepEqual(validateOutput(value, sceneSchema), [
+      '$.title 长度至少为 2',
+      '$.mood 必须是 warm/cold 之一',
+      '$.scenes 最多 2 项',
+      '$.scenes[0].duration 应为整数',
+      '$.scenes[1].duration 缺失',
+      '$.scenes[1].narration 应为布尔值'
+    ]);
+    assert.deepEqual(validateOutput({ scenes: {} }, sceneSchema), ['$.title 缺失', '$.scenes 应为数组']);
+    assert.deepEqual(validateOutput('文本', sceneSchema), ['$ 应为对象']);
+  });
+});
+
+describe('parseJsonOutput', () => {
+  it('解析 json 代码块', () => {
+    assert.deepEqual(parseJsonOutput('结果如下：\n```json\n{"title": "咖啡"}\n```\n希望有帮助'), { title: '咖啡' });
+  });
+
+  it('截取前后说明文字之间的 JSON', () => {
+    assert.deepEqual(parseJsonOutput('好的，[1, 2, {"a": "b"}] 以上'), [1, 2, { a: 'b' }]);
+  });
+
+  it('没有 JSON 时报错', () => {
+    assert.throws(() => parseJsonOutput('抱歉，无法生成'), /回复中没有找到 JSON/);
+  });
+});
+
+describe('createSampleOutput', () => {
+  it('按 schema 生成示例值', () => {
+    assert.deepEqual(createSampleOutput(sceneSchema, 'video'), {
+      title: '[video.title]',
+      mood: 'warm',
+      scenes: [{ duration: 0, narration: true }]
+    });
+    assert.deepEqual(createSampleOutput({ type: 'array', minItems: 2 }, 'tags'), ['[tags[0]]', '[tags[1]]']);
+  });
+});
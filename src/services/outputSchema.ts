@@ -0,0 +1,156 @@
+/**
+ * 工作流步骤的结构化输出
+ * 支持 JSON Schema 的常用子集：type、properties、required、items、enum、长度和数量限制
+ */
+
+import type { OutputSchema } from '../config/workflows';
+
+const SCHEMA_TYPES: Array<OutputSchema['type']> = ['object', 'array', 'string', 'number', 'integer', 'boolean'];
+
+/**
+ * 校验 schema 本身是否可用，返回错误列表
+ */
+export function validateOutputSchema(schema: any, path = 'schema'): string[] {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return [`${path} 必须是对象`];
+  }
+  if (!SCHEMA_TYPES.includes(schema.type)) {
+    return [`${path}.type 必须是 ${SCHEMA_TYPES.join('/')} 之一`];
+  }
+
+  const errors: string[] = [];
+  if (schema.type === 'object' && schema.properties) {
+    Object.entries(schema.properties).forEach(([key, child]) => {
+      errors.push(...validateOutputSchema(child, `${path}.properties.${key}`));
+    });
+  }
+  if (schema.type === 'array' && schema.items) {
+    errors.push(...validateOutputSchema(schema.items, `${path}.items`));
+  }
+  return errors;
+}
+
+/**
+ * 按 schema 校验值，返回错误列表
+ */
+export function validateOutput(value: any, schema: OutputSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path} 应为对象`];
+      }
+      (schema.required || []).forEach(key => {
+        if (value[key] === undefined) errors.push(`${path}.${key} 缺失`);
+      });
+      Object.entries(schema.properties || {}).forEach(([key, child]) => {
+        if (value[key] !== undefined) errors.push(...validateOutput(value[key], child, `${path}.${key}`));
+      });
+      break;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path} 应为数组`];
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} 至少需要 ${schema.minItems} 项`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} 最多 ${schema.maxItems} 项`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => errors.push(...validateOutput(item, schema.items!, `${path}[${index}]`)));
+      }
+      break;
+    }
+    case 'string':
+      if (typeof value !== 'string') return [`${path} 应为字符串`];
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${path} 长度至少为 ${schema.minLength}`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push(`${path} 长度不能超过 ${schema.maxLength}`);
+      }
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return [`${path} 应为${schema.type === 'integer' ? '整数' : '数字'}`];
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') return [`${path} 应为布尔值`];
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path} 必须是 ${schema.enum.join('/')} 之一`);
+  }
+  return errors;
+}
+
+/**
+ * 从模型回复中提取 JSON，兼容 ```json 代码块和前后说明文字
+ */
+export function parseJsonOutput(text: string): any {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // 截取第一个对象或数组
+    const start = candidate.search(/[{[]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      return JSON.parse(candidate.slice(start, end + 1));
+    }
+    throw new Error('回复中没有找到 JSON');
+  }
+}
+
+/**
+ * 追加到提示词末尾的输出格式说明
+ */
+export function buildSchemaInstruction(schema: OutputSchema): string {
+  return `
+
+请严格按照以下 JSON Schema 输出 JSON，不要输出任何其他内容：
+${JSON.stringify(schema, null, 2)}`;
+}
+
+/**
+ * 输出不符合 schema 时的修复提示词
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return `你上一次的输出不符合要求：
+${errors.map(error => `- ${error}`).join('\n')}
+
+请修正后重新输出完整的 JSON，不要输出任何其他内容。`;
+}
+
+/**
+ * 按 schema 生成示例值，用于模板预览
+ */
+export function createSampleOutput(schema: OutputSchema, label: string): any {
+  if (schema.enum?.length) return schema.enum[0];
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, child]) => [key, createSampleOutput(child, `${label}.${key}`)])
+      );
+    case 'array':
+      return Array.from({ length: Math.max(schema.minItems || 0, 1) }, (_, index) =>
+        schema.items ? createSampleOutput(schema.items, `${label}[${index}]`) : `[${label}[${index}]]`
+      );
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return true;
+    default:
+      return `[${label}]`;
+  }
+}
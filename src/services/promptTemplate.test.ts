@@ -0,0 +1,81 @@
+/**
+ * 提示词模板引擎测试
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { extractTemplateVariables, parseTemplate, renderTemplate, resolvePath } from './promptTemplate';
+
+describe('renderTemplate', () => {
+  it('按点路径和下标取值', () => {
+    const data = { title: { options: ['春日', '夏夜'] }, scenes: [{ text: '开场' }] };
+    assert.equal(renderTemplate('{title.options[1]} / {scenes[0].text}', data), '夏夜 / 开场');
+  });
+
+  it('串联过滤器，参数中的 | 不拆分', () => {
+    const data = { tags: ['ai', 'video'], summary: '一段很长的视频简介' };
+    assert.equal(renderTemplate('{tags | join: " | " | upper}', data), 'AI | VIDEO');
+    assert.equal(renderTemplate('{summary | truncate: 4}', data), '一段很长…');
+    assert.equal(renderTemplate('{style | default: "专业"}', data), '专业');
+  });
+
+  it('条件支持取反和 else 分支', () => {
+    const template = '{#if !tags}无标签{:else}{tags | join: ","}{/if}';
+    assert.equal(renderTemplate(template, { tags: [] }), '无标签');
+    assert.equal(renderTemplate(template, { tags: ['a', 'b'] }), 'a,b');
+  });
+
+  it('循环中可引用当前项和从 1 开始的 @index', () => {
+    const data = { topic: '城市', scenes: [{ text: '清晨' }, { text: '黄昏' }] };
+    assert.equal(
+      renderTemplate('{#each scenes as scene}{@index}. {topic}{scene.text}\n{/each}', data),
+      '1. 城市清晨\n2. 城市黄昏\n'
+    );
+  });
+
+  it('不符合变量语法的花括号原样输出', () => {
+    const template = '按 JSON 返回：{"title": "{topic}"}';
+    assert.equal(renderTemplate(template, { topic: '咖啡' }), '按 JSON 返回：{"title": "咖啡"}');
+  });
+
+  it('对象按 JSON 输出，带 url 的资源输出地址', () => {
+    assert.equal(renderTemplate('{cover}', { cover: { url: 'https://example.com/a.png' } }), 'https://example.com/a.png');
+    assert.equal(renderTemplate('{meta}', { meta: { a: 1 } }), '{\n  "a": 1\n}');
+  });
+
+  it('严格模式下未定义的变量报错，有默认值时不报错', () => {
+    assert.equal(renderTemplate('[{missing}]', {}), '[]');
+    assert.throws(() => renderTemplate('{missing}', {}, { strict: true }), /模板变量 \{missing\} 未定义/);
+    assert.equal(renderTemplate('{missing | default: "无"}', {}, { strict: true }), '无');
+    assert.throws(() => renderTemplate('{#each topic as item}{item}{/each}', { topic: '猫' }, { strict: true }), /不是列表/);
+  });
+});
+
+describe('parseTemplate', () => {
+  it('块标签不匹配时报错', () => {
+    assert.throws(() => parseTemplate('{#if a}内容'), /\{#if a\} 缺少结束标签/);
+    assert.throws(() => parseTemplate('{#if a}{/each}'), /\{\/each\} 没有对应的 \{#each\}/);
+    assert.throws(() => parseTemplate('{:else}'), /没有对应的 \{#if\}/);
+    assert.throws(() => parseTemplate('{#each items}{/each}'), /应写作 \{#each 列表 as 名称\}/);
+  });
+
+  it('未知过滤器和未加引号的参数报错', () => {
+    assert.throws(() => parseTemplate('{title | lower}'), /过滤器 lower 不存在/);
+    assert.throws(() => parseTemplate('{title | default: 专业}'), /参数 专业 需要用引号包裹/);
+  });
+});
+
+describe('extractTemplateVariables', () => {
+  it('返回顶层变量，不含循环变量和 @ 变量', () => {
+    const template = '{#if style}{style}{/if}{#each scenes as scene}{@index}{scene.text}{title.main}{/each}{scenes | json}';
+    assert.deepEqual(extractTemplateVariables(template), ['style', 'scenes', 'title']);
+  });
+});
+
+describe('resolvePath', () => {
+  it('按路径取值，不允许过滤器', () => {
+    assert.equal(resolvePath({ video: { scenes: [1, 2] } }, 'video.scenes[1]'), 2);
+    assert.equal(resolvePath({}, 'video.scenes'), undefined);
+    assert.throws(() => resolvePath({}, 'title | upper'), /变量路径 title \| upper 无效/);
+  });
+});
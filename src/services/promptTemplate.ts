@@ -0,0 +1,314 @@
+/**
+ * 提示词模板引擎
+ * 语法：
+ *   {title}                      变量，支持点路径和下标：{scenes[0].text}
+ *   {title | truncate: 20}       过滤器，可串联：{tags | join: "、" | upper}
+ *   {style | default: "专业"}    默认值
+ *   {#if title}...{:else}...{/if}   条件，支持取反：{#if !title}
+ *   {#each scenes as scene}{@index}. {scene.text}{/each}   循环，@index 从 1 开始
+ * 不符合以上语法的花括号原样输出，例如模板中的 JSON 示例
+ */
+
+export interface TemplateRenderOptions {
+  strict?: boolean; // 严格模式：引用未定义的变量时报错
+}
+
+interface TemplateFilter {
+  name: string;
+  args: any[];
+}
+
+interface TemplateExpression {
+  source: string;
+  path: Array<string | number>;
+  negate: boolean;
+  filters: TemplateFilter[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; expression: TemplateExpression }
+  | { type: 'if'; condition: TemplateExpression; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; expression: TemplateExpression; item: string; body: TemplateNode[] };
+
+// 可用的过滤器
+const FILTERS: Record<string, (value: any, ...args: any[]) => any> = {
+  default: (value, fallback = '') => (isEmpty(value) ? fallback : value),
+  truncate: (value, length = 100) => {
+    const text = toText(value);
+    return text.length > Number(length) ? `${text.slice(0, Number(length))}…` : text;
+  },
+  json: value => JSON.stringify(value ?? null, null, 2),
+  upper: value => toText(value).toUpperCase(),
+  join: (value, separator = '、') => (Array.isArray(value) ? value.map(toText).join(separator) : toText(value))
+};
+
+export const TEMPLATE_FILTER_NAMES = Object.keys(FILTERS);
+
+const TAG_PATTERN = /\{([^{}\n]*)\}/g;
+const PATH_PATTERN = /^@?[A-Za-z_]\w*(?:\.\w+|\[\d+\])*$/;
+
+/**
+ * 解析模板，语法错误时抛出错误
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // 打开的块及当前写入位置
+  const stack: Array<{ node: TemplateNode; tag: string; target: TemplateNode[] }> = [];
+  let target = root;
+  let lastIndex = 0;
+
+  const pushText = (value: string) => {
+    if (value) target.push({ type: 'text', value });
+  };
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const tag = match[0];
+    const inner = match[1].trim();
+    const index = match.index!;
+
+    const block = /^([#:/])(\w+)\s*(.*)$/.exec(inner);
+    if (block) {
+      pushText(template.slice(lastIndex, index));
+      lastIndex = index + tag.length;
+      const [, sigil, keyword, rest] = block;
+      const top = stack[stack.length - 1];
+
+      if (sigil === '#' && keyword === 'if') {
+        const node: TemplateNode = { type: 'if', condition: parseExpression(rest, tag), then: [], otherwise: [] };
+        target.push(node);
+        stack.push({ node, tag, target });
+        target = node.then;
+      } else if (sigil === '#' && keyword === 'each') {
+        const each = /^(.+?)\s+as\s+([A-Za-z_]\w*)$/.exec(rest);
+        if (!each) {
+          throw new Error(`模板语法错误: ${tag} 应写作 {#each 列表 as 名称}`);
+        }
+        const node: TemplateNode = { type: 'each', expression: parseExpression(each[1], tag), item: each[2], body: [] };
+        target.push(node);
+        stack.push({ node, tag, target });
+        target = node.body;
+      } else if (sigil === ':' && keyword === 'else') {
+        if (top?.node.type !== 'if' || target === top.node.otherwise) {
+          throw new Error(`模板语法错误: ${tag} 没有对应的 {#if}`);
+        }
+        target = top.node.otherwise;
+      } else if (sigil === '/' && (keyword === 'if' || keyword === 'each')) {
+        if (top?.node.type !== keyword) {
+          throw new Error(`模板语法错误: ${tag} 没有对应的 {#${keyword}}`);
+        }
+        stack.pop();
+        target = top.target;
+      } else {
+        throw new Error(`模板语法错误: 未知的标签 ${tag}`);
+      }
+      continue;
+    }
+
+    // 变量：不符合变量语法的花括号视为普通文本
+    const [path] = inner.split('|');
+    if (!PATH_PATTERN.test(path.trim())) continue;
+
+    pushText(template.slice(lastIndex, index));
+    lastIndex = index + tag.length;
+    target.push({ type: 'var', expression: parseExpression(inner, tag) });
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`模板语法错误: ${stack[stack.length - 1].tag} 缺少结束标签`);
+  }
+
+  pushText(template.slice(lastIndex));
+  return root;
+}
+
+/**
+ * 渲染模板
+ */
+export function renderTemplate(
+  template: string,
+  data: Record<string, any>,
+  options: TemplateRenderOptions = {}
+): string {
+  return renderNodes(parseTemplate(template), data, options);
+}
+
+/**
+ * 提取模板中引用的顶层变量名（不含循环变量和 @ 变量）
+ */
+export function extractTemplateVariables(template: string): string[] {
+  const variables = new Set<string>();
+
+  const visit = (nodes: TemplateNode[], locals: Set<string>) => {
+    const add = (expression: TemplateExpression) => {
+      const name = expression.path[0] as string;
+      if (!name.startsWith('@') && !locals.has(name)) variables.add(name);
+    };
+
+    nodes.forEach(node => {
+      switch (node.type) {
+        case 'var':
+          add(node.expression);
+          break;
+        case 'if':
+          add(node.condition);
+          visit(node.then, locals);
+          visit(node.otherwise, locals);
+          break;
+        case 'each':
+          add(node.expression);
+          visit(node.body, new Set([...locals, node.item]));
+          break;
+      }
+    });
+  };
+
+  visit(parseTemplate(template), new Set());
+  return Array.from(variables);
+}
+
+/**
+ * 按变量路径取值，如 videoScenes.scenes、title.options[0]
+ */
+export function resolvePath(data: Record<string, any>, path: string): any {
+  const expression = parseExpression(path, `{${path}}`);
+  if (expression.filters.length > 0 || expression.negate) {
+    throw new Error(`变量路径 ${path} 无效`);
+  }
+  return evaluate(expression, data, {});
+}
+
+/**
+ * 将值转换为提示词文本
+ */
+export function toText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(toText).join('\n');
+  if (typeof value === 'object') {
+    // 图片/视频资源引用其地址
+    if (typeof value.url === 'string') return value.url;
+    return JSON.stringify(value, null, 2);
+  }
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], data: Record<string, any>, options: TemplateRenderOptions): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+
+      case 'var':
+        return toText(evaluate(node.expression, data, options));
+
+      case 'if':
+        return renderNodes(
+          isTruthy(evaluate(node.condition, data, { strict: false })) ? node.then : node.otherwise,
+          data,
+          options
+        );
+
+      case 'each': {
+        const items = evaluate(node.expression, data, options);
+        if (items === undefined || items === null) return '';
+        if (!Array.isArray(items)) {
+          if (options.strict) {
+            throw new Error(`模板变量 ${node.expression.source} 不是列表，无法循环`);
+          }
+          return '';
+        }
+        return items
+          .map((item, index) => renderNodes(node.body, { ...data, [node.item]: item, '@index': index + 1 }, options))
+          .join('');
+      }
+    }
+  }).join('');
+}
+
+function evaluate(expression: TemplateExpression, data: Record<string, any>, options: TemplateRenderOptions): any {
+  let value: any = data;
+  for (const segment of expression.path) {
+    value = value === undefined || value === null ? undefined : value[segment];
+  }
+
+  const hasDefault = expression.filters.some(filter => filter.name === 'default');
+  if (value === undefined && options.strict && !hasDefault) {
+    throw new Error(`模板变量 {${expression.source}} 未定义`);
+  }
+
+  value = expression.filters.reduce((current, filter) => FILTERS[filter.name](current, ...filter.args), value);
+  return expression.negate ? !isTruthy(value) : value;
+}
+
+function parseExpression(source: string, tag: string): TemplateExpression {
+  const [head, ...filterParts] = splitFilters(source);
+  const negate = head.startsWith('!');
+  const pathText = negate ? head.slice(1).trim() : head;
+
+  if (!PATH_PATTERN.test(pathText)) {
+    throw new Error(`模板语法错误: ${tag} 中的变量 ${pathText || '(空)'} 无效`);
+  }
+
+  const path: Array<string | number> = [];
+  for (const match of pathText.matchAll(/@?\w+|\[(\d+)\]/g)) {
+    path.push(match[1] !== undefined ? Number(match[1]) : match[0]);
+  }
+
+  const filters = filterParts.map(part => {
+    const [, name, argText] = /^(\w+)\s*(?::\s*(.*))?$/.exec(part) || [];
+    if (!name || !(name in FILTERS)) {
+      throw new Error(`模板语法错误: ${tag} 中的过滤器 ${part} 不存在，可用：${TEMPLATE_FILTER_NAMES.join(', ')}`);
+    }
+    return { name, args: argText ? parseArgs(argText, tag) : [] };
+  });
+
+  return { source: pathText, path, negate, filters };
+}
+
+// 按 | 拆分表达式和过滤器，忽略引号内的 |
+function splitFilters(source: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of source) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+// 解析过滤器参数：逗号分隔的数字或字符串
+function parseArgs(text: string, tag: string): any[] {
+  const args: any[] = [];
+  for (const match of text.matchAll(/\s*("(?:[^"]*)"|'(?:[^']*)'|[^,]+)\s*(?:,|$)/g)) {
+    const raw = match[1].trim();
+    if (/^(["']).*\1$/.test(raw)) {
+      args.push(raw.slice(1, -1));
+    } else if (!isNaN(Number(raw))) {
+      args.push(Number(raw));
+    } else {
+      throw new Error(`模板语法错误: ${tag} 中的参数 ${raw} 需要用引号包裹`);
+    }
+  }
+  return args;
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function isTruthy(value: any): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !isEmpty(value) && value !== false && value !== 0;
+}
@@ -0,0 +1,236 @@
+/**
+ * 工作流批量运行
+ * 从表格导入多行运行参数，按并发数限制依次启动工作流执行，并导出汇总结果表
+ */
+
+import type {
+  WorkflowBatchItem,
+  WorkflowConfig,
+  WorkflowExecution,
+  WorkflowStepParams
+} from '../config/workflows';
+import { parseCsv } from '../utils/csv';
+import { toText } from './promptTemplate';
+import type { WorkflowExecutor } from './workflowExecutor';
+import { workflowExecutor } from './workflowExecutor';
+
+// 运行参数对应的表头，导入时按名称匹配（不区分大小写）
+export const WORKFLOW_BATCH_COLUMNS: Array<{ key: keyof WorkflowStepParams; title: string; aliases: string[] }> = [
+  { key: 'topic', title: '主题', aliases: ['主题', '内容提示词', 'topic'] },
+  { key: 'style', title: '风格', aliases: ['风格', '内容风格', 'style'] },
+  { key: 'audience', title: '受众', aliases: ['受众', '目标受众', 'audience'] },
+  { key: 'duration', title: '时长', aliases: ['时长', '视频时长', 'duration'] }
+];
+
+// 默认同时运行的工作流数
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+const STATUS_TEXT: Record<WorkflowBatchItem['status'], string> = {
+  pending: '等待中',
+  running: '运行中',
+  paused: '已暂停',
+  awaiting_input: '等待审核',
+  completed: '已完成',
+  failed: '失败'
+};
+
+/**
+ * 解析批量运行表格（CSV），每行一次运行
+ * 没有主题或时长不是数字的行记入 errors，不参与运行
+ */
+export function parseWorkflowBatchSheet(text: string): {
+  items: WorkflowBatchItem[];
+  errors: string[];
+  ignoredColumns: string[];
+} {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || rows.length === 0) {
+    throw new Error('表格内容不足，至少需要表头和一行数据');
+  }
+
+  const columns = header.map(title => {
+    const name = title.trim().toLowerCase();
+    return WORKFLOW_BATCH_COLUMNS.find(column => column.aliases.some(alias => alias.toLowerCase() === name))?.key;
+  });
+  if (!columns.includes('topic')) {
+    throw new Error('表格缺少"主题"列');
+  }
+
+  const items: WorkflowBatchItem[] = [];
+  const errors: string[] = [];
+  rows.forEach((cells, index) => {
+    const row = index + 1;
+    const params: WorkflowStepParams = {};
+    columns.forEach((key, column) => {
+      const value = (cells[column] || '').trim();
+      if (key && value) params[key] = value;
+    });
+
+    if (!params.topic) {
+      errors.push(`第 ${row} 行缺少主题`);
+      return;
+    }
+    if (params.duration !== undefined) {
+      const duration = Number(params.duration);
+      if (!Number.isFinite(duration) || duration <= 0) {
+        errors.push(`第 ${row} 行的时长 "${params.duration}" 不是有效的秒数`);
+        return;
+      }
+      params.duration = duration;
+    }
+    items.push({ row, params, status: 'pending' });
+  });
+
+  return {
+    items,
+    errors,
+    ignoredColumns: header.filter((title, column) => !columns[column] && title.trim())
+  };
+}
+
+/**
+ * 批量运行模板：表头和一行示例
+ */
+export function createWorkflowBatchTemplate(): string[][] {
+  return [
+    WORKFLOW_BATCH_COLUMNS.map(column => column.title),
+    ['春季露营装备推荐', '轻松', '年轻人', '30']
+  ];
+}
+
+/**
+ * 汇总结果表：每行一次运行，运行参数之后每个步骤的输出键一列
+ */
+export function buildWorkflowBatchSheet(workflow: WorkflowConfig, items: WorkflowBatchItem[]): string[][] {
+  const outputKeys = workflow.steps.map(step => step.outputKey);
+  const header = [
+    '行号',
+    ...WORKFLOW_BATCH_COLUMNS.map(column => column.title),
+    '状态',
+    ...outputKeys,
+    '错误信息',
+    '执行ID'
+  ];
+
+  const rows = items.map(item => [
+    String(item.row),
+    ...WORKFLOW_BATCH_COLUMNS.map(column => toText(item.params[column.key])),
+    STATUS_TEXT[item.status],
+    ...outputKeys.map(key => toCellText(item.execution?.results[key])),
+    item.error || '',
+    item.executionId || ''
+  ]);
+
+  return [header, ...rows];
+}
+
+/**
+ * 批量运行器
+ * 同时运行的执行数不超过并发数，一行结束（完成或失败）后启动下一行
+ * 等待审核或暂停的执行会一直占用名额，直到在执行页面或历史记录中处理
+ */
+export class WorkflowBatchRunner {
+  constructor(private executor: WorkflowExecutor) {}
+
+  async run(
+    workflowId: string,
+    items: WorkflowBatchItem[],
+    options: {
+      concurrency?: number;
+      signal?: AbortSignal;
+      onProgress?: (items: WorkflowBatchItem[]) => void;
+    } = {}
+  ): Promise<WorkflowBatchItem[]> {
+    const { signal, onProgress } = options;
+    const queue = items.filter(item => item.status === 'pending');
+    const waiters = new Map<string, (execution: WorkflowExecution) => void>();
+    const finished = new Map<string, WorkflowExecution>();
+
+    // 先订阅再启动，避免执行在登记等待前就已结束
+    const settle = (execution: WorkflowExecution) => {
+      const waiter = waiters.get(execution.id);
+      if (waiter) {
+        waiters.delete(execution.id);
+        waiter(execution);
+      } else {
+        finished.set(execution.id, execution);
+      }
+    };
+    const unsubscribe = this.executor.subscribe({
+      onProgress: execution => {
+        const item = items.find(candidate => candidate.executionId === execution.id);
+        if (item && item.status !== execution.status) {
+          item.status = execution.status;
+          onProgress?.(items);
+        }
+      },
+      onComplete: settle,
+      onError: settle
+    });
+
+    const waitFor = (executionId: string) =>
+      new Promise<WorkflowExecution>(resolve => {
+        const execution = finished.get(executionId);
+        if (execution) {
+          finished.delete(executionId);
+          resolve(execution);
+        } else {
+          waiters.set(executionId, resolve);
+        }
+      });
+
+    // 停止批量运行时取消在途的执行
+    const onAbort = () => {
+      items.forEach(item => {
+        if (item.executionId && !['completed', 'failed'].includes(item.status)) {
+          this.executor.cancel(item.executionId);
+        }
+      });
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const worker = async () => {
+      while (queue.length > 0 && !signal?.aborted) {
+        const item = queue.shift()!;
+        try {
+          const execution = await this.executor.execute(workflowId, item.params);
+          item.executionId = execution.id;
+          item.status = execution.status;
+          onProgress?.(items);
+
+          const result = await waitFor(execution.id);
+          item.execution = result;
+          item.status = result.status;
+          item.error = result.error;
+        } catch (error) {
+          item.status = 'failed';
+          item.error = error instanceof Error ? error.message : '启动工作流失败';
+        }
+        onProgress?.(items);
+      }
+    };
+
+    try {
+      const concurrency = Math.max(1, Math.min(options.concurrency || DEFAULT_BATCH_CONCURRENCY, queue.length));
+      await Promise.all(Array.from({ length: concurrency }, worker));
+    } finally {
+      unsubscribe();
+      signal?.removeEventListener('abort', onAbort);
+    }
+    return items;
+  }
+}
+
+// 结果单元格：图片和视频取地址，列表逐项换行，对象逐字段展开
+function toCellText(value: any): string {
+  if (Array.isArray(value)) return value.map(toCellText).join('\n');
+  if (value && typeof value === 'object' && typeof value.url !== 'string') {
+    return Object.entries(value)
+      .map(([key, item]) => `${key}: ${toCellText(item)}`)
+      .join('\n');
+  }
+  return toText(value);
+}
+
+// 创建全局批量运行器实例
+export const workflowBatchRunner = new WorkflowBatchRunner(workflowExecutor);
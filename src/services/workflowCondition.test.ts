@@ -0,0 +1,67 @@
+/**
+ * 步骤执行条件测试
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { StepCondition } from '../config/workflows';
+import { describeStepCondition, evaluateStepCondition } from './workflowCondition';
+
+const data = {
+  topic: '咖啡',
+  count: '12',
+  empty: '',
+  tags: ['ai', 'video'],
+  video: { scenes: [{ text: '开场' }, { text: '结尾' }], meta: { a: 1, b: 2 } }
+};
+
+const check = (condition: StepCondition) => evaluateStepCondition(condition, data);
+
+describe('evaluateStepCondition', () => {
+  it('空字符串、空数组和未定义视为不存在', () => {
+    assert.equal(check({ path: 'topic', operator: 'exists' }), true);
+    assert.equal(check({ path: 'empty', operator: 'exists' }), false);
+    assert.equal(check({ path: 'missing.value', operator: 'notExists' }), true);
+    assert.equal(evaluateStepCondition({ path: 'tags', operator: 'notExists' }, { tags: [] }), true);
+  });
+
+  it('相等比较按字符串进行', () => {
+    assert.equal(check({ path: 'count', operator: 'equals', value: 12 }), true);
+    assert.equal(check({ path: 'missing', operator: 'equals', value: '' }), true);
+    assert.equal(check({ path: 'topic', operator: 'notEquals', value: '茶' }), true);
+  });
+
+  it('数组按元素包含，其余按子串包含', () => {
+    assert.equal(check({ path: 'tags', operator: 'contains', value: 'ai' }), true);
+    assert.equal(check({ path: 'tags', operator: 'contains', value: 'vid' }), false);
+    assert.equal(check({ path: 'topic', operator: 'contains', value: '啡' }), true);
+  });
+
+  it('数值比较转换为数字，无法转换时不满足', () => {
+    assert.equal(check({ path: 'count', operator: 'greaterThan', value: 9 }), true);
+    assert.equal(check({ path: 'count', operator: 'lessThan', value: '100' }), true);
+    assert.equal(check({ path: 'topic', operator: 'greaterThan', value: 0 }), false);
+  });
+
+  it('长度比较支持字符串、数组和对象', () => {
+    assert.equal(check({ path: 'video.scenes', operator: 'lengthGreaterThan', value: 1 }), true);
+    assert.equal(check({ path: 'topic', operator: 'lengthLessThan', value: 3 }), true);
+    assert.equal(check({ path: 'video.meta', operator: 'lengthGreaterThan', value: 2 }), false);
+    assert.equal(check({ path: 'missing', operator: 'lengthLessThan', value: 1 }), true);
+  });
+
+  it('路径可以使用下标', () => {
+    assert.equal(check({ path: 'video.scenes[1].text', operator: 'equals', value: '结尾' }), true);
+  });
+
+  it('未知的条件类型报错', () => {
+    assert.throws(() => check({ path: 'topic', operator: 'matches' as any }), /未知的条件类型: matches/);
+  });
+});
+
+describe('describeStepCondition', () => {
+  it('没有比较值时省略', () => {
+    assert.equal(describeStepCondition({ path: 'tags', operator: 'exists' }, '存在且不为空'), 'tags 存在且不为空');
+    assert.equal(describeStepCondition({ path: 'count', operator: 'greaterThan', value: 3 }), 'count greaterThan 3');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * 工作流步骤执行条件
+ */
+
+import type { StepCondition } from '../config/workflows';
+import { resolvePath } from './promptTemplate';
+
+/**
+ * 根据运行参数和上游输出判断条件是否满足
+ */
+export function evaluateStepCondition(condition: StepCondition, data: Record<string, any>): boolean {
+  const value = resolvePath(data, condition.path);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'exists':
+      return !isEmpty(value);
+    case 'notExists':
+      return isEmpty(value);
+    case 'equals':
+      return String(value ?? '') === String(expected ?? '');
+    case 'notEquals':
+      return String(value ?? '') !== String(expected ?? '');
+    case 'contains':
+      return Array.isArray(value)
+        ? value.some(item => String(item) === String(expected))
+        : String(value ?? '').includes(String(expected ?? ''));
+    case 'greaterThan':
+      return Number(value) > Number(expected);
+    case 'lessThan':
+      return Number(value) < Number(expected);
+    case 'lengthGreaterThan':
+      return lengthOf(value) > Number(expected);
+    case 'lengthLessThan':
+      return lengthOf(value) < Number(expected);
+    default:
+      throw new Error(`未知的条件类型: ${condition.operator}`);
+  }
+}
+
+/**
+ * 条件的可读描述，用于日志和界面展示
+ */
+export function describeStepCondition(condition: StepCondition, operatorLabel?: string): string {
+  const label = operatorLabel || condition.operator;
+  return condition.value === undefined || condition.value === ''
+    ? `${condition.path} ${label}`
+    : `${condition.path} ${label} ${condition.value}`;
+}
+
+function isEmpty(value: any): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function lengthOf(value: any): number {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  if (value && typeof value === 'object') return Object.keys(value).length;
+  return 0;
+}
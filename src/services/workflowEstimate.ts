@@ -0,0 +1,218 @@
+/**
+ * 工作流用量预估
+ * 按提示词长度估算 token，结合模型的上下文上限、参考价格和参考速度估算费用与耗时
+ */
+
+import type { WorkflowStep, WorkflowStepEstimate } from '../config/workflows';
+import { EngineConfigManager } from '../config/engines';
+import type { AIEngineType } from '../config/engines';
+import { modelManager } from '../config/models';
+import type { ModelInfo } from '../config/models';
+import { buildSchemaInstruction, createSampleOutput } from './outputSchema';
+import { extractTemplateVariables } from './promptTemplate';
+
+// 上游输出无法确定项数时，循环步骤默认按此项数估算
+export const DEFAULT_MAP_ITEM_COUNT = 5;
+
+// 各类文本步骤的典型输出长度（token）
+const TYPICAL_OUTPUT_TOKENS: Partial<Record<WorkflowStep['promptType'], number>> = {
+  content: 800,
+  title: 100,
+  description: 200,
+  cover: 300,
+  video: 600
+};
+
+// 模型没有参考速度时使用的默认值
+const DEFAULT_OUTPUT_TOKENS_PER_SECOND = 40;
+const DEFAULT_SECONDS_PER_IMAGE = 15;
+const DEFAULT_SECONDS_PER_VIDEO = 120;
+// 文本请求的固定开销（秒）
+const TEXT_REQUEST_LATENCY = 2;
+
+const CJK_PATTERN = /[\u3000-\u303f\u3400-\u4dbf\u4e00-\u9fff\uff00-\uffef]/g;
+
+/**
+ * 估算文本的 token 数：中日文按每字 1 个，其余按每 4 个字符 1 个
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = (text.match(CJK_PATTERN) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * 步骤调用的生成类型
+ */
+export function getStepGenerationKind(step: WorkflowStep): 'text' | 'image' | 'video' | null {
+  switch (step.promptType) {
+    case 'image':
+      return 'image';
+    case 'image-to-video':
+      return 'video';
+    case 'map':
+    case 'review':
+      return null;
+    default:
+      return 'text';
+  }
+}
+
+/**
+ * 按步骤类型生成示例输出，用于渲染下游步骤的提示词
+ */
+export function createStepSample(step: WorkflowStep, itemCount = 1): any {
+  const label = `${step.name || step.outputKey}的输出`;
+
+  switch (step.promptType) {
+    case 'map':
+      return Array.from({ length: itemCount }, () =>
+        Object.fromEntries(
+          (step.map?.steps || []).filter(sub => sub?.outputKey).map(sub => [sub.outputKey, createStepSample(sub)])
+        )
+      );
+    case 'image':
+    case 'image-to-video':
+      return {
+        type: step.promptType === 'image' ? 'image' : 'video',
+        url: `https://example.com/${step.outputKey}`
+      };
+    default:
+      return step.outputSchema && typeof step.outputSchema === 'object'
+        ? createSampleOutput(step.outputSchema, label)
+        : `[${label}]`;
+  }
+}
+
+/**
+ * 文本步骤的预估输出 token 数，不超过模型的输出上限
+ */
+export function estimateOutputTokens(step: WorkflowStep, model?: ModelInfo): number {
+  const typical = TYPICAL_OUTPUT_TOKENS[step.promptType] || 500;
+  const limit = model?.capabilities.maxOutputTokens;
+  return limit ? Math.min(typical, limit) : typical;
+}
+
+/**
+ * 预估单个步骤的用量、费用和耗时
+ * upstreamTokens 为上游文本输出的预估 token 数，模板引用时计入输入
+ */
+export function estimateStepUsage(
+  step: WorkflowStep,
+  options: {
+    stepId?: string;
+    name?: string;
+    engine: string;
+    model?: string;
+    prompt: string;
+    calls: number;
+    upstreamTokens: Record<string, number>;
+    warnings?: string[];
+  }
+): WorkflowStepEstimate {
+  const kind = getStepGenerationKind(step);
+  const warnings = [...(options.warnings || [])];
+  const modelId = options.model || (kind
+    ? EngineConfigManager.getDefaultModel(options.engine as AIEngineType, kind)?.id
+    : undefined);
+  const info = modelId ? modelManager.getModelById(modelId) : undefined;
+  const pricing = info?.pricing;
+  const calls = options.calls;
+
+  const estimate: WorkflowStepEstimate = {
+    stepId: options.stepId || step.id,
+    name: options.name || step.name,
+    promptType: step.promptType,
+    engine: options.engine,
+    model: modelId,
+    prompt: options.prompt,
+    calls,
+    inputTokens: 0,
+    outputTokens: 0,
+    images: 0,
+    videos: 0,
+    cost: {},
+    durationSeconds: 0,
+    warnings
+  };
+
+  if (!kind || calls === 0) return estimate;
+  if (!modelId) {
+    warnings.push(`未找到引擎 ${options.engine} 的默认模型，费用未计入`);
+    return estimate;
+  }
+  if (!pricing) {
+    warnings.push(`模型 ${modelId} 没有参考价格，费用未计入`);
+  }
+
+  let cost = 0;
+  if (kind === 'text') {
+    let input = estimateTokens(options.prompt);
+    if (step.outputSchema) input += estimateTokens(buildSchemaInstruction(step.outputSchema));
+    for (const variable of safeExtractVariables(step.template)) {
+      input += options.upstreamTokens[variable] || 0;
+    }
+    const output = estimateOutputTokens(step, info);
+
+    const maxInput = info?.capabilities.maxInputTokens;
+    if (maxInput && input > maxInput) {
+      warnings.push(`提示词约 ${input} tokens，超过模型 ${modelId} 的上下文上限 ${maxInput}`);
+    }
+
+    estimate.inputTokens = input * calls;
+    estimate.outputTokens = output * calls;
+    cost = ((input / 1000) * (pricing?.inputPer1K || 0) + (output / 1000) * (pricing?.outputPer1K || 0)) * calls;
+    estimate.durationSeconds =
+      (TEXT_REQUEST_LATENCY + output / (info?.speed?.outputTokensPerSecond || DEFAULT_OUTPUT_TOKENS_PER_SECOND)) * calls;
+  } else if (kind === 'image') {
+    estimate.images = calls;
+    cost = (pricing?.perImage || 0) * calls;
+    estimate.durationSeconds = (info?.speed?.secondsPerImage || DEFAULT_SECONDS_PER_IMAGE) * calls;
+  } else {
+    estimate.videos = calls;
+    cost = (pricing?.perVideo || 0) * calls;
+    estimate.durationSeconds = (info?.speed?.secondsPerVideo || DEFAULT_SECONDS_PER_VIDEO) * calls;
+  }
+
+  if (pricing) estimate.cost = { [pricing.currency]: cost };
+  return estimate;
+}
+
+/**
+ * 按币种累加费用
+ */
+export function addCost(target: Record<string, number>, cost: Record<string, number>): Record<string, number> {
+  Object.entries(cost).forEach(([currency, amount]) => {
+    target[currency] = (target[currency] || 0) + amount;
+  });
+  return target;
+}
+
+/**
+ * 格式化按币种累计的费用，如 ¥1.20 + $0.35
+ */
+export function formatCost(cost: Record<string, number>): string {
+  const symbols: Record<string, string> = { CNY: '¥', USD: '$' };
+  const parts = Object.entries(cost).map(([currency, amount]) =>
+    `${symbols[currency] || `${currency} `}${amount < 0.01 && amount > 0 ? amount.toFixed(4) : amount.toFixed(2)}`
+  );
+  return parts.length > 0 ? parts.join(' + ') : '-';
+}
+
+/**
+ * 格式化预估耗时
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)} 秒`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} 分钟`;
+  return `${(seconds / 3600).toFixed(1)} 小时`;
+}
+
+// 模板语法错误时已在渲染阶段提示，这里不再重复报错
+function safeExtractVariables(template?: string): string[] {
+  try {
+    return extractTemplateVariables(template || '');
+  } catch {
+    return [];
+  }
+}
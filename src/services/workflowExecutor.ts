@@ -1,32 +1,236 @@
-import { 
-  WorkflowConfig, 
-  WorkflowExecution, 
+import type {
+  WorkflowAsset,
+  WorkflowConfig,
+  WorkflowDryRunEstimate,
+  WorkflowExecution,
+  WorkflowPendingReview,
+  WorkflowReviewDecision,
+  WorkflowRunEstimate,
+  WorkflowRetryPolicy,
+  WorkflowStep,
+  WorkflowStepAttempt,
+  WorkflowStepEstimate,
+  WorkflowStepLog,
   WorkflowStepParams,
-  DEFAULT_WORKFLOWS 
+  WorkflowStepStatus
 } from '../config/workflows';
-import { getEngine, AIEngineType, AISource } from '../config/engines';
-import { createEngineAdapter } from './engines/engineAdapters';
+import { MEDIA_PROMPT_TYPES } from '../config/workflows';
+import { AI_ENGINE_CONFIGS } from '../config/engines';
+import type { AIEngineType, AISource } from '../config/engines';
+import type { EngineAdapter } from '../adapters/types';
+import { engineRegistry } from './engines/engineRegistry';
+import { buildWorkflowGraph, getReadySteps } from './workflowGraph';
+import { renderTemplate, resolvePath, toText } from './promptTemplate';
+import { evaluateStepCondition } from './workflowCondition';
+import { buildRepairPrompt, buildSchemaInstruction, parseJsonOutput, validateOutput } from './outputSchema';
+import { DEFAULT_MAP_ITEM_COUNT, addCost, createStepSample, estimateStepUsage, getStepGenerationKind } from './workflowEstimate';
+import type { WorkflowGraph } from './workflowGraph';
+import { workflowHistory } from './workflowHistory';
+import { workflowStore } from './workflowStore';
+import { apiService } from '../../services/apiService';
+
+// 运行中执行记录的心跳间隔，超过 STALE_AFTER 未更新视为已中断
+const HEARTBEAT_INTERVAL = 10 * 1000;
+const STALE_AFTER = 30 * 1000;
+
+// 结构化输出校验失败后的最大修复次数
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// 重试间隔的默认值和上限
+const DEFAULT_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 60 * 1000;
+
+// 步骤因条件不满足被跳过
+const STEP_SKIPPED = Symbol('skipped');
+// 循环步骤因暂停或取消未处理完所有项
+const STEP_HALTED = Symbol('halted');
+// 审核步骤不在本上下文等待，交给页面提交审核后继续
+const STEP_AWAITING_REVIEW = Symbol('awaiting_review');
+
+// 已完成或已跳过的步骤不再执行
+function isStepDone(status?: WorkflowStepStatus): boolean {
+  return status === 'completed' || status === 'skipped';
+}
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// 第 attempt 次重试前的等待时间
+function getRetryDelay(policy: WorkflowRetryPolicy, attempt: number): number {
+  const base = policy.delayMs ?? DEFAULT_RETRY_DELAY;
+  const delay = policy.backoff === 'fixed' ? base : base * 2 ** (attempt - 1);
+  return Math.min(delay, MAX_RETRY_DELAY);
+}
+
+// 可被取消的等待
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('用户取消'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('用户取消'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 单次调用超过 timeoutMs 时中止请求并失败，执行被取消时一并中止
+async function withTimeout<T>(
+  timeoutMs: number | undefined,
+  signal: AbortSignal,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (!timeoutMs) return call(signal);
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  signal.addEventListener('abort', onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`调用超时（${timeoutMs / 1000} 秒）`);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+// 备用引擎对应的步骤配置：更换引擎时不沿用原步骤的AI源和模型
+function getFallbackStep(workflow: WorkflowConfig, step: WorkflowStep): WorkflowStep {
+  const fallback = step.fallback!;
+  const engine = fallback.engine || resolveStepEngine(workflow, step);
+  const sameEngine = engine === resolveStepEngine(workflow, step);
+  return {
+    ...step,
+    engine,
+    sourceId: fallback.sourceId || (sameEngine ? step.sourceId : undefined),
+    model: fallback.model || (sameEngine ? resolveStepModel(workflow, step) : undefined)
+  };
+}
+
+// 审核驳回后重新生成时附加到提示词末尾的修改意见
+function buildRevisionPrompt(step: WorkflowStep, previous: any, feedback: string): string {
+  if (MEDIA_PROMPT_TYPES.includes(step.promptType)) {
+    return `\n${feedback}`;
+  }
+  return `
+
+上一次生成的结果：
+${toText(previous)}
+
+审核意见：${feedback}
+请根据审核意见重新生成。`;
+}
+
+// 执行上下文，用于暂停后恢复和取消在途请求
+interface ExecutionContext {
+  workflow: WorkflowConfig;
+  graph: WorkflowGraph;
+  params: WorkflowStepParams;
+  controller: AbortController;
+}
+
+// 执行事件监听器
+export interface WorkflowExecutionListener {
+  onProgress?: (execution: WorkflowExecution) => void;
+  onComplete?: (execution: WorkflowExecution) => void;
+  onError?: (execution: WorkflowExecution, error: Error) => void;
+  onStepOutput?: (execution: WorkflowExecution, stepId: string, text: string) => void; // 流式输出的累计文本
+}
+
+/**
+ * 步骤实际使用的引擎
+ */
+export function resolveStepEngine(workflow: WorkflowConfig, step: WorkflowStep): string {
+  return step.engine || workflow.engine;
+}
+
+/**
+ * 从已配置的AI源中解析步骤使用的AI源
+ * 优先使用步骤或工作流指定的AI源，否则使用该引擎的默认AI源
+ */
+export function resolveStepSource(
+  workflow: WorkflowConfig,
+  step: WorkflowStep,
+  sources: AISource[]
+): AISource {
+  const engine = resolveStepEngine(workflow, step);
+  const sourceId = step.sourceId || (step.engine ? undefined : workflow.sourceId);
+
+  if (sourceId) {
+    const source = sources.find(s => s.id === sourceId);
+    if (!source) {
+      throw new Error(`步骤 ${step.name} 指定的AI源不存在，请在设置中检查AI源配置`);
+    }
+    return source;
+  }
+
+  const candidates = sources.filter(s => s.type === engine);
+  const source = candidates.find(s => s.isDefault) || candidates[0];
+  if (!source) {
+    const engineName = AI_ENGINE_CONFIGS[engine as AIEngineType]?.name || engine;
+    throw new Error(`步骤 ${step.name} 需要 ${engineName} 的AI源，请先在设置中添加`);
+  }
+  return source;
+}
+
+/**
+ * 步骤使用的模型：步骤覆盖引擎时不继承工作流的模型
+ */
+export function resolveStepModel(workflow: WorkflowConfig, step: WorkflowStep): string | undefined {
+  if (step.model) return step.model;
+  return resolveStepEngine(workflow, step) === workflow.engine ? workflow.model : undefined;
+}
 
 /**
  * 工作流执行器
- * 负责按顺序执行工作流的各个步骤
+ * 根据步骤依赖关系构建执行图，依赖已满足的步骤并行执行
  */
 export class WorkflowExecutor {
   private executions: Map<string, WorkflowExecution> = new Map();
-  private onProgress?: (execution: WorkflowExecution) => void;
-  private onComplete?: (execution: WorkflowExecution) => void;
-  private onError?: (execution: WorkflowExecution, error: Error) => void;
+  private contexts: Map<string, ExecutionContext> = new Map();
+  private activeLoops: Set<string> = new Set(); // 调度循环尚未返回的执行ID
+  private listeners: Set<WorkflowExecutionListener> = new Set();
+  private reviewWaiters: Map<string, (decision: WorkflowReviewDecision) => void> = new Map();
+  private reviewDecisions: Map<string, WorkflowReviewDecision> = new Map(); // 恢复执行时待使用的审核结果
+  private reviewsDetached = false;
 
-  constructor(
-    private options: {
-      onProgress?: (execution: WorkflowExecution) => void;
-      onComplete?: (execution: WorkflowExecution) => void;
-      onError?: (execution: WorkflowExecution, error: Error) => void;
-    } = {}
-  ) {
-    this.onProgress = options.onProgress;
-    this.onComplete = options.onComplete;
-    this.onError = options.onError;
+  constructor(options: WorkflowExecutionListener = {}) {
+    this.listeners.add(options);
+  }
+
+  /**
+   * 订阅执行事件，返回取消订阅函数
+   */
+  subscribe(listener: WorkflowExecutionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 执行到审核步骤时不等待审核：其余步骤结束后保存为等待审核并退出调度循环，由页面提交审核后继续执行
+   * 扩展后台 service worker 空闲时会被终止，不能在其中等待用户审核
+   */
+  detachReviews(): void {
+    this.reviewsDetached = true;
   }
 
   /**
@@ -37,26 +241,40 @@ export class WorkflowExecutor {
     params: WorkflowStepParams
   ): Promise<WorkflowExecution> {
     // 查找工作流配置
-    const workflow = DEFAULT_WORKFLOWS.find(w => w.id === workflowId);
+    const workflow = await this.findWorkflow(workflowId);
     if (!workflow) {
       throw new Error(`工作流 ${workflowId} 未找到`);
     }
 
+    // 执行前校验依赖关系（缺失依赖、循环依赖）
+    const graph = buildWorkflowGraph(workflow);
+
     // 创建执行实例
     const execution: WorkflowExecution = {
       id: this.generateId(),
       workflowId,
       status: 'pending',
       currentStep: 0,
+      stepStatus: Object.fromEntries(workflow.steps.map(step => [step.id, 'pending'])),
+      runningSteps: [],
+      params,
       results: {},
+      stepLogs: {},
       progress: 0
     };
 
     this.executions.set(execution.id, execution);
+    this.contexts.set(execution.id, {
+      workflow,
+      graph,
+      params,
+      controller: new AbortController()
+    });
+    this.persist(execution);
 
     try {
       // 异步执行工作流
-      this.runWorkflow(workflow, execution, params).catch(error => {
+      this.runWorkflow(execution).catch(error => {
         console.error('工作流执行失败:', error);
       });
 
@@ -64,94 +282,693 @@ export class WorkflowExecutor {
     } catch (error) {
       execution.status = 'failed';
       execution.error = error instanceof Error ? error.message : '未知错误';
-      this.onError?.(execution, error as Error);
+      this.notifyError(execution, error as Error);
       throw error;
     }
   }
 
   /**
-   * 异步运行工作流
+   * 试运行：按运行参数和上游示例输出渲染每个步骤的提示词，估算 token、图片和视频数量、费用和耗时
+   * 不调用任何引擎；传入多组参数时按依次运行累计
    */
-  private async runWorkflow(
+  async dryRun(
+    workflowId: string,
+    params: WorkflowStepParams | WorkflowStepParams[],
+    options: { mapItemCount?: number } = {}
+  ): Promise<WorkflowDryRunEstimate> {
+    const workflow = await this.findWorkflow(workflowId);
+    if (!workflow) {
+      throw new Error(`工作流 ${workflowId} 未找到`);
+    }
+
+    const graph = buildWorkflowGraph(workflow);
+    const runs = (Array.isArray(params) ? params : [params]).map(runParams =>
+      this.estimateRun(workflow, graph, runParams, options)
+    );
+
+    const estimate: WorkflowDryRunEstimate = {
+      workflowId,
+      runs,
+      inputTokens: 0,
+      outputTokens: 0,
+      images: 0,
+      videos: 0,
+      cost: {},
+      durationSeconds: 0,
+      warnings: []
+    };
+    const warnings = new Set<string>();
+    runs.forEach(run => {
+      estimate.inputTokens += run.inputTokens;
+      estimate.outputTokens += run.outputTokens;
+      estimate.images += run.images;
+      estimate.videos += run.videos;
+      estimate.durationSeconds += run.durationSeconds;
+      addCost(estimate.cost, run.cost);
+      run.steps.forEach(step => step.warnings.forEach(warning => warnings.add(`${step.name}: ${warning}`)));
+    });
+    estimate.warnings = Array.from(warnings);
+    return estimate;
+  }
+
+  /**
+   * 预估单次运行，按依赖关系计算关键路径耗时
+   */
+  private estimateRun(
     workflow: WorkflowConfig,
-    execution: WorkflowExecution,
-    params: WorkflowStepParams
-  ): Promise<void> {
+    graph: WorkflowGraph,
+    params: WorkflowStepParams,
+    options: { mapItemCount?: number }
+  ): WorkflowRunEstimate {
+    const data: Record<string, any> = { ...params };
+    const upstreamTokens: Record<string, number> = {};
+    const finishAt = new Map<string, number>();
+    const steps: WorkflowStepEstimate[] = [];
+    const outputKeys = new Set(workflow.steps.map(step => step.outputKey));
+
+    // 路径是否只依赖运行参数，此时可以按实际参数计算
+    const fromParams = (path: string) => {
+      const root = path.split(/[.[]/)[0];
+      return root in params && !outputKeys.has(root);
+    };
+
+    // 条件只依赖运行参数时按实际参数判断，否则按满足条件估算
+    const shouldRun = (step: WorkflowStep, scope: Record<string, any>, warnings: string[]) => {
+      if (!step.condition) return true;
+      if (fromParams(step.condition.path)) return evaluateStepCondition(step.condition, scope);
+      warnings.push('执行条件依赖上游输出，按满足条件估算');
+      return true;
+    };
+
+    // 严格模式下渲染失败时记录提示，再按宽松模式渲染用于估算
+    const render = (step: WorkflowStep, scope: Record<string, any>, warnings: string[]) => {
+      try {
+        return renderTemplate(step.template || '', scope, { strict: workflow.strictTemplate });
+      } catch (error) {
+        warnings.push(`模板渲染失败: ${toError(error).message}`);
+        try {
+          return renderTemplate(step.template || '', scope);
+        } catch {
+          return step.template || '';
+        }
+      }
+    };
+
+    const estimate = (
+      step: WorkflowStep,
+      scope: Record<string, any>,
+      calls: number,
+      warnings: string[],
+      tokens = upstreamTokens,
+      label?: { stepId: string; name: string }
+    ) =>
+      estimateStepUsage(step, {
+        ...label,
+        engine: resolveStepEngine(workflow, step),
+        model: resolveStepModel(workflow, step),
+        prompt: calls > 0 && step.promptType !== 'map' && step.promptType !== 'review' ? render(step, scope, warnings) : '',
+        calls,
+        upstreamTokens: tokens,
+        warnings
+      });
+
+    for (const id of graph.order) {
+      const step = graph.steps.get(id)!;
+      const warnings: string[] = [];
+      const start = Math.max(0, ...(graph.dependencies.get(id) || []).map(dep => finishAt.get(dep) || 0));
+      let duration = 0;
+
+      if (!shouldRun(step, data, warnings)) {
+        steps.push(estimate(step, data, 0, [...warnings, '执行条件不满足，将被跳过']));
+      } else if (step.promptType === 'map') {
+        const map = step.map!;
+        const items = resolvePath(data, map.itemsPath);
+        const count = fromParams(map.itemsPath) && Array.isArray(items)
+          ? items.length
+          : options.mapItemCount ?? DEFAULT_MAP_ITEM_COUNT;
+        if (!fromParams(map.itemsPath)) warnings.push(`列表项数按 ${count} 项估算`);
+        steps.push(estimate(step, data, count, warnings));
+
+        // 子步骤按第一项渲染，用量乘以项数；每项的子步骤依次执行，项之间按并发数并行
+        const outputs: Record<string, any> = {};
+        const itemTokens = { ...upstreamTokens };
+        let perItem = 0;
+        for (const subStep of map.steps) {
+          const subWarnings: string[] = [];
+          const scope = { ...data, ...outputs, [map.itemName]: Array.isArray(items) ? items[0] : undefined, '@index': 1 };
+          const calls = shouldRun(subStep, scope, subWarnings) ? count : 0;
+          const subEstimate = estimate(subStep, scope, calls, subWarnings, itemTokens, {
+            stepId: `${step.id}.${subStep.id}`,
+            name: `${step.name} / ${subStep.name}`
+          });
+          steps.push(subEstimate);
+          perItem += calls > 0 ? subEstimate.durationSeconds / calls : 0;
+          outputs[subStep.outputKey] = createStepSample(subStep);
+          if (calls > 0 && getStepGenerationKind(subStep) === 'text') {
+            itemTokens[subStep.outputKey] = subEstimate.outputTokens / calls;
+          }
+        }
+        duration = Math.ceil(count / Math.max(1, map.concurrency || 1)) * perItem;
+        data[step.outputKey] = createStepSample(step, count);
+      } else if (step.promptType === 'review') {
+        steps.push(estimate(step, data, 1, [...warnings, '人工审核的等待时间未计入']));
+        data[step.outputKey] = Object.fromEntries(step.review!.keys.map(key => [key, data[key]]));
+      } else {
+        const stepEstimate = estimate(step, data, 1, warnings);
+        steps.push(stepEstimate);
+        duration = stepEstimate.durationSeconds;
+        data[step.outputKey] = createStepSample(step);
+        if (getStepGenerationKind(step) === 'text') upstreamTokens[step.outputKey] = stepEstimate.outputTokens;
+      }
+
+      finishAt.set(id, start + duration);
+    }
+
+    const run: WorkflowRunEstimate = {
+      params,
+      steps,
+      inputTokens: 0,
+      outputTokens: 0,
+      images: 0,
+      videos: 0,
+      cost: {},
+      durationSeconds: Math.max(0, ...finishAt.values())
+    };
+    steps.forEach(step => {
+      run.inputTokens += step.inputTokens;
+      run.outputTokens += step.outputTokens;
+      run.images += step.images;
+      run.videos += step.videos;
+      addCost(run.cost, step.cost);
+    });
+    return run;
+  }
+
+  /**
+   * 异步运行工作流
+   */
+  private async runWorkflow(execution: WorkflowExecution): Promise<void> {
+    const { workflow, graph, params, controller } = this.contexts.get(execution.id)!;
+
     execution.status = 'running';
-    execution.startTime = new Date();
-    this.onProgress?.(execution);
+    execution.startTime = execution.startTime || new Date();
+    execution.interrupted = false;
+    this.notifyProgress(execution);
+    this.persist(execution);
+
+    const heartbeat = setInterval(() => this.persist(execution), HEARTBEAT_INTERVAL);
 
-    // TODO: 从配置中获取API密钥，这里需要根据实际情况调整
-    const source: AISource = {
-      id: 'default',
-      name: workflow.engine,
-      type: workflow.engine as AIEngineType,
-      apiKey: process.env.PLASMO_PUBLIC_API_KEY || 'your-api-key-here',
-      isDefault: true
+    // 按AI源缓存适配器，步骤可覆盖工作流的引擎、AI源和模型
+    let sources: Promise<AISource[]> | null = null;
+    const adapters = new Map<string, EngineAdapter>();
+    const getAdapter = async (step: WorkflowStep): Promise<{ adapter: EngineAdapter; model?: string }> => {
+      sources = sources || apiService.getAllAISources();
+      const source = resolveStepSource(workflow, step, await sources);
+      if (!adapters.has(source.id)) {
+        adapters.set(source.id, engineRegistry.create(source));
+      }
+      const model = resolveStepModel(workflow, step);
+      return {
+        adapter: adapters.get(source.id)!,
+        model: model ? source.modelOverrides?.[model] || model : undefined
+      };
     };
-    
-    const adapter = createEngineAdapter(workflow.engine as AIEngineType, source);
 
-    try {
-      // 按顺序执行每个步骤
-      for (let i = 0; i < workflow.steps.length; i++) {
-        const step = workflow.steps[i];
-        
-        // 检查依赖是否满足
-        if (step.dependencies) {
-          for (const dep of step.dependencies) {
-            if (!execution.results[dep]) {
-              throw new Error(`依赖步骤 ${dep} 未完成`);
+    // 恢复执行时跳过已完成或已跳过的步骤，复用其结果
+    // 设置了失败后继续的步骤失败后不再执行，依赖它的步骤随之跳过
+    const blocked = new Set<string>();
+    graph.order.forEach(id => {
+      const status = execution.stepStatus[id];
+      const dependsOnBlocked = (graph.dependencies.get(id) || []).some(dep => blocked.has(dep));
+      if (status === 'failed' || (status === 'skipped' && dependsOnBlocked)) blocked.add(id);
+    });
+    const completed = new Set(graph.order.filter(id => isStepDone(execution.stepStatus[id]) || blocked.has(id)));
+    const started = new Set(completed);
+    const running = new Map<string, Promise<void>>();
+    let failure: Error | null = null;
+
+    // 流式输出写入步骤日志并通知监听器
+    const streamTo = (stepId: string, log: WorkflowStepLog) => (text: string) => {
+      execution.stepLogs[stepId] = { ...log, output: text };
+      this.listeners.forEach(listener => listener.onStepOutput?.(execution, stepId, text));
+    };
+
+    // 按重试策略调用引擎，主引擎重试用尽后改用备用引擎，每次调用记录到步骤日志
+    // 关键步骤首次失败即结束，不重试也不使用备用引擎
+    const callWithRetry = async (
+      step: WorkflowStep,
+      log: WorkflowStepLog,
+      call: (target: WorkflowStep, signal: AbortSignal) => Promise<any>
+    ): Promise<any> => {
+      const targets = [{ target: step, fallback: false }];
+      if (step.fallback && !step.critical) targets.push({ target: getFallbackStep(workflow, step), fallback: true });
+      const retries = step.critical ? 0 : step.retry?.maxRetries || 0;
+      const attempts = log.attempts || (log.attempts = []);
+      let lastError: Error | null = null;
+
+      for (const { target, fallback } of targets) {
+        for (let attempt = 0; attempt <= retries; attempt++) {
+          if (attempt > 0) await sleep(getRetryDelay(step.retry!, attempt), controller.signal);
+
+          const record: WorkflowStepAttempt = {
+            engine: resolveStepEngine(workflow, target),
+            model: resolveStepModel(workflow, target),
+            fallback: fallback || undefined,
+            startTime: Date.now(),
+            endTime: 0
+          };
+          attempts.push(record);
+          try {
+            const result = await withTimeout(step.timeoutMs, controller.signal, signal => call(target, signal));
+            record.endTime = Date.now();
+            return result;
+          } catch (error) {
+            lastError = toError(error);
+            record.endTime = Date.now();
+            record.error = lastError.message;
+            if (controller.signal.aborted) throw lastError;
+          }
+        }
+      }
+
+      if (attempts.length > 1) {
+        throw new Error(`${lastError!.message}（共尝试 ${attempts.length} 次）`);
+      }
+      throw lastError!;
+    };
+
+    // 执行单个步骤：检查条件、渲染模板并调用引擎，条件不满足时返回 STEP_SKIPPED
+    // 审核驳回后重新生成时，在提示词末尾附加上一次的结果和修改意见
+    const runStep = async (
+      step: WorkflowStep,
+      data: Record<string, any>,
+      log: WorkflowStepLog,
+      onText?: (text: string) => void,
+      revision?: { previous: any; feedback: string }
+    ): Promise<any> => {
+      if (step.condition && !evaluateStepCondition(step.condition, data)) {
+        return STEP_SKIPPED;
+      }
+      // 模板渲染失败（如严格模式下变量未定义）按步骤失败处理
+      log.input = renderTemplate(step.template || '', data, { strict: workflow.strictTemplate });
+      if (revision) {
+        log.input += buildRevisionPrompt(step, revision.previous, revision.feedback);
+      }
+      const prompt = log.input;
+      return callWithRetry(step, log, async (target, signal) => {
+        const { adapter, model } = await getAdapter(target);
+        return this.executeStep(step, prompt, adapter, {
+          model,
+          signal,
+          results: data,
+          params,
+          onText
+        });
+      });
+    };
+
+    // 暂停或取消后不再启动新的步骤和循环项；等待审核时不依赖审核步骤的步骤继续执行
+    const isHalted = () => this.isPaused(execution) || controller.signal.aborted;
+
+    // 同一时间只有一个审核步骤等待审核，其余审核步骤待其结束后再启动
+    const takeReady = () => {
+      let reviewing = graph.order.some(id =>
+        graph.steps.get(id)!.promptType === 'review' &&
+        (running.has(id) || execution.stepStatus[id] === 'awaiting_input')
+      );
+      return getReadySteps(graph, completed, started).filter(step => {
+        if (step.promptType !== 'review') return true;
+        if (reviewing) return false;
+        reviewing = true;
+        return true;
+      });
+    };
+
+    // 循环步骤：对列表中的每一项按顺序执行子步骤，恢复时跳过已完成的项
+    // 暂停或取消后不再处理新的项，返回 STEP_HALTED
+    const runMap = async (step: WorkflowStep, data: Record<string, any>): Promise<any> => {
+      const map = step.map!;
+      const items = resolvePath(data, map.itemsPath);
+      if (!Array.isArray(items)) {
+        throw new Error(`步骤 ${step.name} 的列表来源 ${map.itemsPath} 不是数组`);
+      }
+
+      const mapProgress = execution.mapProgress || (execution.mapProgress = {});
+      let progress = mapProgress[step.id];
+      if (!progress || progress.total !== items.length) {
+        progress = { total: items.length, itemStatus: items.map(() => 'pending'), results: [] };
+        mapProgress[step.id] = progress;
+      }
+
+      const queue = items.map((_, index) => index).filter(index => progress.itemStatus[index] !== 'completed');
+      let itemFailure: Error | null = null;
+
+      const processItem = async (index: number) => {
+        const outputs: Record<string, any> = {};
+        for (const subStep of map.steps) {
+          const logKey = `${step.id}[${index}].${subStep.id}`;
+          const log: WorkflowStepLog = { startTime: Date.now() };
+          execution.stepLogs[logKey] = log;
+
+          const scope = { ...data, ...outputs, [map.itemName]: items[index], '@index': index + 1 };
+          try {
+            const result = await runStep(subStep, scope, log);
+            if (result !== STEP_SKIPPED) outputs[subStep.outputKey] = result;
+            execution.stepLogs[logKey] = {
+              ...log,
+              output: result === STEP_SKIPPED ? undefined : result,
+              endTime: Date.now()
+            };
+          } catch (error) {
+            execution.stepLogs[logKey] = { ...log, error: toError(error).message, endTime: Date.now() };
+            throw error;
+          }
+        }
+        return outputs;
+      };
+
+      const worker = async () => {
+        while (queue.length > 0 && !itemFailure && !isHalted()) {
+          const index = queue.shift()!;
+          progress.itemStatus[index] = 'running';
+          this.notifyProgress(execution);
+
+          try {
+            progress.results[index] = await processItem(index);
+            progress.itemStatus[index] = 'completed';
+          } catch (error) {
+            progress.itemStatus[index] = 'failed';
+            itemFailure = itemFailure || toError(error);
+          }
+          this.updateProgress(workflow, execution, running);
+        }
+      };
+
+      const concurrency = Math.max(1, Math.min(map.concurrency || 1, queue.length));
+      await Promise.all(Array.from({ length: concurrency }, worker));
+
+      if (itemFailure) {
+        throw new Error(`步骤 ${step.name} 第 ${progress.itemStatus.indexOf('failed') + 1} 项失败: ${(itemFailure as Error).message}`);
+      }
+      if (progress.itemStatus.some(status => status !== 'completed')) {
+        return STEP_HALTED;
+      }
+      return progress.results;
+    };
+
+    // 被审核步骤的输出改变后，等待审核期间已执行的下游步骤重新排队，按新的输出再次执行
+    // 审核步骤自身正在运行，其下游步骤尚未启动，都不受影响
+    const resetDownstream = (stepIds: string[]) => {
+      const affected = new Set(stepIds);
+      graph.order.forEach(id => {
+        if (affected.has(id) || !(graph.dependencies.get(id) || []).some(dep => affected.has(dep))) return;
+        affected.add(id);
+        if (running.has(id) || !started.has(id)) return;
+
+        execution.stepStatus[id] = 'pending';
+        delete execution.results[graph.steps.get(id)!.outputKey];
+        delete execution.stepLogs[id];
+        delete execution.mapProgress?.[id];
+        completed.delete(id);
+        started.delete(id);
+        blocked.delete(id);
+      });
+    };
+
+    // 人工审核步骤：等待用户通过或驳回
+    // 通过时校验修改后的值；驳回时按依赖顺序重新生成被审核的步骤，然后再次等待审核
+    const runReview = async (step: WorkflowStep): Promise<any> => {
+      const { keys, instructions } = step.review!;
+
+      for (;;) {
+        execution.stepStatus[step.id] = 'awaiting_input';
+        execution.pendingReview = { stepId: step.id, keys, instructions };
+        if (this.reviewsDetached && !this.reviewDecisions.has(execution.id)) {
+          return STEP_AWAITING_REVIEW;
+        }
+        if (execution.status === 'running') execution.status = 'awaiting_input';
+        this.notifyProgress(execution);
+        this.persist(execution);
+
+        const decision = await this.waitForReview(execution.id, controller.signal);
+        execution.pendingReview = undefined;
+        execution.stepStatus[step.id] = 'running';
+        execution.status = 'running';
+
+        const producers = graph.order
+          .map(id => graph.steps.get(id)!)
+          .filter(producer => keys.includes(producer.outputKey));
+
+        if (decision.approved === true) {
+          const values = decision.values || {};
+          this.validateReviewValues(workflow, { stepId: step.id, keys, instructions }, values);
+          const edited = producers.filter(producer =>
+            producer.outputKey in values &&
+            JSON.stringify(values[producer.outputKey]) !== JSON.stringify(execution.results[producer.outputKey])
+          );
+          resetDownstream(edited.map(producer => producer.id));
+          Object.assign(execution.results, values);
+          return Object.fromEntries(keys.map(key => [key, execution.results[key]]));
+        }
+
+        resetDownstream(producers.map(producer => producer.id));
+        for (const producer of producers) {
+          const previous = execution.results[producer.outputKey];
+          const producerLog: WorkflowStepLog = { startTime: Date.now() };
+          execution.stepLogs[producer.id] = producerLog;
+          execution.stepStatus[producer.id] = 'running';
+          delete execution.results[producer.outputKey];
+          this.notifyProgress(execution);
+
+          try {
+            const result = await runStep(
+              producer,
+              { ...params, ...execution.results },
+              producerLog,
+              streamTo(producer.id, producerLog),
+              { previous, feedback: decision.feedback }
+            );
+            if (result === STEP_SKIPPED) {
+              execution.stepStatus[producer.id] = 'skipped';
+            } else {
+              execution.results[producer.outputKey] = result;
+              execution.stepStatus[producer.id] = 'completed';
             }
+            execution.stepLogs[producer.id] = { ...producerLog, output: result === STEP_SKIPPED ? undefined : result, endTime: Date.now() };
+          } catch (error) {
+            execution.stepStatus[producer.id] = 'failed';
+            execution.stepLogs[producer.id] = { ...producerLog, error: toError(error).message, endTime: Date.now() };
+            throw error;
           }
         }
+      }
+    };
 
-        // 更新当前步骤
-        execution.currentStep = i;
-        execution.progress = Math.round((i / workflow.steps.length) * 100);
-        this.onProgress?.(execution);
+    // 启动单个步骤，完成后从运行队列中移除
+    const launch = (step: WorkflowStep) => {
+      started.add(step.id);
 
-        // 执行步骤
-        const result = await this.executeStep(step, adapter, execution.results, params);
-        execution.results[step.outputKey] = result;
+      const failedDep = (graph.dependencies.get(step.id) || []).find(dep => blocked.has(dep));
+      if (failedDep) {
+        const now = Date.now();
+        execution.stepStatus[step.id] = 'skipped';
+        execution.stepLogs[step.id] = { startTime: now, endTime: now, error: `依赖的步骤 ${graph.steps.get(failedDep)!.name} 失败，已跳过` };
+        blocked.add(step.id);
+        completed.add(step.id);
+        return;
       }
 
-      // 工作流完成
+      execution.stepStatus[step.id] = 'running';
+      const log: WorkflowStepLog = { startTime: Date.now() };
+      execution.stepLogs[step.id] = log;
+
+      const task = Promise.resolve()
+        .then(() => {
+          const data = { ...params, ...execution.results };
+          if (step.promptType === 'map' || step.promptType === 'review') {
+            if (step.condition && !evaluateStepCondition(step.condition, data)) return STEP_SKIPPED;
+            return step.promptType === 'map' ? runMap(step, data) : runReview(step);
+          }
+          return runStep(step, data, log, streamTo(step.id, log));
+        })
+        .then(result => {
+          if (result === STEP_AWAITING_REVIEW) {
+            // 保持等待审核，调度循环结束后保存
+            return;
+          }
+          if (result === STEP_HALTED) {
+            // 循环步骤被暂停，恢复时重新调度并跳过已完成的项
+            execution.stepStatus[step.id] = 'pending';
+            started.delete(step.id);
+            return;
+          }
+          if (result === STEP_SKIPPED) {
+            execution.stepStatus[step.id] = 'skipped';
+            execution.stepLogs[step.id] = { ...log, endTime: Date.now() };
+          } else {
+            execution.results[step.outputKey] = result;
+            execution.stepStatus[step.id] = 'completed';
+            execution.stepLogs[step.id] = { ...log, output: result, endTime: Date.now() };
+          }
+          completed.add(step.id);
+        })
+        .catch(error => {
+          const err = toError(error);
+          execution.stepStatus[step.id] = 'failed';
+          execution.stepLogs[step.id] = { ...log, error: err.message, endTime: Date.now() };
+          // 重试和备用引擎都失败后工作流失败；设置了失败后继续的步骤只跳过依赖它的步骤
+          if (step.continueOnError && !step.critical && !controller.signal.aborted) {
+            blocked.add(step.id);
+            completed.add(step.id);
+          } else {
+            failure = failure || err;
+          }
+        })
+        .finally(() => {
+          running.delete(step.id);
+          this.updateProgress(workflow, execution, running);
+        });
+
+      running.set(step.id, task);
+    };
+
+    this.activeLoops.add(execution.id);
+    try {
+      while (completed.size < graph.order.length) {
+        // 检查点：暂停或取消后不再启动新步骤，等待在途步骤结束
+        const ready = failure || isHalted() ? [] : takeReady();
+        if (ready.length > 0) {
+          ready.forEach(launch);
+          this.updateProgress(workflow, execution, running);
+        }
+
+        if (running.size === 0) {
+          // 启动的步骤都因依赖失败被跳过时，继续调度后续步骤
+          if (ready.length > 0) continue;
+          break;
+        }
+
+        // 等待任意一个在途步骤结束后重新调度
+        await Promise.race(running.values());
+      }
+
+      if (controller.signal.aborted) throw new Error('用户取消');
+      if (failure) throw failure;
+
+      // 暂停：保留已完成步骤的结果，等待恢复
+      if (this.isPaused(execution)) {
+        this.notifyProgress(execution);
+        this.persist(execution);
+        return;
+      }
+
+      // 审核步骤未在本上下文等待：其余可执行的步骤已结束，保存为等待审核
+      if (execution.pendingReview && execution.status === 'running') {
+        execution.status = 'awaiting_input';
+        this.contexts.delete(execution.id);
+        this.notifyProgress(execution);
+        this.persist(execution);
+        return;
+      }
+
+      if (completed.size < graph.order.length) {
+        throw new Error('存在无法调度的步骤，请检查依赖配置');
+      }
+
+      // 工作流完成，失败后继续的步骤记录在 error 中
+      const failedSteps = graph.order.filter(id => execution.stepStatus[id] === 'failed');
       execution.status = 'completed';
       execution.endTime = new Date();
       execution.progress = 100;
-      this.onComplete?.(execution);
+      execution.error = failedSteps.length > 0
+        ? `部分步骤失败：${failedSteps.map(id => graph.steps.get(id)!.name).join('、')}`
+        : undefined;
+      this.contexts.delete(execution.id);
+      this.persist(execution);
+      this.notifyComplete(execution);
     } catch (error) {
+      this.contexts.delete(execution.id);
       execution.status = 'failed';
       execution.endTime = new Date();
       execution.error = error instanceof Error ? error.message : '未知错误';
-      this.onError?.(execution, error as Error);
+      this.persist(execution);
+      this.notifyError(execution, error as Error);
+    } finally {
+      clearInterval(heartbeat);
+      this.activeLoops.delete(execution.id);
     }
   }
 
+  // 通知所有监听器
+  private notifyProgress(execution: WorkflowExecution): void {
+    this.listeners.forEach(listener => listener.onProgress?.(execution));
+  }
+
+  private notifyComplete(execution: WorkflowExecution): void {
+    this.listeners.forEach(listener => listener.onComplete?.(execution));
+  }
+
+  private notifyError(execution: WorkflowExecution, error: Error): void {
+    this.listeners.forEach(listener => listener.onError?.(execution, error));
+  }
+
+  /**
+   * 执行是否已被暂停（状态可能在等待期间被 pause 修改）
+   */
+  private isPaused(execution: WorkflowExecution): boolean {
+    return execution.status === 'paused';
+  }
+
+  /**
+   * 更新执行进度并通知
+   */
+  private updateProgress(
+    workflow: WorkflowConfig,
+    execution: WorkflowExecution,
+    running: Map<string, Promise<void>>
+  ): void {
+    const total = workflow.steps.length;
+    // 未完成的循环步骤按已完成项的比例计入进度
+    const done = workflow.steps.reduce((sum, step) => {
+      if (isStepDone(execution.stepStatus[step.id]) || execution.stepStatus[step.id] === 'failed') return sum + 1;
+      const map = execution.mapProgress?.[step.id];
+      return map?.total ? sum + map.itemStatus.filter(status => status === 'completed').length / map.total : sum;
+    }, 0);
+    const firstIncomplete = workflow.steps.findIndex(step => !isStepDone(execution.stepStatus[step.id]));
+
+    execution.runningSteps = Array.from(running.keys());
+    execution.currentStep = firstIncomplete === -1 ? total - 1 : firstIncomplete;
+    execution.progress = Math.round((done / total) * 100);
+    this.notifyProgress(execution);
+    this.persist(execution);
+  }
+
+  /**
+   * 持久化执行记录
+   */
+  private persist(execution: WorkflowExecution): void {
+    execution.updatedAt = Date.now();
+    workflowHistory.save(execution).catch(() => {
+      // 写入失败已在历史存储中记录，不影响执行
+    });
+  }
+
   /**
    * 执行单个步骤
    */
   private async executeStep(
-    step: any,
+    step: WorkflowStep,
+    prompt: string,
     adapter: EngineAdapter,
-    previousResults: Record<string, any>,
-    params: WorkflowStepParams
+    options: {
+      model?: string;
+      signal?: AbortSignal;
+      results: Record<string, any>;
+      params: WorkflowStepParams;
+      onText?: (text: string) => void;
+    }
   ): Promise<any> {
-    // 准备提示词
-    let prompt = step.template || '';
-    
-    // 替换模板变量
-    const templateData = {
-      ...params,
-      ...previousResults,
-      content: previousResults.content || '',
-      title: previousResults.title || ''
-    };
-
-    Object.entries(templateData).forEach(([key, value]) => {
-      prompt = prompt.replace(new RegExp(`{${key}}`, 'g'), String(value));
-    });
+    const { model, signal } = options;
 
     // 根据步骤类型调用相应的AI功能
     switch (step.promptType) {
@@ -159,44 +976,147 @@ export class WorkflowExecutor {
       case 'title':
       case 'description':
         // 使用文本生成功能
-        const textResponse = await adapter.generateText({
+        return this.generateStepText(step, adapter, {
           prompt,
-          model: step.model || 'default',
+          model,
+          signal,
           temperature: 0.7,
           maxTokens: 1000
-        });
-        return textResponse.content;
+        }, options.onText);
 
       case 'cover':
         // 生成封面图提示词
-        const coverPrompt = await adapter.generateText({
+        return this.generateStepText(step, adapter, {
           prompt,
-          model: step.model || 'default',
+          model,
+          signal,
           temperature: 0.8
-        });
-        return coverPrompt.content;
+        }, options.onText);
 
       case 'video':
         // 生成视频场景描述
-        const videoScenes = await adapter.generateText({
+        return this.generateStepText(step, adapter, {
           prompt,
-          model: step.model || 'default',
+          model,
+          signal,
           temperature: 0.7
+        }, options.onText);
+
+      case 'image': {
+        // 根据上游生成的提示词绘制图片
+        const image = await adapter.generateImage({
+          prompt,
+          model,
+          signal,
+          n: 1
         });
-        return videoScenes.content;
+        const asset: WorkflowAsset = {
+          type: 'image',
+          url: image.url,
+          prompt: image.revisedPrompt || prompt,
+          model,
+          createdAt: Date.now()
+        };
+        return asset;
+      }
+
+      case 'image-to-video': {
+        // 以上游图片作为首帧生成视频
+        const source = step.inputKey ? options.results[step.inputKey] : undefined;
+        const imageUrl = typeof source === 'string' ? source : source?.url;
+        if (!imageUrl) {
+          throw new Error(`步骤 ${step.name} 缺少首帧图片（${step.inputKey || '未指定输入'}）`);
+        }
+
+        const video = await adapter.generateVideo({
+          prompt,
+          model,
+          signal,
+          image: imageUrl,
+          duration: Number(options.params.duration) || undefined
+        });
+        const asset: WorkflowAsset = {
+          type: 'video',
+          url: video.url,
+          thumbnailUrl: video.thumbnailUrl || imageUrl,
+          prompt,
+          model,
+          createdAt: Date.now()
+        };
+        return asset;
+      }
 
       default:
         throw new Error(`未知的步骤类型: ${step.promptType}`);
     }
   }
 
+  /**
+   * 生成文本步骤的输出
+   * 声明了输出结构时请求 JSON 格式，解析校验失败后附带错误信息让模型修复
+   */
+  private async generateStepText(
+    step: WorkflowStep,
+    adapter: EngineAdapter,
+    params: Parameters<EngineAdapter['generateText']>[0],
+    onText?: (text: string) => void
+  ): Promise<any> {
+    const schema = step.outputSchema;
+    if (!schema) {
+      return this.generateText(adapter, params, onText);
+    }
+
+    const messages = [{ role: 'user', content: params.prompt + buildSchemaInstruction(schema) }];
+    for (let attempt = 0; ; attempt++) {
+      const text = await this.generateText(adapter, { ...params, messages, jsonMode: true }, onText);
+
+      let value: any;
+      let errors: string[];
+      try {
+        value = parseJsonOutput(text);
+        errors = validateOutput(value, schema);
+      } catch (error) {
+        errors = [`JSON 解析失败: ${error instanceof Error ? error.message : '格式错误'}`];
+      }
+
+      if (errors.length === 0) return value;
+      if (attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw new Error(`步骤 ${step.name} 的输出不符合结构要求: ${errors.join('; ')}`);
+      }
+      messages.push({ role: 'assistant', content: text }, { role: 'user', content: buildRepairPrompt(errors) });
+    }
+  }
+
+  /**
+   * 生成文本，适配器支持流式输出时逐段回调累计内容
+   */
+  private async generateText(
+    adapter: EngineAdapter,
+    params: Parameters<EngineAdapter['generateText']>[0],
+    onText?: (text: string) => void
+  ): Promise<string> {
+    if (!adapter.streamText || !onText) {
+      return (await adapter.generateText(params)).content;
+    }
+
+    let text = '';
+    for await (const chunk of adapter.streamText(params)) {
+      if (!chunk.delta) continue;
+      text += chunk.delta;
+      onText(text);
+    }
+    return text;
+  }
+
   /**
    * 暂停工作流执行
+   * 在途步骤会继续完成，之后不再启动新步骤
    */
   pause(executionId: string): boolean {
     const execution = this.executions.get(executionId);
     if (execution && execution.status === 'running') {
       execution.status = 'paused';
+      this.notifyProgress(execution);
       return true;
     }
     return false;
@@ -204,30 +1124,213 @@ export class WorkflowExecutor {
 
   /**
    * 恢复工作流执行
+   * 从第一个未完成的步骤继续，复用已有结果
    */
   async resume(executionId: string): Promise<boolean> {
     const execution = this.executions.get(executionId);
-    if (!execution || execution.status !== 'paused') {
+    if (!execution || !this.isPaused(execution)) {
       return false;
     }
 
-    // TODO: 实现恢复逻辑
-    return false;
+    const context = await this.ensureContext(execution);
+    // 等待期间执行可能已被取消，或已由另一次调用恢复
+    if (!context || !this.isPaused(execution)) {
+      return !!context && execution.status === 'running';
+    }
+
+    // 原调度循环还在等待在途步骤时由它继续调度，只有循环已返回才启动新的循环
+    if (this.activeLoops.has(executionId)) {
+      execution.status = 'running';
+      this.notifyProgress(execution);
+      return true;
+    }
+
+    this.runWorkflow(execution).catch(error => {
+      console.error('工作流执行失败:', error);
+    });
+    return true;
+  }
+
+  /**
+   * 提交审核结果
+   * 通过时用修改后的值替换被审核的输出；驳回时附带修改意见重新生成被审核的步骤
+   */
+  async submitReview(executionId: string, decision: WorkflowReviewDecision): Promise<boolean> {
+    const execution = this.executions.get(executionId);
+    const review = execution?.pendingReview;
+    if (!execution || execution.status !== 'awaiting_input' || !review) {
+      return false;
+    }
+    if (decision.approved === false && !decision.feedback.trim()) {
+      throw new Error('驳回时请填写修改意见');
+    }
+
+    const context = await this.ensureContext(execution);
+    if (!context) {
+      return false;
+    }
+    if (decision.approved && decision.values) {
+      this.validateReviewValues(context.workflow, review, decision.values);
+    }
+
+    const waiter = this.reviewWaiters.get(executionId);
+    if (waiter) {
+      waiter(decision);
+      return true;
+    }
+
+    // 从历史记录恢复的执行：重新调度审核步骤，由其直接使用已提交的审核结果
+    this.reviewDecisions.set(executionId, decision);
+    execution.stepStatus[review.stepId] = 'pending';
+    this.runWorkflow(execution).catch(error => {
+      console.error('工作流执行失败:', error);
+    });
+    return true;
+  }
+
+  /**
+   * 校验审核时修改的值，声明了输出结构的步骤按结构校验
+   */
+  private validateReviewValues(
+    workflow: WorkflowConfig,
+    review: WorkflowPendingReview,
+    values: Record<string, any>
+  ): void {
+    Object.entries(values).forEach(([key, value]) => {
+      if (!review.keys.includes(key)) {
+        throw new Error(`${key} 不在审核范围内`);
+      }
+      const schema = workflow.steps.find(step => step.outputKey === key)?.outputSchema;
+      const errors = schema ? validateOutput(value, schema) : [];
+      if (errors.length > 0) {
+        throw new Error(`${key} 不符合输出结构: ${errors.join('; ')}`);
+      }
+    });
+  }
+
+  /**
+   * 等待审核结果，取消执行时拒绝
+   */
+  private waitForReview(executionId: string, signal: AbortSignal): Promise<WorkflowReviewDecision> {
+    const queued = this.reviewDecisions.get(executionId);
+    if (queued) {
+      this.reviewDecisions.delete(executionId);
+      return Promise.resolve(queued);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.reviewWaiters.delete(executionId);
+        reject(new Error('用户取消'));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.reviewWaiters.set(executionId, decision => {
+        signal.removeEventListener('abort', onAbort);
+        this.reviewWaiters.delete(executionId);
+        resolve(decision);
+      });
+    });
   }
 
   /**
    * 取消工作流执行
+   * 中止在途的AI请求
    */
   cancel(executionId: string): boolean {
     const execution = this.executions.get(executionId);
-    if (execution && (execution.status === 'running' || execution.status === 'paused')) {
+    if (execution && ['running', 'paused', 'awaiting_input'].includes(execution.status)) {
+      const context = this.contexts.get(executionId);
+      const halted = !this.activeLoops.has(executionId);
+
+      context?.controller.abort();
       execution.status = 'failed';
       execution.error = '用户取消';
+      execution.pendingReview = undefined;
+
+      // 调度循环已返回（暂停后在途步骤已结束，或从历史记录恢复）时，需要在此结束执行
+      if (halted) {
+        this.contexts.delete(executionId);
+        execution.endTime = new Date();
+        this.persist(execution);
+        this.notifyError(execution, new Error('用户取消'));
+      }
       return true;
     }
     return false;
   }
 
+  /**
+   * 使用历史执行的参数重新运行
+   */
+  async rerun(executionId: string): Promise<WorkflowExecution> {
+    const execution = this.executions.get(executionId) || await workflowHistory.get(executionId);
+    if (!execution) {
+      throw new Error(`执行记录 ${executionId} 未找到`);
+    }
+    return this.execute(execution.workflowId, execution.params);
+  }
+
+  /**
+   * 加载持久化的执行历史
+   * 上次会话中暂停或因重载中断的执行会被登记为可恢复
+   */
+  async loadHistory(): Promise<WorkflowExecution[]> {
+    const stored = await workflowHistory.list();
+
+    return stored.map(record => {
+      const active = this.executions.get(record.id);
+      if (active) return active;
+
+      const stale = !record.updatedAt || Date.now() - record.updatedAt > STALE_AFTER;
+      const interrupted = (record.status === 'running' || record.status === 'pending') && stale;
+
+      if (interrupted) {
+        record.status = 'paused';
+        record.interrupted = true;
+        record.runningSteps = [];
+        Object.keys(record.stepStatus).forEach(id => {
+          if (record.stepStatus[id] === 'running') {
+            record.stepStatus[id] = 'pending';
+          }
+        });
+        Object.values(record.mapProgress || {}).forEach(progress => {
+          progress.itemStatus = progress.itemStatus.map(status => (status === 'running' ? 'pending' : status));
+        });
+        this.persist(record);
+      }
+
+      // 等待审核的执行在重载后由 submitReview 重新调度，中断的并行步骤重新执行
+      if (record.status === 'awaiting_input') {
+        record.runningSteps = [];
+        Object.keys(record.stepStatus).forEach(id => {
+          if (record.stepStatus[id] === 'running') {
+            record.stepStatus[id] = 'pending';
+          }
+        });
+      }
+
+      if (record.status === 'paused' || record.status === 'awaiting_input') {
+        this.executions.set(record.id, record);
+      }
+      return record;
+    });
+  }
+
+  /**
+   * 删除执行记录（运行中的执行不可删除）
+   */
+  async removeExecution(executionId: string): Promise<boolean> {
+    const execution = this.executions.get(executionId);
+    if (execution?.status === 'running') {
+      return false;
+    }
+
+    this.executions.delete(executionId);
+    this.contexts.delete(executionId);
+    await workflowHistory.remove(executionId);
+    return true;
+  }
+
   /**
    * 获取执行状态
    */
@@ -242,6 +1345,33 @@ export class WorkflowExecutor {
     return Array.from(this.executions.values());
   }
 
+  /**
+   * 获取执行上下文，从历史记录恢复的执行需要重建
+   */
+  private async ensureContext(execution: WorkflowExecution): Promise<ExecutionContext | undefined> {
+    const existing = this.contexts.get(execution.id);
+    if (existing) return existing;
+
+    const workflow = await this.findWorkflow(execution.workflowId);
+    if (!workflow) return undefined;
+
+    const context: ExecutionContext = {
+      workflow,
+      graph: buildWorkflowGraph(workflow),
+      params: execution.params,
+      controller: new AbortController()
+    };
+    this.contexts.set(execution.id, context);
+    return context;
+  }
+
+  /**
+   * 查找工作流配置
+   */
+  private findWorkflow(workflowId: string): Promise<WorkflowConfig | undefined> {
+    return workflowStore.get(workflowId);
+  }
+
   /**
    * 生成唯一ID
    */
@@ -0,0 +1,75 @@
+/**
+ * 工作流依赖图测试
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { WorkflowStep } from '../config/workflows';
+import { buildWorkflowGraph, getReadySteps, validateWorkflowGraph } from './workflowGraph';
+
+const step = (id: string, dependencies?: string[]): WorkflowStep => ({
+  id,
+  name: id,
+  description: '',
+  promptType: 'content',
+  template: '',
+  outputKey: id,
+  dependencies
+});
+
+describe('validateWorkflowGraph', () => {
+  it('有效的依赖关系没有错误', () => {
+    assert.deepEqual(validateWorkflowGraph({ steps: [step('a'), step('b', ['a'])] }), { valid: true, errors: [] });
+  });
+
+  it('报告重复的步骤ID、自身依赖和缺失的依赖', () => {
+    const { valid, errors } = validateWorkflowGraph({
+      steps: [step('a'), step('a'), step('b', ['b']), step('c', ['a', 'missing'])]
+    });
+    assert.equal(valid, false);
+    assert.deepEqual(errors, ['步骤ID重复: a', '步骤 b 不能依赖自身', '步骤 c 依赖的步骤 missing 不存在']);
+  });
+
+  it('报告环上的步骤', () => {
+    const { errors } = validateWorkflowGraph({
+      steps: [step('start'), step('a', ['start', 'c']), step('b', ['a']), step('c', ['b'])]
+    });
+    assert.deepEqual(errors, ['存在循环依赖: a → c → b → a']);
+  });
+});
+
+describe('buildWorkflowGraph', () => {
+  it('按拓扑顺序排列，同层保持声明顺序', () => {
+    const graph = buildWorkflowGraph({
+      steps: [step('cover', ['title']), step('content'), step('title', ['content']), step('tags'), step('publish', ['cover', 'tags'])]
+    });
+    assert.deepEqual(graph.order, ['content', 'tags', 'title', 'cover', 'publish']);
+    assert.deepEqual(graph.dependents.get('content'), ['title']);
+    assert.deepEqual(graph.dependencies.get('publish'), ['cover', 'tags']);
+  });
+
+  it('重复声明的依赖只计一次', () => {
+    const graph = buildWorkflowGraph({ steps: [step('a'), step('b', ['a', 'a'])] });
+    assert.deepEqual(graph.dependencies.get('b'), ['a']);
+    assert.deepEqual(graph.order, ['a', 'b']);
+  });
+
+  it('依赖关系无效时报错', () => {
+    assert.throws(
+      () => buildWorkflowGraph({ steps: [step('a', ['b']), step('b', ['a'])] }),
+      /工作流配置无效: 存在循环依赖: a → b → a/
+    );
+  });
+});
+
+describe('getReadySteps', () => {
+  it('返回依赖均已完成且尚未启动的步骤', () => {
+    const graph = buildWorkflowGraph({ steps: [step('a'), step('b'), step('c', ['a']), step('d', ['a', 'b'])] });
+    const ids = (completed: string[], started: string[]) =>
+      getReadySteps(graph, new Set(completed), new Set(started)).map(item => item.id);
+
+    assert.deepEqual(ids([], []), ['a', 'b']);
+    assert.deepEqual(ids(['a'], ['a', 'b']), ['c']);
+    assert.deepEqual(ids(['a', 'b'], ['a', 'b', 'c']), ['d']);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * 工作流依赖图
+ * 根据步骤的 dependencies 构建有向无环图，执行前检查重复、缺失和循环依赖
+ */
+
+import type { WorkflowConfig, WorkflowStep } from '../config/workflows';
+
+// 工作流依赖图
+export interface WorkflowGraph {
+  steps: Map<string, WorkflowStep>;
+  dependencies: Map<string, string[]>; // 步骤ID -> 其依赖的步骤ID
+  dependents: Map<string, string[]>; // 步骤ID -> 依赖它的步骤ID
+  order: string[]; // 拓扑排序结果（同层按声明顺序）
+}
+
+/**
+ * 校验工作流依赖关系
+ */
+export function validateWorkflowGraph(
+  workflow: Pick<WorkflowConfig, 'steps'>
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  for (const step of workflow.steps) {
+    if (ids.has(step.id)) {
+      errors.push(`步骤ID重复: ${step.id}`);
+    }
+    ids.add(step.id);
+  }
+
+  for (const step of workflow.steps) {
+    for (const dep of step.dependencies || []) {
+      if (dep === step.id) {
+        errors.push(`步骤 ${step.id} 不能依赖自身`);
+      } else if (!ids.has(dep)) {
+        errors.push(`步骤 ${step.id} 依赖的步骤 ${dep} 不存在`);
+      }
+    }
+  }
+
+  if (errors.length === 0) {
+    const cycle = findCycle(workflow.steps);
+    if (cycle) {
+      errors.push(`存在循环依赖: ${cycle.join(' → ')}`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * 构建工作流依赖图，依赖关系无效时抛出错误
+ */
+export function buildWorkflowGraph(workflow: Pick<WorkflowConfig, 'steps'>): WorkflowGraph {
+  const { valid, errors } = validateWorkflowGraph(workflow);
+  if (!valid) {
+    throw new Error(`工作流配置无效: ${errors.join('; ')}`);
+  }
+
+  const steps = new Map<string, WorkflowStep>();
+  const dependencies = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>();
+
+  workflow.steps.forEach(step => {
+    steps.set(step.id, step);
+    dependencies.set(step.id, [...new Set(step.dependencies || [])]);
+    dependents.set(step.id, []);
+  });
+
+  dependencies.forEach((deps, id) => {
+    deps.forEach(dep => dependents.get(dep)!.push(id));
+  });
+
+  // Kahn算法，入度为0的步骤按声明顺序出队
+  const inDegree = new Map<string, number>();
+  dependencies.forEach((deps, id) => inDegree.set(id, deps.length));
+
+  const order: string[] = [];
+  let ready = workflow.steps.filter(step => inDegree.get(step.id) === 0).map(step => step.id);
+
+  while (ready.length > 0) {
+    order.push(...ready);
+    const next: string[] = [];
+    ready.forEach(id => {
+      dependents.get(id)!.forEach(child => {
+        const degree = inDegree.get(child)! - 1;
+        inDegree.set(child, degree);
+        if (degree === 0) next.push(child);
+      });
+    });
+    ready = workflow.steps.filter(step => next.includes(step.id)).map(step => step.id);
+  }
+
+  return { steps, dependencies, dependents, order };
+}
+
+/**
+ * 获取依赖已全部完成、可以开始执行的步骤
+ */
+export function getReadySteps(
+  graph: WorkflowGraph,
+  completed: Set<string>,
+  started: Set<string>
+): WorkflowStep[] {
+  return graph.order
+    .filter(id => !started.has(id))
+    .filter(id => graph.dependencies.get(id)!.every(dep => completed.has(dep)))
+    .map(id => graph.steps.get(id)!);
+}
+
+/**
+ * 深度优先查找循环依赖，返回环上的步骤ID
+ */
+function findCycle(steps: WorkflowStep[]): string[] | null {
+  const depsMap = new Map(steps.map(step => [step.id, step.dependencies || []]));
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visiting.has(id)) {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+    if (visited.has(id)) return null;
+
+    visiting.add(id);
+    path.push(id);
+    for (const dep of depsMap.get(id) || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  for (const step of steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
@@ -0,0 +1,228 @@
+/**
+ * 工作流执行历史
+ * 通过平台存储适配器持久化执行记录，弹窗或页面重载后仍可查看、重跑和恢复
+ * 结果中的大图（Stable Diffusion、ComfyUI 返回的 data URL）单独按内容存储，执行记录中只保存引用，
+ * 避免每次进度更新都重写整张图片
+ */
+
+import { createPlatformAdapter } from '../adapters';
+import type { StorageAdapter } from '../adapters/types';
+import type { WorkflowExecution } from '../config/workflows';
+import { forwardWrite, handleForwardedWrites, shouldForwardWrites } from './backgroundWrites';
+
+const HISTORY_KEY = 'workflow_executions';
+const MAX_HISTORY = 50;
+const ASSET_KEY_PREFIX = 'workflow_asset_';
+const ASSET_REF_PREFIX = 'workflow-asset:';
+const ASSET_REF_PATTERN = /workflow-asset:([a-z0-9]+)/g;
+const INLINE_DATA_URL_LIMIT = 16 * 1024; // 不超过该长度的 data URL 直接保存在执行记录中
+
+// 存储中的执行记录（Date 序列化为 ISO 字符串）
+type StoredExecution = Omit<WorkflowExecution, 'startTime' | 'endTime'> & {
+  startTime?: string;
+  endTime?: string;
+};
+
+/**
+ * 执行历史存储
+ */
+export class WorkflowHistoryStore {
+  private storage: StorageAdapter | null;
+  // 串行化写入，避免并行步骤同时更新时互相覆盖
+  private writeQueue: Promise<void> = Promise.resolve();
+  // 本页面已写入的图片，重复保存同一执行时不再写入
+  private savedAssets = new Set<string>();
+  // data URL 对应的图片ID，避免每次保存都重新计算摘要
+  private assetIds = new Map<string, string>();
+
+  constructor(storage?: StorageAdapter) {
+    this.storage = storage || null;
+  }
+
+  /**
+   * 获取所有执行记录（按开始时间倒序）
+   */
+  async list(): Promise<WorkflowExecution[]> {
+    const stored = await this.read();
+    return Promise.all(stored.map(record => this.deserialize(record)));
+  }
+
+  /**
+   * 获取单条执行记录
+   */
+  async get(executionId: string): Promise<WorkflowExecution | undefined> {
+    const stored = await this.read();
+    const record = stored.find(item => item.id === executionId);
+    return record ? this.deserialize(record) : undefined;
+  }
+
+  /**
+   * 保存执行记录（存在则覆盖）
+   */
+  save(execution: WorkflowExecution): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(HISTORY_KEY, 'save', [execution]);
+    }
+    const assets: Record<string, string> = {};
+    const record = this.serialize(execution, assets);
+    return this.enqueue(async stored => {
+      await this.writeAssets(assets);
+      const index = stored.findIndex(item => item.id === record.id);
+      if (index === -1) {
+        stored.unshift(record);
+      } else {
+        stored[index] = record;
+      }
+      return stored.slice(0, MAX_HISTORY);
+    });
+  }
+
+  /**
+   * 删除执行记录
+   */
+  remove(executionId: string): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(HISTORY_KEY, 'remove', [executionId]);
+    }
+    return this.enqueue(stored => stored.filter(item => item.id !== executionId));
+  }
+
+  /**
+   * 清空执行历史
+   */
+  clear(): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(HISTORY_KEY, 'clear', []);
+    }
+    return this.enqueue(() => []);
+  }
+
+  /**
+   * 后台执行扩展页面转发的写入
+   */
+  serveForwardedWrites(): void {
+    handleForwardedWrites(HISTORY_KEY, {
+      save: (execution: WorkflowExecution) => this.save(execution),
+      remove: (executionId: string) => this.remove(executionId),
+      clear: () => this.clear()
+    });
+  }
+
+  private enqueue(update: (stored: StoredExecution[]) => StoredExecution[] | Promise<StoredExecution[]>): Promise<void> {
+    const task = this.writeQueue.then(async () => {
+      const stored = await this.read();
+      const next = await update(stored);
+      await this.getStorage().set(HISTORY_KEY, next);
+      await this.removeUnusedAssets(stored, next);
+    });
+    this.writeQueue = task.catch(error => {
+      console.error('保存工作流执行历史失败:', error);
+    });
+    return task;
+  }
+
+  private async read(): Promise<StoredExecution[]> {
+    return (await this.getStorage().get<StoredExecution[]>(HISTORY_KEY)) || [];
+  }
+
+  private getStorage(): StorageAdapter {
+    if (!this.storage) {
+      this.storage = createPlatformAdapter().storage;
+    }
+    return this.storage;
+  }
+
+  // 写入本页面尚未写入的图片
+  private async writeAssets(assets: Record<string, string>): Promise<void> {
+    for (const [id, dataUrl] of Object.entries(assets)) {
+      if (this.savedAssets.has(id)) continue;
+      await this.getStorage().set(ASSET_KEY_PREFIX + id, dataUrl);
+      this.savedAssets.add(id);
+    }
+  }
+
+  // 删除执行记录被删除或超出上限后不再被引用的图片
+  private async removeUnusedAssets(previous: StoredExecution[], next: StoredExecution[]): Promise<void> {
+    const used = collectAssetIds(next);
+    for (const id of collectAssetIds(previous)) {
+      if (used.has(id)) continue;
+      await this.getStorage().remove(ASSET_KEY_PREFIX + id);
+      this.savedAssets.delete(id);
+      this.assetIds.forEach((assetId, dataUrl) => {
+        if (assetId === id) this.assetIds.delete(dataUrl);
+      });
+    }
+  }
+
+  private serialize(execution: WorkflowExecution, assets: Record<string, string>): StoredExecution {
+    // 深拷贝，避免后续修改影响排队中的写入；较大的 data URL 替换为图片引用
+    return mapStrings(JSON.parse(JSON.stringify(execution)), value => {
+      if (!value.startsWith('data:') || value.length <= INLINE_DATA_URL_LIMIT) return value;
+      let id = this.assetIds.get(value);
+      if (!id) {
+        id = hashString(value);
+        this.assetIds.set(value, id);
+      }
+      assets[id] = value;
+      return ASSET_REF_PREFIX + id;
+    });
+  }
+
+  private async deserialize(record: StoredExecution): Promise<WorkflowExecution> {
+    const assets = new Map<string, string | null>();
+    for (const id of collectAssetIds([record])) {
+      assets.set(id, await this.getStorage().get<string>(ASSET_KEY_PREFIX + id));
+    }
+    const restored: StoredExecution = assets.size === 0
+      ? record
+      : mapStrings(record, value => {
+          if (!value.startsWith(ASSET_REF_PREFIX)) return value;
+          return assets.get(value.slice(ASSET_REF_PREFIX.length)) || value;
+        });
+
+    return {
+      ...restored,
+      startTime: restored.startTime ? new Date(restored.startTime) : undefined,
+      endTime: restored.endTime ? new Date(restored.endTime) : undefined
+    };
+  }
+}
+
+// 执行记录中引用的图片ID
+function collectAssetIds(records: StoredExecution[]): Set<string> {
+  const ids = new Set<string>();
+  for (const record of records) {
+    for (const match of JSON.stringify(record).matchAll(ASSET_REF_PATTERN)) {
+      ids.add(match[1]);
+    }
+  }
+  return ids;
+}
+
+// 递归替换对象中的字符串
+function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') return map(value) as T;
+  if (Array.isArray(value)) return value.map(item => mapStrings(item, map)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)])) as T;
+  }
+  return value;
+}
+
+// 内容摘要（cyrb53），加上长度作为图片ID
+function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return hash.toString(36) + text.length.toString(36);
+}
+
+// 全局执行历史实例
+export const workflowHistory = new WorkflowHistoryStore();
@@ -0,0 +1,393 @@
+/**
+ * 工作流定时运行
+ * 保存 cron 计划；扩展环境由后台 service worker 通过 chrome.alarms 触发，
+ * 网页环境使用定时器触发（需要页面保持打开）。运行结束后通过平台通知告知结果。
+ * 扩展环境中计划只由后台写入，扩展页面的编辑通过 runtime 消息转发给后台
+ */
+
+import { createPlatformAdapter } from '../adapters';
+import type { StorageAdapter } from '../adapters/types';
+import type { WorkflowExecution, WorkflowSchedule, WorkflowStepParams } from '../config/workflows';
+import { forwardWrite, handleForwardedWrites, shouldForwardWrites } from './backgroundWrites';
+import { getNextCronTime, parseCron } from './cronExpression';
+import { workflowExecutor } from './workflowExecutor';
+import type { WorkflowExecutor } from './workflowExecutor';
+import { workflowStore } from './workflowStore';
+
+const SCHEDULES_KEY = 'workflow_schedules';
+const ALARM_PREFIX = 'workflow-schedule:';
+const RUN_NOW_ALARM_PREFIX = 'workflow-schedule-now:';
+// 定时器单次等待的上限，超过后重新检查（setTimeout 最长约 24.8 天）
+const MAX_TIMER_DELAY = 60 * 60 * 1000;
+
+/**
+ * 校验定时计划
+ */
+export function validateSchedule(schedule: WorkflowSchedule): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!schedule.name?.trim()) {
+    errors.push('计划名称不能为空');
+  }
+  if (!schedule.workflowId) {
+    errors.push('请选择工作流');
+  }
+  try {
+    parseCron(schedule.cron || '');
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : 'cron 表达式无效');
+  }
+  if (!getTopics(schedule).length && !schedule.params?.topic?.trim()) {
+    errors.push('请填写主题或主题列表');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * 计划本次运行使用的参数：rotate 模式取下一个主题，each 模式为每个主题各运行一次
+ */
+export function resolveScheduleRuns(schedule: WorkflowSchedule): {
+  runs: WorkflowStepParams[];
+  nextTopicIndex?: number;
+} {
+  const topics = getTopics(schedule);
+  if (topics.length === 0) {
+    return { runs: [schedule.params] };
+  }
+  if (schedule.topicMode === 'each') {
+    return { runs: topics.map(topic => ({ ...schedule.params, topic })) };
+  }
+
+  const index = (schedule.nextTopicIndex || 0) % topics.length;
+  return {
+    runs: [{ ...schedule.params, topic: topics[index] }],
+    nextTopicIndex: (index + 1) % topics.length
+  };
+}
+
+function getTopics(schedule: WorkflowSchedule): string[] {
+  return (schedule.topics || []).map(topic => topic.trim()).filter(Boolean);
+}
+
+/**
+ * 定时计划存储
+ */
+export class WorkflowScheduleStore {
+  private storage: StorageAdapter | null;
+  // 串行化本上下文内的写入；扩展页面的写入转发给后台，不同上下文之间不会互相覆盖
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(storage?: StorageAdapter) {
+    this.storage = storage || null;
+  }
+
+  /**
+   * 获取所有定时计划
+   */
+  async list(): Promise<WorkflowSchedule[]> {
+    return (await this.getStorage().get<WorkflowSchedule[]>(SCHEDULES_KEY)) || [];
+  }
+
+  /**
+   * 获取单个定时计划
+   */
+  async get(scheduleId: string): Promise<WorkflowSchedule | undefined> {
+    return (await this.list()).find(schedule => schedule.id === scheduleId);
+  }
+
+  /**
+   * 保存定时计划并重新计算下次运行时间，配置无效时抛出错误
+   */
+  async save(schedule: WorkflowSchedule): Promise<WorkflowSchedule> {
+    const { valid, errors } = validateSchedule(schedule);
+    if (!valid) {
+      throw new Error(`定时计划无效: ${errors.join('; ')}`);
+    }
+    if (!(await workflowStore.get(schedule.workflowId))) {
+      throw new Error(`工作流 ${schedule.workflowId} 不存在`);
+    }
+
+    if (shouldForwardWrites()) {
+      return forwardWrite<WorkflowSchedule>(SCHEDULES_KEY, 'save', [schedule]);
+    }
+
+    const saved: WorkflowSchedule = {
+      ...schedule,
+      nextRunAt: schedule.enabled ? getNextCronTime(schedule.cron).getTime() : undefined,
+      updatedAt: Date.now()
+    };
+    await this.enqueue(schedules => {
+      const index = schedules.findIndex(item => item.id === saved.id);
+      if (index === -1) {
+        schedules.push(saved);
+      } else {
+        schedules[index] = saved;
+      }
+      return schedules;
+    });
+    return saved;
+  }
+
+  /**
+   * 更新运行状态等字段，计划已删除时忽略
+   */
+  update(scheduleId: string, patch: Partial<WorkflowSchedule>): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(SCHEDULES_KEY, 'update', [scheduleId, patch]);
+    }
+    return this.enqueue(schedules =>
+      schedules.map(schedule => (schedule.id === scheduleId ? { ...schedule, ...patch } : schedule))
+    );
+  }
+
+  /**
+   * 删除定时计划
+   */
+  remove(scheduleId: string): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(SCHEDULES_KEY, 'remove', [scheduleId]);
+    }
+    return this.enqueue(schedules => schedules.filter(schedule => schedule.id !== scheduleId));
+  }
+
+  /**
+   * 后台执行扩展页面转发的写入
+   */
+  serveForwardedWrites(): void {
+    handleForwardedWrites(SCHEDULES_KEY, {
+      save: (schedule: WorkflowSchedule) => this.save(schedule),
+      update: (scheduleId: string, patch: Partial<WorkflowSchedule>) => this.update(scheduleId, patch),
+      remove: (scheduleId: string) => this.remove(scheduleId)
+    });
+  }
+
+  /**
+   * 创建空白计划（默认每天 8 点）
+   */
+  createEmpty(workflowId = ''): WorkflowSchedule {
+    return {
+      id: `schedule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: '',
+      workflowId,
+      cron: '0 8 * * *',
+      params: {},
+      topics: [],
+      topicMode: 'rotate',
+      enabled: true,
+      createdAt: Date.now()
+    };
+  }
+
+  private enqueue(update: (schedules: WorkflowSchedule[]) => WorkflowSchedule[]): Promise<void> {
+    const task = this.writeQueue.then(async () => {
+      const schedules = await this.list();
+      await this.getStorage().set(SCHEDULES_KEY, update(schedules));
+    });
+    this.writeQueue = task.catch(error => {
+      console.error('定时计划写入失败:', error);
+    });
+    return task;
+  }
+
+  private getStorage(): StorageAdapter {
+    if (!this.storage) {
+      this.storage = createPlatformAdapter().storage;
+    }
+    return this.storage;
+  }
+}
+
+/**
+ * 定时调度器
+ */
+export class WorkflowScheduler {
+  private started = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private store: WorkflowScheduleStore,
+    private executor: WorkflowExecutor
+  ) {}
+
+  /**
+   * 是否使用 chrome.alarms（扩展环境），否则使用定时器
+   */
+  get usesAlarms(): boolean {
+    return typeof chrome !== 'undefined' && !!chrome.alarms;
+  }
+
+  /**
+   * 开始处理定时计划
+   * 扩展后台在顶层同步注册监听并接收页面转发的写入，alarms 在浏览器重启后由 onStartup 重新设置；网页环境启动定时器
+   * 后台运行的执行到审核步骤时保存后退出，由页面提交审核后继续
+   */
+  start(): Promise<void> {
+    if (this.started) return Promise.resolve();
+    this.started = true;
+
+    if (this.usesAlarms) {
+      this.store.serveForwardedWrites();
+      this.executor.detachReviews();
+      chrome.alarms.onAlarm.addListener(alarm => {
+        if (alarm.name.startsWith(RUN_NOW_ALARM_PREFIX)) {
+          this.trigger(alarm.name.slice(RUN_NOW_ALARM_PREFIX.length), true);
+        } else if (alarm.name.startsWith(ALARM_PREFIX)) {
+          this.trigger(alarm.name.slice(ALARM_PREFIX.length), false);
+        }
+      });
+      chrome.runtime.onStartup?.addListener(() => this.sync());
+      chrome.runtime.onInstalled?.addListener(() => this.sync());
+      return Promise.resolve();
+    }
+
+    return this.sync();
+  }
+
+  /**
+   * 按计划重新设置 alarms 或定时器，计划变更后调用
+   */
+  async sync(): Promise<void> {
+    const schedules = (await this.store.list()).filter(schedule => schedule.enabled && schedule.nextRunAt);
+
+    if (this.usesAlarms) {
+      const alarms = await chrome.alarms.getAll();
+      await Promise.all(
+        alarms
+          .filter(alarm => alarm.name.startsWith(ALARM_PREFIX))
+          .map(alarm => chrome.alarms.clear(alarm.name))
+      );
+      // 浏览器关闭期间错过的计划在启动后补运行一次
+      await Promise.all(
+        schedules.map(schedule =>
+          chrome.alarms.create(`${ALARM_PREFIX}${schedule.id}`, { when: Math.max(schedule.nextRunAt!, Date.now() + 1000) })
+        )
+      );
+      return;
+    }
+
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const next = Math.min(...schedules.map(schedule => schedule.nextRunAt!));
+    if (Number.isFinite(next)) {
+      const delay = Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_DELAY);
+      this.timer = setTimeout(() => this.runDue(), delay);
+    }
+  }
+
+  /**
+   * 立即运行计划，扩展环境交给后台执行，避免弹窗关闭后中断
+   */
+  async runNow(scheduleId: string): Promise<void> {
+    if (this.usesAlarms) {
+      await chrome.alarms.create(`${RUN_NOW_ALARM_PREFIX}${scheduleId}`, { when: Date.now() });
+      return;
+    }
+    await this.trigger(scheduleId, true);
+  }
+
+  // 定时器到期：运行所有到期的计划后重新设置定时器
+  private async runDue(): Promise<void> {
+    this.timer = null;
+    const due = (await this.store.list()).filter(
+      schedule => schedule.enabled && schedule.nextRunAt && schedule.nextRunAt <= Date.now()
+    );
+    for (const schedule of due) {
+      await this.trigger(schedule.id, false);
+    }
+    await this.sync();
+  }
+
+  // 运行计划；非手动触发时只运行已到期的计划，避免重复触发
+  private async trigger(scheduleId: string, manual: boolean): Promise<void> {
+    const schedule = await this.store.get(scheduleId);
+    if (!schedule || (!manual && (!schedule.enabled || !schedule.nextRunAt || schedule.nextRunAt > Date.now() + 1000))) {
+      return;
+    }
+
+    const { runs, nextTopicIndex } = resolveScheduleRuns(schedule);
+    await this.store.update(schedule.id, {
+      lastRunAt: Date.now(),
+      lastStatus: 'running',
+      lastError: undefined,
+      lastExecutionIds: [],
+      nextTopicIndex,
+      nextRunAt: schedule.enabled ? getNextCronTime(schedule.cron).getTime() : undefined
+    });
+    await this.sync();
+
+    const executions: WorkflowExecution[] = [];
+    for (const params of runs) {
+      try {
+        executions.push(await this.executor.execute(schedule.workflowId, params));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : '启动失败';
+        await this.store.update(schedule.id, { lastStatus: 'failed', lastError: message });
+        await this.notify(`定时任务「${schedule.name}」启动失败`, message);
+        return;
+      }
+    }
+
+    await this.store.update(schedule.id, { lastExecutionIds: executions.map(execution => execution.id) });
+    this.watch(schedule, executions);
+  }
+
+  // 跟踪本次运行的执行，全部结束后更新状态并发送通知
+  private watch(schedule: WorkflowSchedule, executions: WorkflowExecution[]): void {
+    const pending = new Map(executions.map(execution => [execution.id, execution]));
+    const finished: WorkflowExecution[] = [];
+
+    const finish = async (execution: WorkflowExecution) => {
+      if (!pending.delete(execution.id)) return;
+      finished.push(execution);
+      if (pending.size > 0) return;
+      unsubscribe();
+
+      const failed = finished.filter(item => item.status === 'failed');
+      const awaiting = finished.filter(item => item.status === 'awaiting_input');
+      const topics = finished.map(item => item.params.topic).filter(Boolean).join('、');
+
+      if (failed.length > 0) {
+        const error = failed.map(item => item.error).filter(Boolean).join('; ');
+        await this.store.update(schedule.id, { lastStatus: 'failed', lastError: error });
+        await this.notify(`定时任务「${schedule.name}」运行失败`, error || `${failed.length} 个执行失败`);
+      } else if (awaiting.length > 0) {
+        await this.store.update(schedule.id, { lastStatus: 'awaiting_input' });
+        await this.notify(`定时任务「${schedule.name}」等待审核`, topics ? `主题：${topics}` : '请打开工作流页面审核');
+      } else {
+        await this.store.update(schedule.id, { lastStatus: 'completed' });
+        await this.notify(`定时任务「${schedule.name}」已完成`, topics ? `主题：${topics}` : '查看历史记录获取结果');
+      }
+    };
+
+    const unsubscribe = this.executor.subscribe({
+      onComplete: finish,
+      onError: finish,
+      onProgress: execution => {
+        if (execution.status === 'awaiting_input') finish(execution);
+      }
+    });
+
+    // 订阅前已经结束的执行
+    executions
+      .filter(execution => ['completed', 'failed', 'awaiting_input'].includes(execution.status))
+      .forEach(finish);
+  }
+
+  private async notify(title: string, body: string): Promise<void> {
+    try {
+      await createPlatformAdapter().native.notifications.send(title, body);
+    } catch (error) {
+      console.error('发送通知失败:', error);
+    }
+  }
+}
+
+// 全局定时计划存储和调度器实例
+export const workflowScheduleStore = new WorkflowScheduleStore();
+export const workflowScheduler = new WorkflowScheduler(workflowScheduleStore, workflowExecutor);
@@ -0,0 +1,140 @@
+/**
+ * 工作流导入导出测试
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { AISource } from '../config/engines';
+import { PROMPT_TEMPLATES } from '../config/workflows';
+import type { WorkflowConfig } from '../config/workflows';
+import {
+  WORKFLOW_DOCUMENT_KIND,
+  applyResourceMapping,
+  exportWorkflow,
+  findUnmappedResources,
+  parseWorkflowDocument
+} from './workflowSerializer';
+
+const workflow: WorkflowConfig = {
+  id: 'custom_article',
+  name: '文章摘要',
+  description: '写文章并生成摘要',
+  engine: 'doubao',
+  sourceId: 'local-source',
+  isCustom: true,
+  updatedAt: 1710000000000,
+  steps: [
+    {
+      id: 'article',
+      name: '正文',
+      description: '',
+      promptType: 'content',
+      template: PROMPT_TEMPLATES.content,
+      outputKey: 'content',
+      sourceId: 'local-source',
+      fallback: { sourceId: 'backup-source' }
+    },
+    {
+      id: 'summary',
+      name: '摘要',
+      description: '',
+      promptType: 'description',
+      template: '用一句话总结：{content}',
+      outputKey: 'summary',
+      dependencies: ['article'],
+      engine: 'openai',
+      model: 'gpt-4o',
+      fallback: { engine: 'claude', sourceId: 'backup-source' }
+    }
+  ]
+};
+
+describe('exportWorkflow', () => {
+  it('预设模板导出为 templateRef，去掉本机的AI源ID', () => {
+    const doc = JSON.parse(exportWorkflow(workflow));
+
+    assert.equal(doc.schemaVersion, 1);
+    assert.equal(doc.kind, WORKFLOW_DOCUMENT_KIND);
+    assert.deepEqual(doc.templates, { content: PROMPT_TEMPLATES.content });
+    assert.equal(doc.workflow.sourceId, undefined);
+    assert.equal(doc.workflow.isCustom, undefined);
+    assert.equal(doc.workflow.updatedAt, undefined);
+
+    const [article, summary] = doc.workflow.steps;
+    assert.equal(article.templateRef, 'content');
+    assert.equal(article.template, undefined);
+    assert.equal(article.sourceId, undefined);
+    assert.equal(article.fallback, undefined);
+    assert.equal(summary.template, '用一句话总结：{content}');
+    assert.deepEqual(summary.fallback, { engine: 'claude' });
+  });
+
+  it('JSON 和 YAML 文档都可以导入回原工作流', () => {
+    for (const format of ['json', 'yaml'] as const) {
+      const imported = parseWorkflowDocument(exportWorkflow(workflow, format));
+      assert.equal(imported.id, 'custom_article');
+      assert.equal(imported.isCustom, true);
+      assert.equal(imported.steps[0].template, PROMPT_TEMPLATES.content);
+      assert.equal(imported.steps[1].template, '用一句话总结：{content}');
+      assert.deepEqual(imported.steps[1].dependencies, ['article']);
+    }
+  });
+});
+
+describe('parseWorkflowDocument', () => {
+  it('迁移 v0 文档（直接导出的工作流配置）', () => {
+    const { isCustom, updatedAt, ...config } = workflow;
+    const imported = parseWorkflowDocument(JSON.stringify(config));
+    assert.equal(imported.name, '文章摘要');
+    assert.equal(imported.isCustom, true);
+    assert.equal(imported.steps.length, 2);
+  });
+
+  it('templateRef 优先使用文档中的模板，其次使用本地预设', () => {
+    const doc = JSON.parse(exportWorkflow(workflow));
+    assert.equal(parseWorkflowDocument(JSON.stringify({ ...doc, templates: {} })).steps[0].template, PROMPT_TEMPLATES.content);
+
+    const custom = '围绕{topic}写一段{style}风格的文字';
+    assert.equal(parseWorkflowDocument(JSON.stringify({ ...doc, templates: { content: custom } })).steps[0].template, custom);
+  });
+
+  it('预设工作流的ID导入为新ID', () => {
+    const doc = JSON.parse(exportWorkflow(workflow));
+    doc.workflow.id = 'content-creation';
+    assert.match(parseWorkflowDocument(JSON.stringify(doc)).id, /^custom_/);
+  });
+
+  it('文档无效时报错', () => {
+    const doc = JSON.parse(exportWorkflow(workflow));
+    assert.throws(() => parseWorkflowDocument('{"a": [1,'), /文档解析失败/);
+    assert.throws(() => parseWorkflowDocument('"文本"'), /工作流文档为空或不是对象/);
+    assert.throws(() => parseWorkflowDocument(JSON.stringify({ ...doc, schemaVersion: 2 })), /文档版本 2 高于当前支持的版本 1/);
+    assert.throws(() => parseWorkflowDocument(JSON.stringify({ ...doc, kind: 'other' })), /未知的文档类型: other/);
+
+    doc.workflow.steps[0].templateRef = 'unknown';
+    assert.throws(() => parseWorkflowDocument(JSON.stringify(doc)), /steps\[0\] 引用的模板 unknown 不存在/);
+  });
+
+  it('导入的配置无效时报错', () => {
+    const doc = JSON.parse(exportWorkflow(workflow));
+    doc.workflow.steps[1].dependencies = [];
+    assert.throws(() => parseWorkflowDocument(JSON.stringify(doc)), /模板变量 \{content\} 来自步骤 article，需要将其添加为依赖/);
+  });
+});
+
+describe('findUnmappedResources', () => {
+  it('找出未配置的引擎和未知模型，映射后替换', () => {
+    const sources = [{ id: 's1', name: '豆包', type: 'doubao', apiKey: 'k', isDefault: true }] as AISource[];
+    const issues = findUnmappedResources(workflow, sources);
+    assert.deepEqual(issues.engines, ['openai', 'claude']);
+    assert.deepEqual(issues.models, []);
+
+    const mapped = applyResourceMapping(workflow, {
+      engines: { openai: 'doubao', claude: 'doubao' },
+      models: { 'openai:gpt-4o': 'doubao-pro-4k' }
+    });
+    assert.equal(mapped.steps[1].engine, 'doubao');
+    assert.equal(mapped.steps[1].model, 'doubao-pro-4k');
+    assert.equal(mapped.steps[1].fallback?.engine, 'doubao');
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * 工作流导入导出
+ * 将 WorkflowConfig 及其引用的预设模板序列化为带版本号的 JSON/YAML 文档，
+ * 导入时校验、迁移旧版本，并找出本地未配置的引擎和模型供用户映射
+ */
+
+import YAML from 'yaml';
+import { AI_ENGINE_CONFIGS } from '../config/engines';
+import type { AIEngineType, AISource } from '../config/engines';
+import { DEFAULT_WORKFLOWS, PROMPT_TEMPLATES, PROMPT_TYPE_OPTIONS } from '../config/workflows';
+import type { WorkflowConfig, WorkflowStep } from '../config/workflows';
+import { validateWorkflowConfig } from './workflowStore';
+
+export const WORKFLOW_SCHEMA_VERSION = 1;
+export const WORKFLOW_DOCUMENT_KIND = 'ai-image-automation/workflow';
+
+export type WorkflowDocumentFormat = 'json' | 'yaml';
+
+// 文档中的步骤，引用预设模板时只保存模板名
+export type WorkflowDocumentStep = Omit<WorkflowStep, 'template'> & {
+  template?: string;
+  templateRef?: string;
+};
+
+// 工作流文档
+export interface WorkflowDocument {
+  schemaVersion: number;
+  kind: string;
+  exportedAt: string;
+  workflow: Omit<WorkflowConfig, 'steps' | 'isCustom' | 'updatedAt'> & {
+    steps: WorkflowDocumentStep[];
+  };
+  templates: Record<string, string>;
+}
+
+// 导入时需要映射的资源
+export interface WorkflowResourceIssues {
+  engines: string[]; // 本地未配置AI源的引擎
+  models: Array<{ engine: string; model: string }>; // 引擎下不存在的模型
+}
+
+// 用户选择的资源映射
+export interface WorkflowResourceMapping {
+  engines: Record<string, string>;
+  models: Record<string, string>; // key 为 `${engine}:${model}`
+}
+
+// 按版本号升级文档，键为升级前的版本
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  // v0：直接导出的 WorkflowConfig 对象
+  0: (doc) => ({
+    schemaVersion: 1,
+    kind: WORKFLOW_DOCUMENT_KIND,
+    exportedAt: new Date().toISOString(),
+    workflow: doc,
+    templates: {}
+  })
+};
+
+/**
+ * 导出工作流为文档文本
+ */
+export function exportWorkflow(workflow: WorkflowConfig, format: WorkflowDocumentFormat = 'json'): string {
+  const templates: Record<string, string> = {};
+  const presetEntries = Object.entries(PROMPT_TEMPLATES) as Array<[string, string]>;
+
+  // AI源ID只在本机有效，导出时去掉，导入后按引擎使用默认AI源
+  const steps = workflow.steps.map(original => {
+    let step = stripSourceIds(original);
+    if (step.map) {
+      step = { ...step, map: { ...step.map, steps: step.map.steps.map(stripSourceIds) } };
+    }
+    const preset = presetEntries.find(([, text]) => text && text === step.template);
+    if (!preset) return { ...step };
+
+    templates[preset[0]] = preset[1];
+    const { template, ...rest } = step;
+    return { ...rest, templateRef: preset[0] };
+  });
+
+  const { isCustom, updatedAt, sourceId, ...config } = workflow;
+  const doc: WorkflowDocument = {
+    schemaVersion: WORKFLOW_SCHEMA_VERSION,
+    kind: WORKFLOW_DOCUMENT_KIND,
+    exportedAt: new Date().toISOString(),
+    workflow: { ...config, steps },
+    templates
+  };
+
+  return format === 'yaml' ? YAML.stringify(doc) : JSON.stringify(doc, null, 2);
+}
+
+/**
+ * 解析工作流文档（JSON 或 YAML），返回校验通过的工作流配置
+ */
+export function parseWorkflowDocument(text: string): WorkflowConfig {
+  let raw: any;
+  try {
+    // YAML 是 JSON 的超集，统一用 YAML 解析
+    raw = YAML.parse(text);
+  } catch (error) {
+    throw new Error(`文档解析失败: ${error instanceof Error ? error.message : '格式错误'}`);
+  }
+
+  const doc = migrateDocument(raw);
+  const errors = validateDocumentShape(doc);
+  if (errors.length > 0) {
+    throw new Error(`工作流文档格式错误: ${errors.join('; ')}`);
+  }
+
+  const workflow: WorkflowConfig = {
+    ...doc.workflow,
+    steps: doc.workflow.steps.map(({ templateRef, ...step }) => ({
+      ...step,
+      template: templateRef
+        ? doc.templates[templateRef] ?? PROMPT_TEMPLATES[templateRef as keyof typeof PROMPT_TEMPLATES]
+        : step.template
+    })),
+    isCustom: true
+  };
+
+  // 预设工作流ID不可覆盖，导入为新工作流
+  if (DEFAULT_WORKFLOWS.some(w => w.id === workflow.id)) {
+    workflow.id = `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  const { valid, errors: configErrors } = validateWorkflowConfig(workflow);
+  if (!valid) {
+    throw new Error(`工作流配置无效: ${configErrors.join('; ')}`);
+  }
+
+  return workflow;
+}
+
+/**
+ * 找出工作流中本地未配置的引擎和未知的模型
+ */
+export function findUnmappedResources(workflow: WorkflowConfig, sources: AISource[]): WorkflowResourceIssues {
+  const engines = new Set<string>();
+  const models = new Map<string, { engine: string; model: string }>();
+
+  const check = (engine: string, model?: string) => {
+    if (!sources.some(source => source.type === engine)) {
+      engines.add(engine);
+    }
+    if (model && !isKnownModel(engine, model, sources)) {
+      models.set(`${engine}:${model}`, { engine, model });
+    }
+  };
+
+  check(workflow.engine, workflow.model);
+  workflow.steps.flatMap(step => [step, ...(step.map?.steps || [])]).forEach(step => {
+    if (step.engine || step.model) {
+      check(step.engine || workflow.engine, step.model);
+    }
+    if (step.fallback?.engine || step.fallback?.model) {
+      check(step.fallback.engine || step.engine || workflow.engine, step.fallback.model);
+    }
+  });
+
+  return {
+    engines: Array.from(engines),
+    models: Array.from(models.values())
+  };
+}
+
+/**
+ * 应用用户选择的引擎和模型映射
+ */
+export function applyResourceMapping(workflow: WorkflowConfig, mapping: WorkflowResourceMapping): WorkflowConfig {
+  const mapEngine = (engine: string) => mapping.engines[engine] || engine;
+  const mapModel = (engine: string, model?: string) =>
+    model ? mapping.models[`${engine}:${model}`] || model : model;
+
+  const mapStep = (step: WorkflowStep): WorkflowStep => ({
+    ...step,
+    engine: step.engine ? mapEngine(step.engine) : undefined,
+    model: mapModel(step.engine || workflow.engine, step.model),
+    fallback: step.fallback
+      ? {
+          ...step.fallback,
+          engine: step.fallback.engine ? mapEngine(step.fallback.engine) : undefined,
+          model: mapModel(step.fallback.engine || step.engine || workflow.engine, step.fallback.model)
+        }
+      : undefined,
+    map: step.map ? { ...step.map, steps: step.map.steps.map(mapStep) } : undefined
+  });
+
+  return {
+    ...workflow,
+    engine: mapEngine(workflow.engine),
+    model: mapModel(workflow.engine, workflow.model),
+    steps: workflow.steps.map(mapStep)
+  };
+}
+
+/**
+ * 逐级迁移到当前版本
+ */
+function migrateDocument(raw: any): WorkflowDocument {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('工作流文档为空或不是对象');
+  }
+
+  let doc = raw;
+  let version = typeof doc.schemaVersion === 'number' ? doc.schemaVersion : 0;
+
+  if (version > WORKFLOW_SCHEMA_VERSION) {
+    throw new Error(`文档版本 ${version} 高于当前支持的版本 ${WORKFLOW_SCHEMA_VERSION}，请升级插件`);
+  }
+
+  while (version < WORKFLOW_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`不支持的文档版本: ${version}`);
+    }
+    doc = migrate(doc);
+    version = doc.schemaVersion;
+  }
+
+  return doc;
+}
+
+/**
+ * 校验文档结构
+ */
+function validateDocumentShape(doc: WorkflowDocument): string[] {
+  const errors: string[] = [];
+  const workflow = doc.workflow;
+
+  if (doc.kind !== WORKFLOW_DOCUMENT_KIND) {
+    errors.push(`未知的文档类型: ${doc.kind}`);
+  }
+  if (!workflow || typeof workflow !== 'object') {
+    return [...errors, '缺少 workflow 字段'];
+  }
+  if (typeof workflow.id !== 'string' || typeof workflow.name !== 'string') {
+    errors.push('workflow 缺少 id 或 name');
+  }
+  if (!Array.isArray(workflow.steps)) {
+    return [...errors, 'workflow.steps 必须是数组'];
+  }
+
+  const templates = doc.templates || {};
+  const promptTypes = PROMPT_TYPE_OPTIONS.map(option => option.value as string);
+  workflow.steps.forEach((step, index) => {
+    const label = `steps[${index}]`;
+    if (typeof step.id !== 'string' || typeof step.outputKey !== 'string') {
+      errors.push(`${label} 缺少 id 或 outputKey`);
+    }
+    if (!promptTypes.includes(step.promptType)) {
+      errors.push(`${label} 的 promptType 无效: ${step.promptType}`);
+    }
+    if (step.outputSchema !== undefined && (typeof step.outputSchema !== 'object' || step.outputSchema === null)) {
+      errors.push(`${label} 的 outputSchema 必须是对象`);
+    }
+    if (step.map !== undefined && (typeof step.map !== 'object' || !Array.isArray(step.map?.steps))) {
+      errors.push(`${label} 的 map.steps 必须是数组`);
+    }
+    if (step.dependencies !== undefined && !Array.isArray(step.dependencies)) {
+      errors.push(`${label} 的 dependencies 必须是数组`);
+    }
+    if (step.templateRef && !(step.templateRef in templates) && !(step.templateRef in PROMPT_TEMPLATES)) {
+      errors.push(`${label} 引用的模板 ${step.templateRef} 不存在`);
+    }
+  });
+
+  return errors;
+}
+
+// 去掉步骤和备用引擎中只在本机有效的AI源ID，只指定了AI源的备用引擎一并去掉
+function stripSourceIds({ sourceId, fallback, ...step }: WorkflowStep): WorkflowStep {
+  if (!fallback) return step;
+  const { sourceId: fallbackSourceId, ...rest } = fallback;
+  return rest.engine || rest.model ? { ...step, fallback: rest } : step;
+}
+
+/**
+ * 模型是否在引擎配置或AI源的模型映射中存在
+ */
+function isKnownModel(engine: string, model: string, sources: AISource[]): boolean {
+  const config = AI_ENGINE_CONFIGS[engine as AIEngineType];
+  if (config?.models.some(m => m.id === model)) return true;
+  return sources.some(source => source.type === engine && !!source.modelOverrides?.[model]);
+}
@@ -0,0 +1,396 @@
+/**
+ * 用户自定义工作流存储
+ * 通过平台存储适配器持久化 WorkflowConfig，并在保存前校验配置
+ */
+
+import { createPlatformAdapter } from '../adapters';
+import type { StorageAdapter } from '../adapters/types';
+import {
+  CONDITION_OPERATOR_OPTIONS,
+  DEFAULT_WORKFLOWS,
+  MEDIA_PROMPT_TYPES,
+  WORKFLOW_PARAM_KEYS
+} from '../config/workflows';
+import type { WorkflowConfig, WorkflowStep } from '../config/workflows';
+import { validateWorkflowGraph } from './workflowGraph';
+import { extractTemplateVariables } from './promptTemplate';
+import { validateOutputSchema } from './outputSchema';
+import { forwardWrite, handleForwardedWrites, shouldForwardWrites } from './backgroundWrites';
+
+const CUSTOM_WORKFLOWS_KEY = 'custom_workflows';
+
+// 变量来源检查：返回错误信息，变量可用时返回 null
+type VariableScope = (name: string, what: string) => string | null;
+
+/**
+ * 校验工作流配置
+ * 检查必填字段、依赖关系以及模板变量、执行条件和循环列表是否可解析
+ */
+export function validateWorkflowConfig(workflow: WorkflowConfig): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!workflow.name?.trim()) {
+    errors.push('工作流名称不能为空');
+  }
+  if (!workflow.engine) {
+    errors.push('请选择默认AI引擎');
+  }
+  if (workflow.steps.length === 0) {
+    errors.push('工作流至少需要一个步骤');
+  }
+
+  const outputKeys = new Map<string, string>();
+  workflow.steps.forEach((step, index) => {
+    const label = step.name || step.id || `步骤${index + 1}`;
+    if (outputKeys.has(step.outputKey)) {
+      errors.push(`${label}: 输出键 ${step.outputKey} 与步骤 ${outputKeys.get(step.outputKey)} 重复`);
+    } else if (step.outputKey?.trim()) {
+      outputKeys.set(step.outputKey, step.id);
+    }
+    errors.push(...validateStepFields(step, label));
+
+    // 循环步骤的子步骤
+    if (step.promptType === 'map' && step.map) {
+      const subKeys = new Set<string>();
+      step.map.steps.forEach((subStep, subIndex) => {
+        const subLabel = `${label} / ${subStep.name || subStep.id || `子步骤${subIndex + 1}`}`;
+        if (subStep.promptType === 'map' || subStep.promptType === 'review') {
+          errors.push(`${subLabel}: 循环的子步骤不支持循环和人工审核`);
+        }
+        if (subKeys.has(subStep.outputKey)) {
+          errors.push(`${subLabel}: 输出键 ${subStep.outputKey} 重复`);
+        }
+        subKeys.add(subStep.outputKey);
+        errors.push(...validateStepFields(subStep, subLabel));
+      });
+    }
+  });
+
+  const graph = validateWorkflowGraph(workflow);
+  errors.push(...graph.errors);
+
+  // 依赖关系有效时，检查引用的变量只来自运行参数或上游步骤的输出
+  if (graph.valid) {
+    const depsMap = new Map(workflow.steps.map(step => [step.id, step.dependencies || []]));
+    const upstreamOf = (id: string, seen = new Set<string>()): Set<string> => {
+      for (const dep of depsMap.get(id) || []) {
+        if (!seen.has(dep)) {
+          seen.add(dep);
+          upstreamOf(dep, seen);
+        }
+      }
+      return seen;
+    };
+
+    workflow.steps.forEach(step => {
+      const label = step.name || step.id;
+      const upstream = upstreamOf(step.id);
+
+      const scope: VariableScope = (name, what) => {
+        if (WORKFLOW_PARAM_KEYS.includes(name)) return null;
+        const producer = outputKeys.get(name);
+        if (!producer) return `未知的${what}`;
+        if (!upstream.has(producer)) return `${what} 来自步骤 ${producer}，需要将其添加为依赖`;
+        return null;
+      };
+
+      // 图生视频步骤的首帧必须来自上游图片步骤
+      const imageSource = (key: string): string | null => {
+        const producerStep = workflow.steps.find(s => s.id === outputKeys.get(key));
+        if (!producerStep || producerStep.promptType !== 'image') {
+          return `首帧图片来源 ${key} 不是图片步骤的输出`;
+        }
+        if (!upstream.has(producerStep.id)) {
+          return `首帧图片来自步骤 ${producerStep.id}，需要将其添加为依赖`;
+        }
+        return null;
+      };
+
+      errors.push(...validateStepReferences(step, label, scope, imageSource));
+
+      // 审核内容必须来自上游可重新生成的步骤
+      if (step.promptType === 'review') {
+        (step.review?.keys || []).forEach(key => {
+          const error = scope(key, `审核内容 ${key}`);
+          const producer = workflow.steps.find(s => s.id === outputKeys.get(key));
+          if (error) {
+            errors.push(`${label}: ${error}`);
+          } else if (producer && (producer.promptType === 'map' || producer.promptType === 'review')) {
+            errors.push(`${label}: 审核内容 ${key} 来自循环或审核步骤，无法审核`);
+          }
+        });
+      }
+
+      if (step.promptType !== 'map' || !step.map) return;
+
+      const map = step.map;
+      const itemsError = checkPath(map.itemsPath, '列表来源', scope);
+      if (itemsError) errors.push(`${label}: ${itemsError}`);
+
+      // 子步骤可引用当前项和前面子步骤的输出
+      map.steps.forEach((subStep, subIndex) => {
+        const previous = map.steps.slice(0, subIndex);
+        const subLabel = `${label} / ${subStep.name || subStep.id}`;
+        const subScope: VariableScope = (name, what) =>
+          name === map.itemName || previous.some(s => s.outputKey === name) ? null : scope(name, what);
+        const subImageSource = (key: string): string | null => {
+          const local = previous.find(s => s.outputKey === key);
+          if (local) return local.promptType === 'image' ? null : `首帧图片来源 ${key} 不是图片步骤的输出`;
+          return imageSource(key);
+        };
+        errors.push(...validateStepReferences(subStep, subLabel, subScope, subImageSource));
+      });
+    });
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+/**
+ * 校验步骤自身的字段
+ */
+function validateStepFields(step: WorkflowStep, label: string): string[] {
+  const errors: string[] = [];
+
+  if (!step.id?.trim()) {
+    errors.push(`${label}: 步骤ID不能为空`);
+  }
+  if (!step.outputKey?.trim()) {
+    errors.push(`${label}: 输出键不能为空`);
+  }
+
+  if (step.promptType === 'map') {
+    const map = step.map;
+    if (!map) {
+      errors.push(`${label}: 循环步骤缺少循环配置`);
+    } else {
+      if (!map.itemsPath?.trim()) errors.push(`${label}: 请指定循环的列表来源`);
+      if (!/^[A-Za-z_]\w*$/.test(map.itemName || '')) errors.push(`${label}: 循环变量名只能包含字母、数字和下划线`);
+      if (!map.steps?.length) errors.push(`${label}: 循环步骤至少需要一个子步骤`);
+      if (map.concurrency !== undefined && !(map.concurrency >= 1)) errors.push(`${label}: 并发数至少为 1`);
+    }
+  } else if (step.promptType === 'review') {
+    if (!step.review?.keys?.length) errors.push(`${label}: 请选择需要审核的输出`);
+  } else if (!step.template?.trim()) {
+    errors.push(`${label}: 提示词模板不能为空`);
+  }
+
+  if (step.outputSchema !== undefined) {
+    if (MEDIA_PROMPT_TYPES.includes(step.promptType) || step.promptType === 'map' || step.promptType === 'review') {
+      errors.push(`${label}: 图片、视频、循环和审核步骤不支持输出结构`);
+    } else {
+      errors.push(...validateOutputSchema(step.outputSchema, '输出结构').map(error => `${label}: ${error}`));
+    }
+  }
+
+  if (step.condition) {
+    const operator = CONDITION_OPERATOR_OPTIONS.find(option => option.value === step.condition!.operator);
+    if (!step.condition.path?.trim()) {
+      errors.push(`${label}: 执行条件缺少变量路径`);
+    }
+    if (!operator) {
+      errors.push(`${label}: 未知的执行条件 ${step.condition.operator}`);
+    } else if (operator.needsValue && (step.condition.value === undefined || step.condition.value === '')) {
+      errors.push(`${label}: 执行条件"${operator.label}"需要比较值`);
+    }
+  }
+
+  // 重试、超时和备用引擎作用于引擎调用，循环和审核步骤请在子步骤上设置
+  const callsEngine = step.promptType !== 'map' && step.promptType !== 'review';
+  if ((step.retry || step.timeoutMs !== undefined || step.fallback) && !callsEngine) {
+    errors.push(`${label}: 循环和审核步骤不支持重试、超时和备用引擎`);
+  }
+  if (step.retry) {
+    const { maxRetries, backoff, delayMs } = step.retry;
+    if (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > 10) {
+      errors.push(`${label}: 重试次数应为 0-10 的整数`);
+    }
+    if (backoff !== undefined && backoff !== 'fixed' && backoff !== 'exponential') {
+      errors.push(`${label}: 未知的重试间隔策略 ${backoff}`);
+    }
+    if (delayMs !== undefined && !(delayMs >= 0)) {
+      errors.push(`${label}: 重试间隔不能为负数`);
+    }
+  }
+  if (step.timeoutMs !== undefined && !(step.timeoutMs > 0)) {
+    errors.push(`${label}: 超时时间必须大于 0`);
+  }
+  if (step.fallback && !step.fallback.engine && !step.fallback.sourceId && !step.fallback.model) {
+    errors.push(`${label}: 备用引擎至少需要指定引擎、AI源或模型之一`);
+  }
+
+  return errors;
+}
+
+/**
+ * 校验步骤引用的模板变量、执行条件和首帧图片来源
+ */
+function validateStepReferences(
+  step: WorkflowStep,
+  label: string,
+  scope: VariableScope,
+  imageSource: (key: string) => string | null
+): string[] {
+  const errors: string[] = [];
+
+  if (step.promptType === 'image-to-video') {
+    const error = step.inputKey ? imageSource(step.inputKey) : '图生视频步骤需要指定首帧图片来源';
+    if (error) errors.push(`${label}: ${error}`);
+  }
+
+  if (step.condition?.path?.trim()) {
+    const error = checkPath(step.condition.path, '执行条件变量', scope);
+    if (error) errors.push(`${label}: ${error}`);
+  }
+
+  let variables: string[];
+  try {
+    variables = extractTemplateVariables(step.template || '');
+  } catch (error) {
+    return [...errors, `${label}: ${error instanceof Error ? error.message : '模板无效'}`];
+  }
+
+  variables.forEach(variable => {
+    const error = scope(variable, `模板变量 {${variable}}`);
+    if (error) errors.push(`${label}: ${error}`);
+  });
+  return errors;
+}
+
+// 检查变量路径的格式及其顶层变量的来源
+function checkPath(path: string, what: string, scope: VariableScope): string | null {
+  let root: string;
+  try {
+    root = extractTemplateVariables(`{${path}}`)[0];
+  } catch {
+    return `${what} ${path} 格式无效`;
+  }
+  return root ? scope(root, `${what} ${path}`) : `${what} ${path} 格式无效`;
+}
+
+/**
+ * 自定义工作流存储
+ */
+export class WorkflowConfigStore {
+  private storage: StorageAdapter | null;
+
+  constructor(storage?: StorageAdapter) {
+    this.storage = storage || null;
+  }
+
+  /**
+   * 获取所有自定义工作流
+   */
+  async list(): Promise<WorkflowConfig[]> {
+    return (await this.getStorage().get<WorkflowConfig[]>(CUSTOM_WORKFLOWS_KEY)) || [];
+  }
+
+  /**
+   * 获取预设和自定义的全部工作流
+   */
+  async listAll(): Promise<WorkflowConfig[]> {
+    return [...DEFAULT_WORKFLOWS, ...(await this.list())];
+  }
+
+  /**
+   * 根据ID获取工作流（优先查找预设工作流）
+   */
+  async get(workflowId: string): Promise<WorkflowConfig | undefined> {
+    return DEFAULT_WORKFLOWS.find(w => w.id === workflowId) ||
+      (await this.list()).find(w => w.id === workflowId);
+  }
+
+  /**
+   * 保存自定义工作流，配置无效时抛出错误
+   */
+  async save(workflow: WorkflowConfig): Promise<WorkflowConfig> {
+    if (DEFAULT_WORKFLOWS.some(w => w.id === workflow.id)) {
+      throw new Error('预设工作流不可修改，请先克隆');
+    }
+    if (shouldForwardWrites()) {
+      return forwardWrite<WorkflowConfig>(CUSTOM_WORKFLOWS_KEY, 'save', [workflow]);
+    }
+
+    const { valid, errors } = validateWorkflowConfig(workflow);
+    if (!valid) {
+      throw new Error(`工作流配置无效: ${errors.join('; ')}`);
+    }
+
+    const saved: WorkflowConfig = { ...workflow, isCustom: true, updatedAt: Date.now() };
+    const workflows = await this.list();
+    const index = workflows.findIndex(w => w.id === saved.id);
+    if (index === -1) {
+      workflows.push(saved);
+    } else {
+      workflows[index] = saved;
+    }
+
+    await this.getStorage().set(CUSTOM_WORKFLOWS_KEY, workflows);
+    return saved;
+  }
+
+  /**
+   * 删除自定义工作流
+   */
+  async remove(workflowId: string): Promise<void> {
+    if (shouldForwardWrites()) {
+      return forwardWrite(CUSTOM_WORKFLOWS_KEY, 'remove', [workflowId]);
+    }
+    const workflows = await this.list();
+    await this.getStorage().set(CUSTOM_WORKFLOWS_KEY, workflows.filter(w => w.id !== workflowId));
+  }
+
+  /**
+   * 后台执行扩展页面转发的写入
+   */
+  serveForwardedWrites(): void {
+    handleForwardedWrites(CUSTOM_WORKFLOWS_KEY, {
+      save: (workflow: WorkflowConfig) => this.save(workflow),
+      remove: (workflowId: string) => this.remove(workflowId)
+    });
+  }
+
+  /**
+   * 克隆工作流（预设或自定义），返回未保存的副本
+   */
+  clone(workflow: WorkflowConfig): WorkflowConfig {
+    const copy: WorkflowConfig = JSON.parse(JSON.stringify(workflow));
+    return {
+      ...copy,
+      id: this.generateId(),
+      name: `${workflow.name}（副本）`,
+      isCustom: true
+    };
+  }
+
+  /**
+   * 创建空白工作流
+   */
+  createEmpty(): WorkflowConfig {
+    return {
+      id: this.generateId(),
+      name: '',
+      description: '',
+      engine: 'doubao',
+      steps: [],
+      isCustom: true
+    };
+  }
+
+  private getStorage(): StorageAdapter {
+    if (!this.storage) {
+      this.storage = createPlatformAdapter().storage;
+    }
+    return this.storage;
+  }
+
+  private generateId(): string {
+    return `custom_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+// 全局自定义工作流存储实例
+export const workflowStore = new WorkflowConfigStore();
@@ -1,23 +1,27 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { createPlatformAdapter } from '../adapters';
+import type { EngineUsage } from '../adapters/types';
+import type { AISource } from '../config/engines';
 
-interface AISource {
-  id: string;
+export interface ChatAttachment {
+  type: 'image' | 'audio' | 'video';
+  url: string; // data URL
   name: string;
-  type: 'openai' | 'claude' | 'gemini' | 'volcengine' | 'volcengine-dream';
-  apiKey: string;
-  baseUrl?: string;
-  enabled: boolean;
-  models: string[];
 }
 
-interface ChatMessage {
+export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
   sourceId?: string;
+  attachments?: ChatAttachment[];
+  model?: string;
+  isStreaming?: boolean;
+  usage?: EngineUsage; // 回复的 token 用量
+  feedback?: 'good' | 'bad';
+  error?: string;
 }
 
 interface AppState {
@@ -42,7 +46,8 @@ interface AppState {
   removeAISource: (id: string) => void;
   setCurrentSource: (id: string) => void;
   
-  addChatMessage: (message: Omit<ChatMessage, 'id'>) => void;
+  addChatMessage: (message: Omit<ChatMessage, 'id'>) => string;
+  updateChatMessage: (id: string, updates: Partial<ChatMessage>) => void;
   clearChatMessages: () => void;
   setStreaming: (streaming: boolean) => void;
   
@@ -102,6 +107,15 @@ export const useAppStore = create<AppState>()(
           set((state) => ({
             chatMessages: [...state.chatMessages, newMessage],
           }));
+          return newMessage.id;
+        },
+        
+        updateChatMessage: (id, updates) => {
+          set((state) => ({
+            chatMessages: state.chatMessages.map((message) =>
+              message.id === id ? { ...message, ...updates } : message
+            ),
+          }));
         },
         
         clearChatMessages: () => {
@@ -0,0 +1,64 @@
+/**
+ * CSV 读写测试
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('解析引号包裹的字段，"" 表示引号', () => {
+    assert.deepEqual(parseCsv('topic,style\n"咖啡, 拿铁","他说""好喝"""\n'), [
+      ['topic', 'style'],
+      ['咖啡, 拿铁', '他说"好喝"']
+    ]);
+  });
+
+  it('引号内的换行属于字段内容', () => {
+    assert.deepEqual(parseCsv('topic,notes\n城市,"第一行\n第二行\r\n第三行"\n'), [
+      ['topic', 'notes'],
+      ['城市', '第一行\n第二行\r\n第三行']
+    ]);
+  });
+
+  it('兼容 BOM、CRLF 和单独的 CR 换行，忽略空行', () => {
+    assert.deepEqual(parseCsv('\uFEFFa,b\r\n1,2\r\n\r\n , \r3,4'), [
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4']
+    ]);
+  });
+
+  it('保留空字段，字段中间的引号按普通字符处理', () => {
+    assert.deepEqual(parseCsv('a,,c,\n5"寸,x'), [
+      ['a', '', 'c', ''],
+      ['5"寸', 'x']
+    ]);
+  });
+
+  it('引号未闭合时报错', () => {
+    assert.throws(() => parseCsv('a,"b\nc'), /引号未闭合/);
+  });
+});
+
+describe('toCsv', () => {
+  it('带 BOM 和 CRLF，需要时加引号并转义', () => {
+    assert.equal(
+      toCsv([
+        ['topic', 'count', 'notes'],
+        ['咖啡, 拿铁', 3, '他说"好"\n再来'],
+        [undefined, null, '']
+      ]),
+      '\uFEFFtopic,count,notes\r\n"咖啡, 拿铁",3,"他说""好""\n再来"\r\n,,'
+    );
+  });
+
+  it('导出后可以原样解析', () => {
+    const rows = [
+      ['标题', '描述'],
+      ['"引号"', '多行\r\n内容, 带逗号'],
+      ['普通', '文本']
+    ];
+    assert.deepEqual(parseCsv(toCsv(rows)), rows);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * CSV 读写
+ * 支持双引号包裹的字段（字段内可包含逗号、换行，"" 表示引号），兼容 Excel 导出的 BOM 和 CRLF 换行
+ */
+
+/**
+ * 解析 CSV 文本为二维数组，忽略空行
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const source = text.replace(/^\uFEFF/, '');
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('CSV 格式错误：引号未闭合');
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * 二维数组转换为 CSV 文本，带 BOM 以便 Excel 正确识别中文
+ */
+export function toCsv(rows: Array<Array<string | number | undefined | null>>): string {
+  const lines = rows.map(row =>
+    row
+      .map(value => {
+        const text = value === undefined || value === null ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',')
+  );
+  return `\uFEFF${lines.join('\r\n')}`;
+}